@@ -1,28 +1,110 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { AppTab, InvoiceData, ProcessingMetrics, BoundingBox, CorrectionHistory, StoredDocument, DocumentRelation } from './types';
-import { extractInvoiceData, generateImageFromPrompt } from './services/geminiService';
+import { AppTab, DocumentData, ProcessingMetrics, CorrectionHistory, StoredDocument, DocumentRelation, ProcessError, Dealer, DealerMatch, TractorModel, ModelValidation, ValidationRule, ValidationReport, EvaluationRun, ModelPrice, SpendBudget, SpendEntry, SpendTotals, SchemaTemplate, ReviewStatus, ReviewThresholds, CorrectionKind, OperatorProfile, PreprocessingSummary, DocumentEditAction } from './types';
+import { categorizeError } from './services/errors';
+import { confirmDealerMatch, loadDealers, matchDealer, saveDealers } from './services/dealerRegistry';
+import { loadModels, saveModels, validateModel } from './services/modelCatalog';
+import { ValidationStatus, getValidationStatus, loadRules, saveRules, validateDocument } from './services/ruleEngine';
+import { findTemplate, loadActiveTemplateId, loadTemplates, parseFieldInput, saveActiveTemplateId, saveTemplates, templateRef, templateRules } from './services/schemaTemplates';
+import { EvaluationProgress, loadEvaluationRuns, labeledSampleDocument, parseLabeledSet, runEvaluation, saveEvaluationRuns, toGroundTruth } from './services/evaluation';
+import { ProviderId, getDefaultProviderId, getExtractionProvider, listExtractionProviders, saveProviderId } from './services/extractionProvider';
+import { isPdfFile, loadDocumentPages, readFileAsDataUrl } from './services/pdfRenderer';
+import { PreprocessResult, combineSummaries, preprocessImage } from './services/imagePreprocessing';
+import { QualityGateError, assessPages } from './services/qualityGate';
+import { ImportResult, createArchiveBundle } from './services/archiveBundle';
+import { computePerceptualHash } from './services/perceptualHash';
+import { findDuplicates, recordDuplicateDecision } from './services/duplicateDetection';
+import { RelationSuggestion, SuggestedLink, suggestCounterparts } from './services/relationSuggestions';
+import { ResolvedRelation, documentLabel, findDanglingRelations, hasRelation, relationDegrees, relationsOf, removeDanglingRelations, removeRelationsTo } from './services/relationGraph';
+import { downloadBlob } from './services/archiveExport';
+import { applyCorrection, documentEdit, originalValue, undoRedoStacks } from './services/correctionAudit';
+import { PermissionDeniedError, ROLE_LABELS, decisionDenial, editDenial, findOperator, maintenanceDenial, loadActiveOperatorId, loadOperatorProfiles, saveActiveOperatorId, saveOperatorProfiles } from './services/operatorProfiles';
+import { awaitApproval, decideReview, initialReview, loadReviewThresholds, pendingReviews, resolveReviewField, saveReviewThresholds } from './services/reviewQueue';
+import { clearSpendLedger, formatUsd, getBudgetStatus, loadBudget, loadModelPrices, loadSpendLedger, loadSpendTotals, saveBudget, saveModelPrices, subscribeToSpend } from './services/spendLedger';
+import { StorageQuotaError, deleteDocuments, getStorageEstimate, listDocuments, loadDocumentImages, loadOriginalImages, migrateLegacyHistory, putDocuments, saveDocumentImages } from './services/documentStore';
 import ArchitectureDiagram from './components/ArchitectureDiagram';
 import Insights from './components/Insights';
 import ChatBot from './components/ChatBot';
+import BatchProcessor from './components/BatchProcessor';
+import DocumentThumbnail from './components/DocumentThumbnail';
+import DealerRegistry from './components/DealerRegistry';
+import ModelCatalog from './components/ModelCatalog';
+import RuleSettings from './components/RuleSettings';
+import SpendSettings from './components/SpendSettings';
+import ExportPanel from './components/ExportPanel';
+import ArchiveImport from './components/ArchiveImport';
+import DuplicateReview from './components/DuplicateReview';
+import RelationSuggestions from './components/RelationSuggestions';
+import RelationGraph from './components/RelationGraph';
+import SchemaTemplates from './components/SchemaTemplates';
+import DocumentViewer, { FieldRegion, regionColor } from './components/DocumentViewer';
+import ReviewPanel from './components/ReviewPanel';
+import ReviewSettings from './components/ReviewSettings';
+import AuditTrail from './components/AuditTrail';
+import OperatorProfiles from './components/OperatorProfiles';
+import PreprocessPreview from './components/PreprocessPreview';
+import CameraCapture from './components/CameraCapture';
 
-interface ProcessError {
-  type: 'service' | 'quality' | 'format' | 'network';
-  title: string;
-  message: string;
-  suggestion: string;
+interface ExtractOptions {
+  preprocessed?: { originals: string[]; summary: PreprocessingSummary };
+  // Camera captures, as opposed to uploaded scans and rendered or generated pages.
+  isPhoto?: boolean;
+  // Set when the operator chose to extract despite failed quality checks.
+  overrideQuality?: boolean;
 }
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<AppTab>(AppTab.PROCESSOR);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedData, setExtractedData] = useState<InvoiceData | null>(null);
+  const [extractedData, setExtractedData] = useState<DocumentData | null>(null);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [selectedPages, setSelectedPages] = useState<string[]>([]);
+  const [activePage, setActivePage] = useState(0);
+  // Raw camera/upload image waiting in the preprocessing preview.
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  // Camera shots are judged for glare and framing; uploaded scans are not.
+  const [pendingFromCamera, setPendingFromCamera] = useState(false);
+  const [originalPages, setOriginalPages] = useState<string[] | null>(null);
+  const [focusedField, setFocusedField] = useState<string | null>(null);
   const [processError, setProcessError] = useState<ProcessError | null>(null);
+  // Extraction stopped by the quality gate, kept so the operator can go ahead anyway.
+  const [blockedExtraction, setBlockedExtraction] = useState<{ pages: string[]; options: ExtractOptions } | null>(null);
   const [metrics, setMetrics] = useState<ProcessingMetrics | null>(null);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [history, setHistory] = useState<StoredDocument[]>([]);
+  const [currentDocId, setCurrentDocId] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const persistedHistoryRef = useRef<StoredDocument[] | null>(null);
+  const [dealers, setDealers] = useState<Dealer[]>(loadDealers);
+  const [models, setModels] = useState<TractorModel[]>(loadModels);
+  const [rules, setRules] = useState<ValidationRule[]>(loadRules);
+  const [templates, setTemplates] = useState<SchemaTemplate[]>(loadTemplates);
+  const [activeTemplateId, setActiveTemplateId] = useState<string>(loadActiveTemplateId);
+  const [reviewThresholds, setReviewThresholds] = useState<ReviewThresholds>(loadReviewThresholds);
+  const [operatorProfiles, setOperatorProfiles] = useState<OperatorProfile[]>(loadOperatorProfiles);
+  const [activeOperatorId, setActiveOperatorId] = useState<string | null>(loadActiveOperatorId);
+  const [evaluationRuns, setEvaluationRuns] = useState<EvaluationRun[]>(loadEvaluationRuns);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [evaluationProgress, setEvaluationProgress] = useState<EvaluationProgress | null>(null);
+  const [modelPrices, setModelPrices] = useState<ModelPrice[]>(loadModelPrices);
+  const [budget, setBudget] = useState<SpendBudget>(loadBudget);
+  const [spendLedger, setSpendLedger] = useState<SpendEntry[]>(loadSpendLedger);
+  const [spendTotals, setSpendTotals] = useState<SpendTotals>(loadSpendTotals);
+  const budgetStatus = useMemo(() => getBudgetStatus(spendTotals, budget), [spendTotals, budget]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [validationFilter, setValidationFilter] = useState<ValidationStatus | 'all'>('all');
+  const [reviewFilter, setReviewFilter] = useState<ReviewStatus | 'all'>('all');
+  const [selectedDocIds, setSelectedDocIds] = useState<Set<string>>(new Set());
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [providerId, setProviderId] = useState<ProviderId>(getDefaultProviderId);
+  const provider = useMemo(() => getExtractionProvider(providerId), [providerId]);
+
+  // Only an explicit pick is remembered, so the startup default is worked out afresh each launch.
+  const selectProvider = (id: ProviderId) => {
+    setProviderId(id);
+    saveProviderId(id);
+  };
   
   // Generator State
   const [genPrompt, setGenPrompt] = useState('');
@@ -33,7 +115,7 @@ const App: React.FC = () => {
   const [isLinkerOpen, setIsLinkerOpen] = useState(false);
   const [linkTargetDoc, setLinkTargetDoc] = useState<StoredDocument | null>(null);
   const [linkingSourceField, setLinkingSourceField] = useState<string | null>(null);
-  const [currentDocRelations, setCurrentDocRelations] = useState<DocumentRelation[]>([]);
+  const [graphRootId, setGraphRootId] = useState<string | null>(null);
 
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -44,19 +126,27 @@ const App: React.FC = () => {
   });
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const evaluationAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const isTyping = ['INPUT', 'TEXTAREA'].includes((e.target as HTMLElement).tagName) || (e.target as HTMLElement).isContentEditable;
       if (e.key === 'Escape') {
+        if (isProcessing) extractionAbortRef.current?.abort();
         if (isCameraActive) stopCamera();
+        if (pendingImage) setPendingImage(null);
         if (processError) setProcessError(null);
         if (isLinkerOpen) setIsLinkerOpen(false);
         return;
       }
       if (isTyping) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && activeTab === AppTab.PROCESSOR && extractedData) {
+        e.preventDefault();
+        if (e.shiftKey) redoCorrection(); else undoCorrection();
+        return;
+      }
       if (e.altKey) {
         switch (e.key) {
           case '1': setActiveTab(AppTab.PROCESSOR); break;
@@ -64,6 +154,10 @@ const App: React.FC = () => {
           case '3': setActiveTab(AppTab.HISTORY); break;
           case '4': setActiveTab(AppTab.INSIGHTS); break;
           case '5': setActiveTab(AppTab.ARCHITECTURE); break;
+          case '6': setActiveTab(AppTab.BATCH); break;
+          case '7': setActiveTab(AppTab.REGISTRY); break;
+          case '8': setActiveTab(AppTab.SETTINGS); break;
+          case '9': setActiveTab(AppTab.REVIEW); break;
           case 'c':
           case 'C':
             if (activeTab !== AppTab.PROCESSOR) setActiveTab(AppTab.PROCESSOR);
@@ -71,7 +165,7 @@ const App: React.FC = () => {
             break;
           case 'p':
           case 'P':
-            if (selectedFile && !isProcessing) processImage(selectedFile);
+            if (selectedFile && !isProcessing) processDocument(selectedPages);
             break;
           case 'u':
           case 'U':
@@ -83,21 +177,40 @@ const App: React.FC = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeTab, isCameraActive, selectedFile, isProcessing, processError, isLinkerOpen]);
+  }, [activeTab, isCameraActive, selectedFile, selectedPages, isProcessing, processError, isLinkerOpen, extractedData, currentDocId, history, operatorProfiles, activeOperatorId, pendingImage]);
 
   useEffect(() => {
-    const saved = localStorage.getItem('docu_history');
-    if (saved) {
+    const loadArchive = async () => {
       try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse history", e);
+        await migrateLegacyHistory();
+        const docs = await listDocuments();
+        persistedHistoryRef.current = docs;
+        // Documents processed while the archive was loading are kept, and saved by the sync below.
+        setHistory(prev => {
+          const sessionIds = new Set(prev.map(d => d.id));
+          return [...prev, ...docs.filter(d => !sessionIds.has(d.id))].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        });
+      } catch (err: any) {
+        persistedHistoryRef.current = [];
+        setProcessError(categorizeError(err));
       }
-    }
+    };
+    loadArchive();
   }, []);
 
+  // Writes only what changed since the last sync: new/updated records are put, missing ones deleted.
   useEffect(() => {
-    localStorage.setItem('docu_history', JSON.stringify(history));
+    const previous = persistedHistoryRef.current;
+    if (!previous || previous === history) return;
+    persistedHistoryRef.current = history;
+    const previousById = new Map(previous.map(d => [d.id, d]));
+    const changed = history.filter(d => previousById.get(d.id) !== d);
+    const currentIds = new Set(history.map(d => d.id));
+    const removed = previous.filter(d => !currentIds.has(d.id)).map(d => d.id);
+    Promise.all([
+      changed.length ? putDocuments(changed) : null,
+      removed.length ? deleteDocuments(removed) : null,
+    ]).then(() => getStorageEstimate()).then(setStorageEstimate).catch(err => setProcessError(categorizeError(err)));
   }, [history]);
 
   useEffect(() => {
@@ -110,175 +223,589 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
-  const categorizeError = (err: any): ProcessError => {
-    const msg = err.message?.toLowerCase() || '';
-    if (msg.includes('fetch') || msg.includes('network') || msg.includes('offline')) return { type: 'network', title: 'Network Interrupted', message: 'Could not establish connection.', suggestion: 'Check your connection.' };
-    if (msg.includes('safety') || msg.includes('blocked')) return { type: 'format', title: 'Content Blocked', message: 'AI flagged content.', suggestion: 'Try another document.' };
-    if (msg.includes('json') || msg.includes('unexpected token') || msg.includes('empty response')) return { type: 'quality', title: 'Extraction Failed', message: 'AI couldn\'t identify fields.', suggestion: 'Ensure document is clear.' };
-    return { type: 'service', title: 'Engine Error', message: err.message || 'Unexpected error.', suggestion: 'Try refreshing.' };
+  useEffect(() => {
+    saveDealers(dealers);
+  }, [dealers]);
+
+  useEffect(() => {
+    saveModels(models);
+  }, [models]);
+
+  useEffect(() => {
+    saveRules(rules);
+  }, [rules]);
+
+  useEffect(() => {
+    saveTemplates(templates);
+  }, [templates]);
+
+  useEffect(() => {
+    saveActiveTemplateId(activeTemplateId);
+  }, [activeTemplateId]);
+
+  useEffect(() => {
+    saveReviewThresholds(reviewThresholds);
+  }, [reviewThresholds]);
+
+  useEffect(() => {
+    saveOperatorProfiles(operatorProfiles);
+  }, [operatorProfiles]);
+
+  const activeOperator = useMemo(() => findOperator(operatorProfiles, activeOperatorId), [operatorProfiles, activeOperatorId]);
+
+  useEffect(() => {
+    saveActiveOperatorId(activeOperator.id);
+  }, [activeOperator]);
+
+  useEffect(() => {
+    saveEvaluationRuns(evaluationRuns);
+  }, [evaluationRuns]);
+
+  useEffect(() => {
+    saveModelPrices(modelPrices);
+  }, [modelPrices]);
+
+  useEffect(() => {
+    saveBudget(budget);
+  }, [budget]);
+
+  useEffect(() => subscribeToSpend((ledger, totals) => {
+    setSpendLedger(ledger);
+    setSpendTotals(totals);
+  }), []);
+
+  const selectDocument = (pages: string[]) => {
+    setSelectedFile(pages[0] || null);
+    setSelectedPages(pages);
+    setActivePage(0);
+    setFocusedField(null);
+    setOriginalPages(null);
+    setCurrentDocId(null);
+  };
+
+  const activeTemplate = useMemo(() => findTemplate(templates, { id: activeTemplateId }), [templates, activeTemplateId]);
+
+  // Configured rules plus the validation declared by the document's own template version.
+  const rulesFor = (doc: Pick<StoredDocument, 'template'>): ValidationRule[] => [...rules, ...templateRules(findTemplate(templates, doc.template))];
+
+  // Checked locally before anything is sent, so an unusable scan costs nothing.
+  // Photos are judged on the capture itself, since preprocessing can't undo blur or glare.
+  const extractDocument = async (pages: string[], { preprocessed, isPhoto = false, overrideQuality = false }: ExtractOptions = {}, signal?: AbortSignal): Promise<StoredDocument> => {
+    const { quality, issues } = await assessPages(preprocessed?.originals || pages, isPhoto);
+    if (issues.length && !overrideQuality) throw new QualityGateError(issues);
+    const template = activeTemplate;
+    const startTime = Date.now();
+    const { data, usage } = await provider.extractInvoiceData(pages, template, signal);
+    const endTime = Date.now();
+    const newMetrics: ProcessingMetrics = {
+      latencyMs: endTime - startTime,
+      costEstimateUsd: usage?.costUsd ?? 0,
+      usage,
+      quality,
+      documentAccuracy: (data.documentType.confidence + data.dealerName.confidence + data.modelName.confidence + data.horsePower.confidence + data.assetCost.confidence) / 5 * 100
+    };
+    const id = crypto.randomUUID();
+    await saveDocumentImages(id, pages, preprocessed?.originals);
+    // A fingerprint failure only weakens duplicate detection; it shouldn't fail the extraction.
+    const perceptualHash = await computePerceptualHash(pages[0]).catch(() => undefined);
+    const doc: StoredDocument = { id, timestamp: new Date().toISOString(), pageCount: pages.length, data, metrics: newMetrics, template: templateRef(template), relations: [], dealerMatch: matchDealer(data.dealerName.value, dealers), modelValidation: validateModel(data, models), validation: validateDocument(data, [...rules, ...templateRules(template)]), perceptualHash, preprocessing: preprocessed?.summary };
+    return { ...doc, review: initialReview(doc, template, reviewThresholds) };
+  };
+
+  // Checked against the latest archive inside the updater so documents from one batch see each other.
+  const addToHistory = (doc: StoredDocument) => setHistory(prev => [{ ...doc, duplicateCheck: findDuplicates(doc, prev) }, ...prev]);
+
+  const currentDoc = useMemo(() => history.find(d => d.id === currentDocId) || null, [history, currentDocId]);
+  const currentTemplate = useMemo(() => findTemplate(templates, currentDoc?.template), [templates, currentDoc]);
+  const fieldColors = useMemo(() => new Map(currentTemplate.fields.map((f, i) => [f.key, regionColor(i)])), [currentTemplate]);
+
+  // Absent presence marks (no signature, no stamp) have nothing to point at.
+  const fieldRegions = useMemo((): FieldRegion[] => !extractedData ? [] : currentTemplate.fields.flatMap(field => {
+    const extracted = extractedData[field.key];
+    if (!extracted?.boundingBox || (field.type === 'boolean' && !extracted.value)) return [];
+    return [{ key: field.key, label: field.label, color: fieldColors.get(field.key)!, box: extracted.boundingBox }];
+  }), [extractedData, currentTemplate, fieldColors]);
+
+  const focusField = (key: string) => {
+    const next = focusedField === key ? null : key;
+    setFocusedField(next);
+    const region = fieldRegions.find(r => r.key === next);
+    if (region) setActivePage(region.box.page || 0);
+  };
+
+  // Unlike focusField this never clears the focus, so stepping through the review queue always lands on a field.
+  const showField = (key: string) => {
+    setFocusedField(key);
+    const region = fieldRegions.find(r => r.key === key);
+    if (region) setActivePage(region.box.page || 0);
+  };
+
+  const focusFieldCard = (key: string) => {
+    setFocusedField(key);
+    document.getElementById(`field-${key}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+  const currentDocRelations = useMemo(() => currentDoc ? relationsOf(currentDoc, history) : [], [currentDoc, history]);
+  const danglingRelations = useMemo(() => findDanglingRelations(history), [history]);
+  const degrees = useMemo(() => relationDegrees(history), [history]);
+
+  const updateCurrentDoc = (patch: Partial<StoredDocument>) => {
+    setHistory(prev => prev.map(d => d.id === currentDocId ? { ...d, ...patch } : d));
+  };
+
+  // Every control that changes a document's content checks in here first.
+  const guardEdit = (doc: StoredDocument | null | undefined): boolean => {
+    const denial = doc ? editDenial(activeOperator, doc) : null;
+    if (denial) setProcessError(categorizeError(new PermissionDeniedError(denial)));
+    return !denial;
+  };
+
+  // Archive-wide actions are admin-only and pass over documents whose approval locks them.
+  const updateArchive = (update: (doc: StoredDocument) => StoredDocument) => {
+    const denial = maintenanceDenial(activeOperator);
+    if (denial) {
+      setProcessError(categorizeError(new PermissionDeniedError(denial)));
+      return;
+    }
+    setHistory(prev => prev.map(d => editDenial(activeOperator, d) ? d : update(d)));
+  };
+
+  // Changes outside the extracted fields are logged next to the field corrections. Those
+  // that change what a reviewer signs off on send the document back for approval.
+  const editDocument = (docId: string, patch: (doc: StoredDocument) => Partial<StoredDocument>, action: DocumentEditAction, detail: string, requeue = true) => {
+    setHistory(prev => prev.map(d => d.id === docId ? {
+      ...d,
+      ...patch(d),
+      edits: [...(d.edits || []), documentEdit(activeOperator, action, detail)],
+      ...(requeue ? { review: awaitApproval(d.review, activeOperator.name) } : {}),
+    } : d));
+  };
+
+  // Manually confirmed matches are left alone; everything else is re-scored against the current registry.
+  const rematchArchive = () => {
+    updateArchive(d => d.dealerMatch?.isManual ? d : { ...d, dealerMatch: matchDealer(d.data.dealerName.value, dealers) });
+  };
+
+  const revalidateArchiveModels = () => {
+    updateArchive(d => ({ ...d, modelValidation: validateModel(d.data, models) }));
   };
 
-  const processImage = async (base64: string) => {
+  const revalidateArchiveRules = () => {
+    updateArchive(d => ({ ...d, validation: validateDocument(d.data, rulesFor(d)) }));
+  };
+
+  const toggleGroundTruth = () => {
+    if (!currentDoc || !guardEdit(currentDoc)) return;
+    const labeled = !currentDoc.groundTruth;
+    editDocument(currentDoc.id, d => ({ groundTruth: labeled ? toGroundTruth(d.data, 'correction') : undefined }), 'ground-truth', labeled ? 'Marked as ground truth' : 'Ground truth label removed', false);
+  };
+
+  const handleRunEvaluation = async () => {
+    if (isEvaluating) return;
+    const controller = new AbortController();
+    evaluationAbortRef.current = controller;
+    setIsEvaluating(true);
+    setEvaluationProgress(null);
+    try {
+      const extract = async (pages: string[], signal?: AbortSignal) => (await provider.extractInvoiceData(pages, activeTemplate, signal)).data;
+      const run = await runEvaluation(history, provider.id, extract, loadDocumentImages, setEvaluationProgress, controller.signal);
+      setEvaluationRuns(prev => [...prev, run]);
+    } catch (err: any) {
+      const error = categorizeError(err);
+      if (error.type !== 'cancelled') setProcessError(error);
+    } finally {
+      if (evaluationAbortRef.current === controller) evaluationAbortRef.current = null;
+      setIsEvaluating(false);
+      setEvaluationProgress(null);
+    }
+  };
+
+  // Labeled samples become archive documents whose extracted data is the label itself
+  // (shaped to the active template) until an evaluation run re-extracts them.
+  const handleImportLabeledSet = async (file: File) => {
+    const denial = maintenanceDenial(activeOperator);
+    if (denial) {
+      setProcessError(categorizeError(new PermissionDeniedError(denial)));
+      return;
+    }
+    try {
+      const samples = parseLabeledSet(await file.text());
+      const imported: StoredDocument[] = [];
+      for (const sample of samples) {
+        const id = crypto.randomUUID();
+        await saveDocumentImages(id, sample.pages);
+        imported.push(labeledSampleDocument(sample, activeTemplate, id));
+      }
+      setHistory(prev => [...imported, ...prev]);
+    } catch (err: any) {
+      setProcessError(err instanceof StorageQuotaError
+        ? categorizeError(err)
+        : { type: 'format', title: 'Invalid Labeled Set', message: err.message || 'Could not read labeled set.', suggestion: 'Provide a JSON array of { image, labels } samples.' });
+    }
+  };
+
+  const decideDuplicate = (decision: 'confirmed' | 'not-duplicate', duplicateOfId?: string) => {
+    if (!currentDoc?.duplicateCheck || !guardEdit(currentDoc)) return;
+    const original = history.find(d => d.id === duplicateOfId);
+    const detail = decision === 'confirmed' ? `Confirmed as a duplicate${original ? ` of ${documentLabel(original)}` : ''}` : 'Marked as not a duplicate';
+    editDocument(currentDoc.id, d => ({ duplicateCheck: d.duplicateCheck && recordDuplicateDecision(d.duplicateCheck, decision, duplicateOfId) }), 'duplicate', detail);
+  };
+
+  const selectDealerForCurrentDoc = (dealerId: string) => {
+    const dealer = dealers.find(d => d.id === dealerId);
+    if (!dealer || !currentDoc || !guardEdit(currentDoc)) return;
+    editDocument(currentDoc.id, d => ({ dealerMatch: confirmDealerMatch(d.dealerMatch || matchDealer(d.data.dealerName.value, dealers), dealer) }), 'dealer', `Dealer set to ${dealer.canonicalName}`);
+  };
+
+  // A cancelled extraction just clears the overlay; there is nothing to report.
+  const processDocument = async (pages: string[], options: ExtractOptions = {}) => {
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
     setIsProcessing(true);
     setProcessError(null);
-    const startTime = Date.now();
+    setBlockedExtraction(null);
     try {
-      const data = await extractInvoiceData(base64);
-      const endTime = Date.now();
-      const newMetrics = {
-        latencyMs: endTime - startTime,
-        costEstimateUsd: 0.002,
-        documentAccuracy: (data.documentType.confidence + data.dealerName.confidence + data.modelName.confidence + data.horsePower.confidence + data.assetCost.confidence) / 5 * 100
-      };
-      setExtractedData(data);
-      setMetrics(newMetrics);
-      setCurrentDocRelations([]);
-      const newDoc: StoredDocument = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), image: base64, data, metrics: newMetrics, relations: [] };
-      setHistory(prev => [newDoc, ...prev]);
+      const newDoc = await extractDocument(pages, options, controller.signal);
+      setExtractedData(newDoc.data);
+      setMetrics(newDoc.metrics);
+      setCurrentDocId(newDoc.id);
+      addToHistory(newDoc);
     } catch (err: any) {
-      setProcessError(categorizeError(err));
-    } finally { setIsProcessing(false); }
+      if (err instanceof QualityGateError) setBlockedExtraction({ pages, options });
+      const error = categorizeError(err);
+      if (error.type !== 'cancelled') setProcessError(error);
+    } finally {
+      // A newer extraction may have replaced the controller already.
+      if (extractionAbortRef.current === controller) extractionAbortRef.current = null;
+      setIsProcessing(false);
+    }
   };
 
   const handleGenerate = async () => {
     if (!genPrompt.trim() || isGenerating) return;
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
     setIsGenerating(true);
     setProcessError(null);
     try {
-      const result = await generateImageFromPrompt(genPrompt);
+      const result = await provider.generateImageFromPrompt(genPrompt, controller.signal);
       setGenResult(result);
     } catch (err: any) {
-      setProcessError(categorizeError(err));
+      const error = categorizeError(err);
+      if (error.type !== 'cancelled') setProcessError(error);
     } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
   const useGeneratedImage = () => {
     if (!genResult) return;
-    setSelectedFile(genResult);
+    selectDocument([genResult]);
     setExtractedData(null);
     setMetrics(null);
     setActiveTab(AppTab.PROCESSOR);
-    processImage(genResult);
+    processDocument([genResult]);
   };
 
   const filteredHistory = useMemo(() => {
-    if (!searchQuery.trim()) return history;
+    const byValidation = validationFilter === 'all' ? history : history.filter(doc => getValidationStatus(doc.validation) === validationFilter);
+    const byStatus = reviewFilter === 'all' ? byValidation : byValidation.filter(doc => doc.review?.status === reviewFilter);
+    if (!searchQuery.trim()) return byStatus;
     const q = searchQuery.toLowerCase();
-    return history.filter(doc => doc.data.dealerName.value.toLowerCase().includes(q) || doc.data.modelName.value.toLowerCase().includes(q) || doc.data.documentType.value.toLowerCase().includes(q));
-  }, [history, searchQuery]);
+    return byStatus.filter(doc => doc.data.dealerName.value.toLowerCase().includes(q) || doc.dealerMatch?.canonicalName?.toLowerCase().includes(q) || doc.data.modelName.value.toLowerCase().includes(q) || doc.data.documentType.value.toLowerCase().includes(q));
+  }, [history, searchQuery, validationFilter, reviewFilter]);
+
+  const toggleDocSelection = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setSelectedDocIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
 
-  const loadFromHistory = (doc: StoredDocument) => {
-    setSelectedFile(doc.image);
+  // Images are written first so a record never lands in the archive without its pages.
+  // Approved documents already in the archive are kept rather than overwritten.
+  const handleArchiveImport = async (result: ImportResult) => {
+    const denial = maintenanceDenial(activeOperator);
+    if (denial) {
+      setProcessError(categorizeError(new PermissionDeniedError(denial)));
+      return;
+    }
+    const locked = new Set(history.filter(d => editDenial(activeOperator, d)).map(d => d.id));
+    const documents = result.documents.filter(d => !locked.has(d.record.id));
+    for (const { record, pages, originals } of documents) await saveDocumentImages(record.id, pages, originals);
+    const incomingIds = new Set(documents.map(d => d.record.id));
+    setHistory(prev => [...documents.map(d => d.record), ...prev.filter(d => !incomingIds.has(d.id))].sort((a, b) => b.timestamp.localeCompare(a.timestamp)));
+  };
+
+  const downloadArchiveBackup = async () => {
+    const bundle = await createArchiveBundle(history, loadDocumentImages, loadOriginalImages);
+    downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), `docuextract-backup-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const openDocument = async (doc: StoredDocument): Promise<boolean> => {
+    try {
+      selectDocument(await loadDocumentImages(doc.id));
+    } catch (err: any) {
+      setProcessError(categorizeError(err));
+      return false;
+    }
+    setCurrentDocId(doc.id);
     setExtractedData(doc.data);
     setMetrics(doc.metrics);
-    setCurrentDocRelations(doc.relations || []);
     setProcessError(null);
-    setActiveTab(AppTab.PROCESSOR);
+    return true;
+  };
+
+  const loadFromHistory = async (doc: StoredDocument) => {
+    if (await openDocument(doc)) setActiveTab(AppTab.PROCESSOR);
+  };
+
+  const reviewQueue = useMemo(() => pendingReviews(history), [history]);
+  const isOpeningReviewRef = useRef(false);
+
+  const openReviewDocument = (doc: StoredDocument) => {
+    isOpeningReviewRef.current = true;
+    openDocument(doc).finally(() => { isOpeningReviewRef.current = false; });
+  };
+
+  // Keeps the Review tab on a pending document: the first in the queue when the tab
+  // opens, or when the one shown is decided elsewhere.
+  useEffect(() => {
+    if (activeTab !== AppTab.REVIEW || !reviewQueue.length || isOpeningReviewRef.current) return;
+    if (currentDoc?.review?.status !== 'pending') openReviewDocument(reviewQueue[0]);
+  }, [activeTab, reviewQueue, currentDoc]);
+
+  const confirmReviewField = (key: string) => {
+    setHistory(prev => prev.map(d => d.id === currentDocId && d.review ? { ...d, review: resolveReviewField(d.review, key) } : d));
+  };
+
+  // Corrections go through the normal correction path; confirming as well covers a value
+  // re-entered unchanged. A refused correction leaves the field open.
+  const correctReviewField = (key: string, value: any) => {
+    if (handleManualCorrection(key, value)) confirmReviewField(key);
+  };
+
+  const navigateReview = (offset: number) => {
+    if (!reviewQueue.length) return;
+    const index = reviewQueue.findIndex(d => d.id === currentDocId);
+    openReviewDocument(reviewQueue[(index + offset + reviewQueue.length) % reviewQueue.length]);
+  };
+
+  const decideCurrentReview = (status: 'approved' | 'rejected', note: string) => {
+    if (!currentDoc?.review) return;
+    const denial = decisionDenial(activeOperator, currentDoc);
+    if (denial) {
+      setProcessError(categorizeError(new PermissionDeniedError(denial)));
+      return;
+    }
+    const remaining = reviewQueue.filter(d => d.id !== currentDoc.id);
+    const index = reviewQueue.findIndex(d => d.id === currentDoc.id);
+    updateCurrentDoc({
+      review: decideReview(currentDoc.review, status, activeOperator.name, note),
+      approvals: [...(currentDoc.approvals || []), { status, userId: activeOperator.id, user: activeOperator.name, role: activeOperator.role, timestamp: new Date().toISOString(), note: note.trim() || undefined }],
+    });
+    if (remaining.length) openReviewDocument(remaining[Math.min(index, remaining.length - 1)]);
+  };
+
+  // For documents archived before the review queue existed.
+  const queueUnreviewed = () => {
+    updateArchive(d => d.review ? d : { ...d, review: initialReview(d, findTemplate(templates, d.template), reviewThresholds) });
   };
 
   const deleteFromHistory = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setHistory(prev => prev.filter(d => d.id !== id));
+    if (!guardEdit(history.find(d => d.id === id))) return;
+    setHistory(prev => removeRelationsTo(prev.filter(d => d.id !== id), new Set([id])));
   };
 
-  const startCamera = async () => {
+  const startCamera = () => setIsCameraActive(true);
+
+  const stopCamera = () => setIsCameraActive(false);
+
+  // A single shot gets the adjustable preview; a multi-page session is cleaned up
+  // automatically and extracted as one document.
+  const submitCapturedPages = async (pages: string[]) => {
+    setIsCameraActive(false);
+    setProcessError(null);
+    if (pages.length === 1) {
+      selectDocument([]);
+      setPendingFromCamera(true);
+      setPendingImage(pages[0]);
+      return;
+    }
+    setIsProcessing(true);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
-      if (videoRef.current) { videoRef.current.srcObject = stream; setIsCameraActive(true); }
-    } catch (err) {
-      setProcessError({ type: 'service', title: 'Camera Error', message: 'Could not access camera.', suggestion: 'Check permissions.' });
+      const results: PreprocessResult[] = [];
+      for (const page of pages) results.push(await preprocessImage(page));
+      const images = results.map(r => r.image);
+      selectDocument(images);
+      processDocument(images, { preprocessed: { originals: pages, summary: combineSummaries(results.map(r => r.summary)) }, isPhoto: true });
+    } catch (err: any) {
+      setIsProcessing(false);
+      setProcessError(categorizeError(err));
     }
   };
 
-  const stopCamera = () => {
-    if (videoRef.current && videoRef.current.srcObject) {
-      (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
-      videoRef.current.srcObject = null;
-    }
+  const handleCameraError = (message: string) => {
     setIsCameraActive(false);
+    setProcessError({ type: 'service', title: 'Camera Error', message, suggestion: 'Check permissions.' });
   };
 
-  const capturePhoto = () => {
-    if (videoRef.current && canvasRef.current) {
-      const canvas = canvasRef.current;
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      canvas.getContext('2d')?.drawImage(videoRef.current, 0, 0);
-      const base64 = canvas.toDataURL('image/jpeg');
-      setSelectedFile(base64);
-      stopCamera();
-      processImage(base64);
+  // Photos go through the preprocessing preview first; PDF pages are rendered clean already.
+  const handleFileUpload = async (file: File) => {
+    setProcessError(null);
+    try {
+      if (!isPdfFile(file)) {
+        selectDocument([]);
+        setPendingFromCamera(false);
+        setPendingImage(await readFileAsDataUrl(file));
+        return;
+      }
+      const pages = await loadDocumentPages(file);
+      selectDocument(pages);
+      processDocument(pages);
+    } catch (err: any) {
+      setProcessError({ type: 'format', title: 'Unreadable File', message: err.message || 'Could not read this file.', suggestion: 'Upload an image or an unencrypted PDF.' });
     }
   };
 
+  const acceptPreprocessed = (result: PreprocessResult) => {
+    if (!pendingImage) return;
+    selectDocument([result.image]);
+    processDocument([result.image], { preprocessed: { originals: [pendingImage], summary: result.summary }, isPhoto: pendingFromCamera });
+    setPendingImage(null);
+  };
+
+  const extractUnprocessedImage = () => {
+    if (!pendingImage) return;
+    selectDocument([pendingImage]);
+    processDocument([pendingImage], { isPhoto: pendingFromCamera });
+    setPendingImage(null);
+  };
+
+  // Batch uploads skip the preview and take the automatic crop and enhancement.
+  const extractFile = async (file: File, signal: AbortSignal): Promise<StoredDocument> => {
+    if (isPdfFile(file)) return extractDocument(await loadDocumentPages(file), {}, signal);
+    const original = await readFileAsDataUrl(file);
+    const { image, summary } = await preprocessImage(original);
+    return extractDocument([image], { preprocessed: { originals: [original], summary } }, signal);
+  };
+
+  const toggleOriginalPages = async () => {
+    if (originalPages || !currentDoc) {
+      setOriginalPages(null);
+      return;
+    }
+    try {
+      setOriginalPages(await loadOriginalImages(currentDoc.id));
+    } catch (err: any) {
+      setProcessError(categorizeError(err));
+    }
+  };
+
+  // Links already present from either end are skipped rather than stored twice.
+  const linkFields = (target: StoredDocument, links: SuggestedLink[]) => {
+    if (!currentDocId || !guardEdit(currentDoc)) return;
+    const relations: DocumentRelation[] = links
+      .filter(link => !hasRelation(history, currentDocId, link.sourceField, target.id, link.targetField))
+      .map(link => ({
+        id: crypto.randomUUID(),
+        sourceField: link.sourceField,
+        targetDocId: target.id,
+        targetField: link.targetField,
+        createdAt: new Date().toISOString(),
+      }));
+    if (!relations.length) return;
+    const detail = `Linked ${relations.map(r => `${r.sourceField} → ${r.targetField}`).join(', ')} on ${documentLabel(target)}`;
+    editDocument(currentDocId, d => ({ relations: [...(d.relations || []), ...relations] }), 'link', detail);
+  };
+
   const addRelation = (targetField: string) => {
     if (!linkingSourceField || !linkTargetDoc || !extractedData) return;
-    const relation: DocumentRelation = {
-      id: crypto.randomUUID(),
-      sourceField: linkingSourceField,
-      targetDocId: linkTargetDoc.id,
-      targetField: targetField,
-      targetValue: (linkTargetDoc.data as any)[targetField].value,
-      targetDocName: linkTargetDoc.data.dealerName.value || 'Untitled Document'
-    };
-    const newRelations = [...currentDocRelations, relation];
-    setCurrentDocRelations(newRelations);
-    const updatedHistory = history.map(d => d.image === selectedFile ? { ...d, relations: newRelations } : d);
-    setHistory(updatedHistory);
+    linkFields(linkTargetDoc, [{ sourceField: linkingSourceField, targetField }]);
     setIsLinkerOpen(false);
     setLinkTargetDoc(null);
     setLinkingSourceField(null);
   };
 
-  const removeRelation = (relId: string) => {
-    const newRelations = currentDocRelations.filter(r => r.id !== relId);
-    setCurrentDocRelations(newRelations);
-    const updatedHistory = history.map(d => d.image === selectedFile ? { ...d, relations: newRelations } : d);
-    setHistory(updatedHistory);
+  const relationSuggestions = useMemo(() => currentDoc ? suggestCounterparts(currentDoc, history) : [], [currentDoc, history]);
+
+  const acceptRelationSuggestion = (suggestion: RelationSuggestion) => {
+    const target = history.find(d => d.id === suggestion.docId);
+    if (target) linkFields(target, suggestion.links);
+  };
+
+  const dismissRelationSuggestion = (docId: string) => {
+    if (!currentDoc || !guardEdit(currentDoc)) return;
+    const dismissed = history.find(d => d.id === docId);
+    editDocument(currentDoc.id, d => ({ dismissedSuggestions: [...(d.dismissedSuggestions || []), docId] }), 'dismiss-suggestion', `Dismissed suggested link to ${dismissed ? documentLabel(dismissed) : 'a document'}`, false);
+  };
+
+  // Incoming links live on the other document, so the owner record is the one edited.
+  const removeRelation = (rel: ResolvedRelation) => {
+    if (!guardEdit(history.find(d => d.id === rel.ownerId))) return;
+    const detail = `Unlinked ${rel.relation.sourceField} → ${rel.relation.targetField}`;
+    editDocument(rel.ownerId, d => ({ relations: (d.relations || []).filter(r => r.id !== rel.relation.id) }), 'unlink', detail);
+  };
+
+  // Links to deleted documents are harmless on a locked record, so those are left as they are.
+  const repairRelations = () => {
+    const denial = maintenanceDenial(activeOperator);
+    if (denial) {
+      setProcessError(categorizeError(new PermissionDeniedError(denial)));
+      return;
+    }
+    setHistory(prev => {
+      const repaired = removeDanglingRelations(prev);
+      return prev.map((d, i) => editDenial(activeOperator, d) ? d : repaired[i]);
+    });
   };
 
   const renderProcessor = () => (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-start animate-in fade-in duration-500">
       <div className="lg:col-span-7 space-y-6">
-        <div className={`relative h-[600px] rounded-[2rem] border-2 border-dashed overflow-hidden transition-all duration-300 group ${selectedFile || isCameraActive ? 'border-indigo-400 bg-white dark:bg-slate-900 shadow-2xl' : 'border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50 hover:border-indigo-400 dark:hover:border-indigo-500 hover:bg-white dark:hover:bg-slate-900'}`}>
+        <div className={`relative h-[600px] rounded-[2rem] border-2 border-dashed overflow-hidden transition-all duration-300 group ${selectedFile || pendingImage || isCameraActive ? 'border-indigo-400 bg-white dark:bg-slate-900 shadow-2xl' : 'border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50 hover:border-indigo-400 dark:hover:border-indigo-500 hover:bg-white dark:hover:bg-slate-900'}`}>
           {isCameraActive ? (
-            <div className="absolute inset-0 z-30 bg-black flex flex-col items-center justify-center">
-              <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
-              <canvas ref={canvasRef} className="hidden" />
-              <div className="absolute bottom-10 flex flex-col items-center gap-4">
-                <div className="flex gap-4">
-                  <button onClick={stopCamera} className="px-6 py-3 bg-white/20 backdrop-blur-md text-white rounded-full font-bold hover:bg-white/30 transition-all">Cancel [Esc]</button>
-                  <button onClick={capturePhoto} className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-2xl active:scale-90 transition-transform"><div className="w-12 h-12 border-4 border-slate-900 rounded-full" /></button>
-                </div>
-              </div>
-            </div>
+            <CameraCapture onSubmit={submitCapturedPages} onClose={stopCamera} onError={handleCameraError} />
           ) : (
             <>
-              <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={(e) => {
+              <input type="file" ref={fileInputRef} className="hidden" accept="image/*,application/pdf" onChange={(e) => {
                 const file = e.target.files?.[0];
-                if (file) {
-                  const reader = new FileReader();
-                  reader.onload = (re) => { const b64 = re.target?.result as string; setSelectedFile(b64); processImage(b64); };
-                  reader.readAsDataURL(file);
-                }
+                if (file) handleFileUpload(file);
+                e.target.value = '';
               }} />
-              {selectedFile ? (
+              {pendingImage ? (
+                <PreprocessPreview original={pendingImage} onAccept={acceptPreprocessed} onUseOriginal={extractUnprocessedImage} onCancel={() => setPendingImage(null)} />
+              ) : selectedFile ? (
                 <div className="relative w-full h-full flex items-center justify-center p-6">
-                  <img src={selectedFile} className="max-w-full max-h-full object-contain rounded-xl" alt="Preview" />
-                  {extractedData && (
-                    <svg viewBox="0 0 1000 1000" className="absolute inset-0 w-full h-full pointer-events-none p-6" preserveAspectRatio="xMidYMid meet">
-                      {extractedData.dealerSignature.value && extractedData.dealerSignature.boundingBox && renderBoundingBox(extractedData.dealerSignature.boundingBox, "#6366f1", "SIGNATURE")}
-                      {extractedData.dealerStamp.value && extractedData.dealerStamp.boundingBox && renderBoundingBox(extractedData.dealerStamp.boundingBox, "#8b5cf6", "STAMP")}
-                    </svg>
+                  {originalPages?.length ? (
+                    <DocumentViewer image={originalPages[activePage] || originalPages[0]} regions={[]} focusedKey={null} onRegionClick={focusFieldCard} />
+                  ) : (
+                    <DocumentViewer image={selectedPages[activePage] || selectedFile} regions={fieldRegions.filter(r => (r.box.page || 0) === activePage)} focusedKey={focusedField} onRegionClick={focusFieldCard} />
+                  )}
+                  {currentDoc?.preprocessing && (
+                    <button onClick={toggleOriginalPages} title={currentDoc.preprocessing.steps.join('\n')} className="absolute bottom-6 left-6 px-3 py-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur-md rounded-xl shadow-lg border border-slate-200/50 dark:border-slate-700/50 text-[10px] font-black uppercase tracking-wider text-slate-600 dark:text-slate-300">
+                      {originalPages ? 'Show Processed' : 'Show Original'}
+                    </button>
+                  )}
+                  {selectedPages.length > 1 && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2 p-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur-md rounded-2xl shadow-lg border border-slate-200/50 dark:border-slate-700/50 max-w-[90%] overflow-x-auto">
+                      {selectedPages.map((page, idx) => (
+                        <button key={idx} onClick={() => setActivePage(idx)} className={`relative w-12 h-16 shrink-0 rounded-lg overflow-hidden border-2 transition-all ${idx === activePage ? 'border-indigo-500 scale-105' : 'border-transparent opacity-60 hover:opacity-100'}`}>
+                          <img src={page} className="w-full h-full object-cover" alt={`Page ${idx + 1}`} />
+                          <span className="absolute bottom-0 inset-x-0 bg-slate-900/70 text-white text-[8px] font-black text-center">{idx + 1}</span>
+                        </button>
+                      ))}
+                    </div>
                   )}
                   <div className="absolute top-6 right-6 flex flex-col gap-2">
-                    <button onClick={() => processImage(selectedFile)} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-md p-3 rounded-2xl shadow-lg text-indigo-600 hover:text-indigo-700 transition-all border border-slate-200/50 dark:border-slate-700/50 group">
+                    <button onClick={() => processDocument(selectedPages)} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-md p-3 rounded-2xl shadow-lg text-indigo-600 hover:text-indigo-700 transition-all border border-slate-200/50 dark:border-slate-700/50 group">
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
                       <span className="absolute right-full mr-2 top-1/2 -translate-y-1/2 bg-slate-900 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">Reprocess [Alt+P]</span>
                     </button>
-                    <button onClick={() => setSelectedFile(null)} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-md p-3 rounded-2xl shadow-lg text-rose-500 hover:text-rose-600 transition-all border border-slate-200/50 dark:border-slate-700/50 group">
+                    <button onClick={() => selectDocument([])} className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-md p-3 rounded-2xl shadow-lg text-rose-500 hover:text-rose-600 transition-all border border-slate-200/50 dark:border-slate-700/50 group">
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                       <span className="absolute right-full mr-2 top-1/2 -translate-y-1/2 bg-slate-900 text-white text-[10px] px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap">Discard [Esc]</span>
                     </button>
@@ -302,66 +829,114 @@ const App: React.FC = () => {
             <div className="absolute inset-0 bg-slate-900/10 dark:bg-slate-950/40 backdrop-blur-md flex flex-col items-center justify-center z-20 scan-effect">
               <div className="w-16 h-16 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin shadow-lg" />
               <p className="mt-6 font-bold text-indigo-600 dark:text-indigo-400 text-lg code-font tracking-widest bg-white/90 dark:bg-slate-800/90 px-6 py-2 rounded-full shadow-xl">ANALYZING...</p>
+              <button onClick={() => extractionAbortRef.current?.abort()} className="mt-4 px-5 py-2 bg-white/90 dark:bg-slate-800/90 text-slate-500 hover:text-rose-600 rounded-full text-[10px] font-black uppercase tracking-widest shadow">Cancel [Esc]</button>
             </div>
           )}
         </div>
         {metrics && (
           <div className="grid grid-cols-3 gap-6">
             <MetricCard label="Latency" value={`${metrics.latencyMs}ms`} color="text-indigo-600" />
-            <MetricCard label="Cloud Cost" value={`$${metrics.costEstimateUsd}`} color="text-emerald-600" />
+            <MetricCard label="Cloud Cost" value={formatUsd(metrics.costEstimateUsd)} color="text-emerald-600" />
             <MetricCard label="Accuracy" value={`${metrics.documentAccuracy.toFixed(1)}%`} color="text-violet-600" />
           </div>
         )}
       </div>
 
       <div className="lg:col-span-5 space-y-6">
+        {currentDoc?.duplicateCheck && currentDoc.duplicateCheck.candidates.length > 0 && !currentDoc.duplicateCheck.decision && (
+          <DuplicateReview key={currentDoc.id} doc={currentDoc} check={currentDoc.duplicateCheck} image={selectedFile} archive={history} onDecide={decideDuplicate} />
+        )}
         {extractedData ? (
           <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-in slide-in-from-right-4">
             <div className="p-8 bg-slate-50/50 dark:bg-slate-800/30 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
               <div>
                 <h3 className="font-bold text-slate-800 dark:text-slate-100 text-lg tracking-tight">Classification Engine</h3>
-                <p className="text-xs text-slate-500 dark:text-slate-400 font-medium tracking-wide">MULTIMODAL_RECOGNITION_v3</p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 font-medium tracking-wide">MULTIMODAL_RECOGNITION_v3 · {currentTemplate.name.toUpperCase()} v{currentTemplate.version}</p>
               </div>
               <div className="flex items-center gap-2">
+                {currentDoc?.review?.status === 'pending' && (
+                  <button onClick={() => setActiveTab(AppTab.REVIEW)} title={currentDoc.review.reasons.join('\n')} className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400">Pending Review</button>
+                )}
+                {currentDoc?.review?.status === 'approved' && !currentDoc.review.automatic && (
+                  <span className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider bg-emerald-600 text-white" title={`Approved by ${currentDoc.review.decidedBy}; further changes are locked`}>Approved · Locked</span>
+                )}
+                {currentDoc?.review?.status === 'rejected' && (
+                  <span className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider bg-rose-600 text-white" title={currentDoc.review.note}>Rejected</span>
+                )}
+                {currentDoc?.duplicateCheck?.decision === 'confirmed' && (
+                  <span className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider bg-rose-600 text-white">Duplicate</span>
+                )}
+                {currentDoc && (
+                  <button onClick={toggleGroundTruth} title="Use the current values as labeled ground truth for evaluation" className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider border transition-all ${currentDoc.groundTruth ? 'bg-emerald-500 border-emerald-500 text-white' : 'border-slate-200 dark:border-slate-700 text-slate-400 hover:text-emerald-600 hover:border-emerald-400'}`}>
+                    {currentDoc.groundTruth ? 'Ground Truth' : 'Mark as Truth'}
+                  </button>
+                )}
+                {currentDocRelations.length > 0 && (
+                  <button onClick={() => setGraphRootId(currentDoc!.id)} title="Browse linked documents" className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-wider bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400">
+                    {currentDocRelations.length} Links
+                  </button>
+                )}
                 <span className={`px-3 py-1 rounded-lg text-xs font-black uppercase tracking-wider ${extractedData.documentType.value === 'Invoice' ? 'bg-indigo-600 text-white' : 'bg-amber-50 text-white'}`}>{extractedData.documentType.value}</span>
               </div>
             </div>
             <div className="p-8 space-y-6">
               <div className="grid grid-cols-2 gap-4">
-                {Object.keys(extractedData).filter(k => typeof (extractedData as any)[k] === 'object' && 'value' in (extractedData as any)[k] && k !== 'documentType').map(key => (
-                  <div key={key} className="relative group">
+                {currentTemplate.fields.filter(f => f.key !== 'documentType' && extractedData[f.key]).map(({ key, label, type, unit, builtIn }) => (
+                  <div key={key} id={`field-${key}`} className="relative group">
                     <FieldCard 
-                      label={key.replace(/([A-Z])/g, ' $1').trim()} 
-                      value={(extractedData as any)[key].value} 
-                      confidence={(extractedData as any)[key].confidence} 
-                      unit={key === 'horsePower' ? 'HP' : key === 'assetCost' ? '₹' : undefined}
-                      isCurrency={key === 'assetCost'}
-                      onSave={(v) => handleManualCorrection(key as keyof InvoiceData, key === 'assetCost' || key === 'horsePower' ? parseFloat(v) : v)} 
-                      isLinked={currentDocRelations.some(r => r.sourceField === key)}
+                      label={label} 
+                      color={fieldColors.get(key)}
+                      isFocused={focusedField === key}
+                      onFocus={fieldRegions.some(r => r.key === key) ? () => focusField(key) : undefined}
+                      value={extractedData[key].value} 
+                      confidence={extractedData[key].confidence} 
+                      notFound={extractedData[key].notFound && !extractedData[key].isEdited}
+                      unit={unit}
+                      isCurrency={type === 'currency'}
+                      onSave={(v) => handleManualCorrection(key, parseFieldInput({ type, builtIn }, v))} 
+                      isLinked={currentDocRelations.some(r => r.localField === key)}
+                      warning={currentDoc?.modelValidation?.fieldIssues[key as keyof ModelValidation['fieldIssues']]}
                     />
                     <button 
                       onClick={() => { setLinkingSourceField(key); setIsLinkerOpen(true); }}
-                      className={`absolute -top-2 -right-2 w-8 h-8 rounded-full flex items-center justify-center shadow-md transition-all z-10 ${currentDocRelations.some(r => r.sourceField === key) ? 'bg-indigo-600 text-white opacity-100 scale-110' : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-indigo-500 opacity-0 group-hover:opacity-100 hover:bg-indigo-50 dark:hover:bg-indigo-900/50'}`}
+                      className={`absolute -top-2 -right-2 w-8 h-8 rounded-full flex items-center justify-center shadow-md transition-all z-10 ${currentDocRelations.some(r => r.localField === key) ? 'bg-indigo-600 text-white opacity-100 scale-110' : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-indigo-500 opacity-0 group-hover:opacity-100 hover:bg-indigo-50 dark:hover:bg-indigo-900/50'}`}
                       title="Link to another document"
                     >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" /></svg>
                     </button>
-                    {currentDocRelations.filter(r => r.sourceField === key).map(rel => (
-                      <div key={rel.id} className="mt-2 bg-indigo-50 dark:bg-indigo-900/20 px-3 py-1.5 rounded-xl border border-indigo-100 dark:border-indigo-800 flex items-center justify-between animate-in zoom-in-95 duration-200">
-                        <div className="flex flex-col">
-                           <span className="text-[8px] font-black text-indigo-400 uppercase leading-none mb-0.5">Linked to {rel.targetField}</span>
-                           <span className="text-[10px] font-bold text-slate-600 dark:text-slate-300 truncate max-w-[120px]">{rel.targetValue}</span>
-                        </div>
-                        <button onClick={() => removeRelation(rel.id)} className="text-slate-400 hover:text-rose-500"><svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+                    {currentDocRelations.filter(r => r.localField === key).map(rel => (
+                      <div key={rel.relation.id} className={`mt-2 px-3 py-1.5 rounded-xl border flex items-center justify-between animate-in zoom-in-95 duration-200 ${!rel.otherDoc ? 'bg-rose-50 dark:bg-rose-900/20 border-rose-200 dark:border-rose-800' : rel.valuesDiffer ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800' : 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-100 dark:border-indigo-800'}`}>
+                        <button onClick={() => rel.otherDoc && setGraphRootId(currentDoc!.id)} className="flex flex-col text-left min-w-0">
+                           <span className="text-[8px] font-black text-indigo-400 uppercase leading-none mb-0.5">{rel.direction === 'outgoing' ? 'Linked to' : 'Linked from'} {rel.otherField}</span>
+                           {rel.otherDoc ? (
+                             <span className="text-[10px] font-bold text-slate-600 dark:text-slate-300 truncate max-w-[120px]" title={rel.otherDoc.data.dealerName.value}>{String(rel.otherValue ?? '—')}</span>
+                           ) : (
+                             <span className="text-[10px] font-bold text-rose-600">Document deleted</span>
+                           )}
+                        </button>
+                        <button onClick={() => removeRelation(rel)} className="text-slate-400 hover:text-rose-500"><svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
                       </div>
                     ))}
+                    {key === 'modelName' && currentDoc?.modelValidation?.normalizedName && (
+                      <div className="mt-2 px-3 py-1.5 rounded-xl border bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-800 flex justify-between gap-2 text-[10px]">
+                        <span className="font-bold text-emerald-700 dark:text-emerald-300 truncate">{currentDoc.modelValidation.normalizedName}</span>
+                        <span className="font-black text-emerald-600 shrink-0">{(currentDoc.modelValidation.score * 100).toFixed(0)}%</span>
+                      </div>
+                    )}
+                    {key === 'dealerName' && currentDoc?.dealerMatch && (
+                      <DealerMatchBadge match={currentDoc.dealerMatch} onSelect={selectDealerForCurrentDoc} />
+                    )}
                   </div>
                 ))}
               </div>
               <div className="space-y-3">
-                <VisualMarker label="Dealer Signature" present={extractedData.dealerSignature.value} confidence={extractedData.dealerSignature.confidence} />
-                <VisualMarker label="Dealer Stamp" present={extractedData.dealerStamp.value} confidence={extractedData.dealerStamp.confidence} color="bg-violet-500" />
+                {currentTemplate.fields.filter(f => f.type === 'boolean' && f.locate && extractedData[f.key]).map((field, i) => (
+                  <div key={field.key} id={`field-${field.key}`}>
+                    <VisualMarker label={field.label} present={!!extractedData[field.key].value} confidence={extractedData[field.key].confidence} color={i % 2 ? 'bg-violet-500' : undefined} regionColor={fieldColors.get(field.key)} isFocused={focusedField === field.key} onFocus={fieldRegions.some(r => r.key === field.key) ? () => focusField(field.key) : undefined} />
+                  </div>
+                ))}
               </div>
+              {currentDoc?.validation && <ValidationReportPanel report={currentDoc.validation} />}
             </div>
           </div>
         ) : !isProcessing && (
@@ -370,6 +945,12 @@ const App: React.FC = () => {
             <p className="font-medium italic">Structural data will appear here.</p>
           </div>
         )}
+        {currentDoc && (
+          <RelationSuggestions doc={currentDoc} suggestions={relationSuggestions} archive={history} onAccept={acceptRelationSuggestion} onDismiss={dismissRelationSuggestion} />
+        )}
+        {currentDoc && extractedData && (
+          <AuditTrail data={extractedData} approvals={currentDoc.approvals || []} edits={currentDoc.edits || []} template={currentTemplate} onUndo={undoCorrection} onRedo={redoCorrection} onRevert={revertCorrection} />
+        )}
       </div>
 
       {/* RELATIONSHIP MANAGER MODAL */}
@@ -390,7 +971,7 @@ const App: React.FC = () => {
               <div className="w-full md:w-1/2 border-r border-slate-100 dark:border-slate-800 p-8 overflow-y-auto bg-slate-50/50 dark:bg-slate-950/20">
                  <div className="mb-6"><span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Step 1: Select Target Document</span></div>
                  <div className="space-y-4">
-                   {history.filter(h => h.image !== selectedFile).map(doc => (
+                   {history.filter(h => h.id !== currentDocId).map(doc => (
                      <div 
                         key={doc.id} 
                         onClick={() => setLinkTargetDoc(doc)}
@@ -500,6 +1081,7 @@ const App: React.FC = () => {
               <div className="h-64 flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-800/20 rounded-[2.5rem] border border-slate-100 dark:border-slate-800">
                 <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin" />
                 <p className="mt-4 font-black uppercase tracking-widest text-indigo-400 text-xs animate-pulse">Painting your pixels...</p>
+                <button onClick={() => generationAbortRef.current?.abort()} className="mt-4 text-slate-400 hover:text-rose-500 font-bold text-xs uppercase tracking-widest transition-colors">Cancel</button>
               </div>
             ) : (
               <div className="h-64 flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-800/20 rounded-[2.5rem] border border-dashed border-slate-200 dark:border-slate-800 text-slate-400 opacity-60">
@@ -519,23 +1101,72 @@ const App: React.FC = () => {
         <div>
           <h2 className="text-3xl font-black text-slate-900 dark:text-slate-100 tracking-tight">Record Archive</h2>
           <p className="text-slate-500 dark:text-slate-400 font-medium">Search and manage previously processed documents.</p>
+          {storageEstimate && storageEstimate.quota > 0 && (
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{(storageEstimate.usage / 1048576).toFixed(1)} MB of {(storageEstimate.quota / 1048576).toFixed(0)} MB browser storage used</p>
+          )}
+          {danglingRelations.length > 0 && (
+            <p className="text-[10px] font-bold text-rose-500 uppercase tracking-widest mt-1">
+              {danglingRelations.length} link{danglingRelations.length > 1 ? 's' : ''} point to deleted documents · <button onClick={repairRelations} className="underline">Remove</button>
+            </p>
+          )}
         </div>
-        <div className="relative w-full md:w-96 group">
-          <input 
-            type="text" 
-            placeholder="Search archive..." 
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl pl-12 pr-10 py-4 text-sm focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm transition-all"
-          />
-          <svg className="w-5 h-5 absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+        <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto">
+          <select value={validationFilter} onChange={(e) => setValidationFilter(e.target.value as ValidationStatus | 'all')} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl px-4 py-4 text-sm font-bold text-slate-600 dark:text-slate-300 outline-none shadow-sm">
+            <option value="all">All validation states</option>
+            <option value="passed">Passed</option>
+            <option value="warnings">Warnings</option>
+            <option value="errors">Errors</option>
+            <option value="unchecked">Not validated</option>
+          </select>
+          <select value={reviewFilter} onChange={(e) => setReviewFilter(e.target.value as ReviewStatus | 'all')} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl px-4 py-4 text-sm font-bold text-slate-600 dark:text-slate-300 outline-none shadow-sm">
+            <option value="all">All review states</option>
+            <option value="pending">Pending review</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+          <div className="relative w-full md:w-96 group">
+            <input 
+              type="text" 
+              placeholder="Search archive..." 
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl pl-12 pr-10 py-4 text-sm focus:ring-2 focus:ring-indigo-500 outline-none shadow-sm transition-all"
+            />
+            <svg className="w-5 h-5 absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          </div>
+          <button onClick={() => setIsExportOpen(!isExportOpen)} className={`px-6 py-4 rounded-2xl text-sm font-bold shadow-sm border transition-all ${isExportOpen ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-800'}`}>
+            Export{selectedDocIds.size > 0 ? ` (${selectedDocIds.size})` : ''}
+          </button>
+          <button onClick={() => setIsImportOpen(!isImportOpen)} className={`px-6 py-4 rounded-2xl text-sm font-bold shadow-sm border transition-all ${isImportOpen ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-800'}`}>
+            Backup
+          </button>
         </div>
       </div>
+      {isImportOpen && (
+        <ArchiveImport
+          history={history}
+          loadPages={loadDocumentImages}
+          onImport={handleArchiveImport}
+          onDownloadBackup={downloadArchiveBackup}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+      {isExportOpen && (
+        <ExportPanel
+          filteredDocs={filteredHistory}
+          selectedDocs={history.filter(d => selectedDocIds.has(d.id))}
+          onClearSelection={() => setSelectedDocIds(new Set())}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
         {filteredHistory.map(doc => (
           <div key={doc.id} onClick={() => loadFromHistory(doc)} className="group bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 overflow-hidden shadow-sm hover:shadow-2xl hover:-translate-y-2 transition-all cursor-pointer relative">
             <div className="h-40 bg-slate-100 dark:bg-slate-800 relative overflow-hidden">
-              <img src={doc.image} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" alt="Doc" />
+              <DocumentThumbnail docId={doc.id} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+              <button onClick={(e) => toggleDocSelection(doc.id, e)} title="Select for export" className={`absolute top-4 left-4 w-8 h-8 rounded-lg flex items-center justify-center transition-all ${selectedDocIds.has(doc.id) ? 'bg-indigo-600 text-white' : 'bg-black/40 backdrop-blur-md text-white/70 opacity-0 group-hover:opacity-100'}`}>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+              </button>
               <div className="absolute top-4 right-4 flex gap-2">
                 <button onClick={(e) => deleteFromHistory(doc.id, e)} className="w-8 h-8 bg-black/40 backdrop-blur-md text-white rounded-lg flex items-center justify-center hover:bg-rose-600 transition-all opacity-0 group-hover:opacity-100"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg></button>
               </div>
@@ -545,11 +1176,21 @@ const App: React.FC = () => {
                 <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase border ${doc.data.documentType.value === 'Invoice' ? 'bg-indigo-50 text-indigo-600 border-indigo-100' : 'bg-amber-50 text-amber-600 border-amber-100'}`}>{doc.data.documentType.value}</span>
                 <span className="text-[10px] font-bold text-slate-400">{new Date(doc.timestamp).toLocaleDateString()}</span>
               </div>
-              <h4 className="font-bold text-slate-800 dark:text-slate-100 truncate mb-1">{doc.data.dealerName.value || 'Unnamed'}</h4>
+              <h4 className="font-bold text-slate-800 dark:text-slate-100 truncate mb-1">{doc.dealerMatch?.canonicalName || doc.data.dealerName.value || 'Unnamed'}</h4>
               <p className="text-xs text-slate-500 mb-4">{doc.data.modelName.value}</p>
               <div className="flex justify-between items-center pt-4 border-t border-slate-50 dark:border-slate-800">
                 <div className="flex flex-col"><span className="text-[9px] font-bold text-slate-400 uppercase leading-none">Asset Value</span><span className="text-sm font-black">₹{doc.data.assetCost.value.toLocaleString()}</span></div>
-                {doc.relations && doc.relations.length > 0 && <div className="px-2 py-1 bg-indigo-600 text-white rounded-md text-[8px] font-black uppercase tracking-widest">{doc.relations.length} Links</div>}
+                <div className="flex gap-1">
+                  {doc.review?.status === 'pending' && <div className="px-2 py-1 bg-amber-500 text-white rounded-md text-[8px] font-black uppercase tracking-widest" title={doc.review.reasons.join('\n')}>Pending Review</div>}
+                  {doc.review?.status === 'rejected' && <div className="px-2 py-1 bg-rose-600 text-white rounded-md text-[8px] font-black uppercase tracking-widest" title={doc.review.note}>Rejected</div>}
+                  {doc.review?.status === 'approved' && !doc.review.automatic && <div className="px-2 py-1 bg-emerald-600 text-white rounded-md text-[8px] font-black uppercase tracking-widest">Approved</div>}
+                  {doc.duplicateCheck?.decision === 'confirmed' && <div className="px-2 py-1 bg-rose-600 text-white rounded-md text-[8px] font-black uppercase tracking-widest">Duplicate</div>}
+                  {doc.duplicateCheck && doc.duplicateCheck.candidates.length > 0 && !doc.duplicateCheck.decision && <div className="px-2 py-1 bg-rose-400 text-white rounded-md text-[8px] font-black uppercase tracking-widest">Duplicate Review</div>}
+                  {doc.validation && doc.validation.errorCount > 0 && <div className="px-2 py-1 bg-rose-500 text-white rounded-md text-[8px] font-black uppercase tracking-widest">{doc.validation.errorCount} Rule{doc.validation.errorCount > 1 ? 's' : ''} Failed</div>}
+                  {doc.dealerMatch?.needsReview && <div className="px-2 py-1 bg-amber-500 text-white rounded-md text-[8px] font-black uppercase tracking-widest">Dealer Review</div>}
+                  {doc.modelValidation?.needsReview && <div className="px-2 py-1 bg-amber-500 text-white rounded-md text-[8px] font-black uppercase tracking-widest" title={Object.values(doc.modelValidation.fieldIssues).join('\n')}>Model Check</div>}
+                  {(degrees.get(doc.id) || 0) > 0 && <button onClick={(e) => { e.stopPropagation(); setGraphRootId(doc.id); }} className="px-2 py-1 bg-indigo-600 text-white rounded-md text-[8px] font-black uppercase tracking-widest">{degrees.get(doc.id)} Links</button>}
+                </div>
               </div>
             </div>
           </div>
@@ -558,28 +1199,115 @@ const App: React.FC = () => {
     </div>
   );
 
-  const handleManualCorrection = (field: keyof InvoiceData, newValue: any) => {
-    if (!extractedData) return;
+  // False when the change was refused; an unchanged value counts as applied.
+  const applyFieldChange = (field: string, newValue: any, kind: CorrectionKind): boolean => {
+    if (!extractedData || !guardEdit(currentDoc)) return false;
     const oldField = extractedData[field];
-    if (oldField.value === newValue) return;
-    const updatedData = { ...extractedData, [field]: { ...oldField, value: newValue, isEdited: true, confidence: 1.0, history: [...(oldField.history || []), { oldValue: oldField.value, newValue: newValue, timestamp: new Date().toISOString(), user: 'Operator' }] } };
+    if (oldField.value === newValue) return true;
+    const updatedData = { ...extractedData, [field]: applyCorrection(oldField, newValue, activeOperator, kind) };
     setExtractedData(updatedData);
-    const updatedHistory = history.map(d => d.image === selectedFile ? { ...d, data: updatedData } : d);
-    setHistory(updatedHistory);
+    setHistory(prev => prev.map(d => d.id === currentDocId ? {
+      ...d,
+      data: updatedData,
+      ...(field === 'dealerName' ? { dealerMatch: matchDealer(newValue, dealers) } : {}),
+      ...(field === 'modelName' || field === 'horsePower' || field === 'assetCost' ? { modelValidation: validateModel(updatedData, models) } : {}),
+      validation: validateDocument(updatedData, rulesFor(d)),
+      // Operator corrections on a labeled document refine its label too.
+      ...(d.groundTruth?.source === 'correction' ? { groundTruth: toGroundTruth(updatedData, 'correction') } : {}),
+      review: resolveReviewField(awaitApproval(d.review, activeOperator.name), field),
+    } : d));
+    return true;
   };
 
-  const renderBoundingBox = (box: BoundingBox, color: string, label: string) => {
-    const width = box.xmax - box.xmin;
-    const height = box.ymax - box.ymin;
+  const handleManualCorrection = (field: string, newValue: any) => applyFieldChange(field, newValue, 'edit');
+
+  const undoCorrection = () => {
+    const last = extractedData && undoRedoStacks(extractedData).undo.pop();
+    if (last) applyFieldChange(last.field, last.oldValue, 'undo');
+  };
+
+  const redoCorrection = () => {
+    const next = extractedData && undoRedoStacks(extractedData).redo.pop();
+    if (next) applyFieldChange(next.field, next.newValue, 'redo');
+  };
+
+  const revertCorrection = (field: string) => {
+    if (extractedData) applyFieldChange(field, originalValue(extractedData[field]), 'revert');
+  };
+
+  const renderReview = () => {
+    const doc = currentDoc?.review?.status === 'pending' ? currentDoc : null;
+    if (!doc) {
+      return (
+        <div className="animate-in fade-in duration-500 h-96 flex flex-col items-center justify-center bg-white dark:bg-slate-900 rounded-[2.5rem] border border-dashed border-slate-200 dark:border-slate-800 text-slate-400">
+          <p className="font-bold text-sm">{reviewQueue.length ? 'Loading next document…' : 'Nothing waiting for review.'}</p>
+          {!reviewQueue.length && <p className="text-xs mt-1">Documents below their confidence thresholds or failing rules will appear here.</p>}
+        </div>
+      );
+    }
     return (
-      <g key={label}>
-        <rect x={box.xmin} y={box.ymin} width={width} height={height} fill="none" stroke={color} strokeWidth="3" strokeDasharray="10,5" />
-        <rect x={box.xmin} y={box.ymin - 32} width={label.length * 14 + 10} height="32" fill={color} rx="4" />
-        <text x={box.xmin + 8} y={box.ymin - 10} fill="white" fontSize="16" fontWeight="bold" className="code-font">{label}</text>
-      </g>
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-start animate-in fade-in duration-500">
+        <div className="lg:col-span-7 relative h-[600px] rounded-[2rem] border-2 border-indigo-400 bg-white dark:bg-slate-900 shadow-2xl overflow-hidden">
+          {selectedFile && (
+            <DocumentViewer image={selectedPages[activePage] || selectedFile} regions={fieldRegions.filter(r => (r.box.page || 0) === activePage)} focusedKey={focusedField} onRegionClick={showField} />
+          )}
+          {selectedPages.length > 1 && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2 p-2 bg-white/80 dark:bg-slate-800/80 backdrop-blur-md rounded-2xl shadow-lg border border-slate-200/50 dark:border-slate-700/50">
+              {selectedPages.map((_, idx) => (
+                <button key={idx} onClick={() => setActivePage(idx)} className={`w-8 h-8 rounded-lg text-[10px] font-black ${idx === activePage ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{idx + 1}</button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="lg:col-span-5 space-y-6">
+          <ReviewPanel
+            doc={doc}
+            template={currentTemplate}
+            thresholds={reviewThresholds}
+            position={Math.max(0, reviewQueue.findIndex(d => d.id === doc.id))}
+            total={reviewQueue.length}
+            activeField={focusedField}
+            editDenial={editDenial(activeOperator, doc)}
+            decisionDenial={decisionDenial(activeOperator, doc)}
+            onActivateField={showField}
+            onConfirm={confirmReviewField}
+            onCorrect={correctReviewField}
+            onDecide={decideCurrentReview}
+            onNavigate={navigateReview}
+          />
+          {extractedData && (
+            <AuditTrail data={extractedData} approvals={doc.approvals || []} edits={doc.edits || []} template={currentTemplate} onUndo={undoCorrection} onRedo={redoCorrection} onRevert={revertCorrection} />
+          )}
+        </div>
+      </div>
     );
   };
 
+  const renderSettings = () => (
+    <div className="animate-in fade-in duration-500 space-y-8">
+      <div>
+        <h2 className="text-3xl font-black text-slate-900 dark:text-slate-100 tracking-tight">Settings</h2>
+        <p className="text-slate-500 dark:text-slate-400 font-medium">Configure how documents are checked and processed.</p>
+      </div>
+      <SchemaTemplates templates={templates} onChange={setTemplates} activeTemplateId={activeTemplateId} onActivate={setActiveTemplateId} />
+      <RuleSettings rules={rules} onChange={setRules} onRevalidateArchive={revalidateArchiveRules} />
+      <OperatorProfiles profiles={operatorProfiles} onChange={setOperatorProfiles} activeOperator={activeOperator} />
+      <ReviewSettings thresholds={reviewThresholds} onChange={setReviewThresholds} template={activeTemplate} unreviewedCount={history.filter(d => !d.review).length} onQueueUnreviewed={queueUnreviewed} />
+      <SpendSettings prices={modelPrices} onPricesChange={setModelPrices} budget={budget} onBudgetChange={setBudget} budgetStatus={budgetStatus} ledger={spendLedger} onClearLedger={clearSpendLedger} />
+    </div>
+  );
+
+  const renderRegistry = () => (
+    <div className="animate-in fade-in duration-500 space-y-8">
+      <div>
+        <h2 className="text-3xl font-black text-slate-900 dark:text-slate-100 tracking-tight">Master Data Registry</h2>
+        <p className="text-slate-500 dark:text-slate-400 font-medium">Reference data used to normalize and verify extracted fields.</p>
+      </div>
+      <DealerRegistry dealers={dealers} onChange={setDealers} onRematchArchive={rematchArchive} unmatchedCount={history.filter(d => d.dealerMatch?.needsReview).length} />
+      <ModelCatalog models={models} onChange={setModels} onRevalidateArchive={revalidateArchiveModels} flaggedCount={history.filter(d => d.modelValidation?.needsReview).length} />
+    </div>
+  );
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 dark:bg-slate-950 transition-colors duration-300">
       <header className="glass sticky top-0 z-50 border-b border-slate-200/60 dark:border-slate-800/60">
@@ -600,7 +1328,11 @@ const App: React.FC = () => {
                 { id: AppTab.GENERATOR, label: 'Generator', key: '2' },
                 { id: AppTab.HISTORY, label: 'History', key: '3' }, 
                 { id: AppTab.INSIGHTS, label: 'Analytics', key: '4' }, 
-                { id: AppTab.ARCHITECTURE, label: 'System', key: '5' } 
+                { id: AppTab.ARCHITECTURE, label: 'System', key: '5' },
+                { id: AppTab.BATCH, label: 'Batch', key: '6' },
+                { id: AppTab.REGISTRY, label: 'Registry', key: '7' },
+                { id: AppTab.SETTINGS, label: 'Settings', key: '8' },
+                { id: AppTab.REVIEW, label: reviewQueue.length ? `Review (${reviewQueue.length})` : 'Review', key: '9' }
               ].map(tab => (
                 <button key={tab.id} onClick={() => setActiveTab(tab.id as AppTab)} className={`px-5 py-2 rounded-xl text-xs font-bold transition-all flex flex-col items-center gap-0.5 ${activeTab === tab.id ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-md scale-[1.02]' : 'text-slate-500 hover:text-slate-700'}`}>
                   <span>{tab.label}</span>
@@ -608,6 +1340,17 @@ const App: React.FC = () => {
                 </button>
               ))}
             </nav>
+            {budgetStatus.state !== 'ok' && (
+              <button onClick={() => setActiveTab(AppTab.SETTINGS)} title="Spending budget" className={`h-10 px-3 rounded-xl text-[10px] font-black uppercase tracking-wider ${budgetStatus.state === 'exceeded' ? 'bg-rose-50 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400' : 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400'}`}>
+                {budgetStatus.state === 'exceeded' ? 'Budget Reached' : `${formatUsd(budgetStatus.spentUsd)} of ${formatUsd(budgetStatus.limitUsd!)}`}
+              </button>
+            )}
+            <select value={activeOperator.id} onChange={(e) => setActiveOperatorId(e.target.value)} title="Current operator" className="h-10 bg-slate-100 dark:bg-slate-800 border border-slate-200 rounded-xl px-3 text-[10px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 outline-none">
+              {operatorProfiles.map(p => <option key={p.id} value={p.id}>{p.name} · {ROLE_LABELS[p.role]}</option>)}
+            </select>
+            <select value={providerId} onChange={(e) => selectProvider(e.target.value as ProviderId)} title="Extraction provider" className="h-10 bg-slate-100 dark:bg-slate-800 border border-slate-200 rounded-xl px-3 text-[10px] font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300 outline-none">
+              {listExtractionProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
             <button onClick={() => setIsDarkMode(!isDarkMode)} className="w-10 h-10 bg-slate-100 dark:bg-slate-800 rounded-xl flex items-center justify-center border border-slate-200">{isDarkMode ? <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364-6.364l-.707.707M6.343 17.657l-.707.707M16.071 16.071l.707.707M7.929 7.929l.707.707M12 8a4 4 0 100 8 4 4 0 000-8z" /></svg> : <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" /></svg>}</button>
           </div>
         </div>
@@ -616,8 +1359,27 @@ const App: React.FC = () => {
         {activeTab === AppTab.PROCESSOR && renderProcessor()}
         {activeTab === AppTab.GENERATOR && renderGenerator()}
         {activeTab === AppTab.HISTORY && renderHistory()}
-        {activeTab === AppTab.INSIGHTS && <Insights />}
+        {activeTab === AppTab.INSIGHTS && (
+          <Insights
+            history={history}
+            isDarkMode={isDarkMode}
+            evaluationRuns={evaluationRuns}
+            groundTruthCount={history.filter(d => d.groundTruth).length}
+            isEvaluating={isEvaluating}
+            evaluationProgress={evaluationProgress}
+            onRunEvaluation={handleRunEvaluation}
+            onCancelEvaluation={() => evaluationAbortRef.current?.abort()}
+            onImportLabeledSet={handleImportLabeledSet}
+          />
+        )}
         {activeTab === AppTab.ARCHITECTURE && <ArchitectureDiagram />}
+        {activeTab === AppTab.REGISTRY && renderRegistry()}
+        {activeTab === AppTab.SETTINGS && renderSettings()}
+        {activeTab === AppTab.REVIEW && renderReview()}
+        {/* Kept mounted so a running batch survives tab switches */}
+        <div className={activeTab === AppTab.BATCH ? '' : 'hidden'}>
+          <BatchProcessor processFile={extractFile} onDocument={addToHistory} />
+        </div>
       </main>
 
       {/* GLOBAL ERROR NOTIFICATION */}
@@ -630,7 +1392,13 @@ const App: React.FC = () => {
              <div className="flex-1">
                <h3 className="font-black text-slate-900 dark:text-slate-100 uppercase tracking-tighter text-sm">{processError.title}</h3>
                <p className="text-xs text-slate-500 dark:text-slate-400 font-bold mb-2">{processError.message}</p>
-               <button onClick={() => setProcessError(null)} className="text-[10px] font-black uppercase text-indigo-600 dark:text-indigo-400 hover:underline">Dismiss</button>
+               {processError.type === 'quality' && blockedExtraction && <p className="text-[11px] text-slate-400 mb-2">{processError.suggestion}</p>}
+               <div className="flex gap-4">
+                 <button onClick={() => { setProcessError(null); setBlockedExtraction(null); }} className="text-[10px] font-black uppercase text-indigo-600 dark:text-indigo-400 hover:underline">Dismiss</button>
+                 {processError.type === 'quality' && blockedExtraction && (
+                   <button onClick={() => processDocument(blockedExtraction.pages, { ...blockedExtraction.options, overrideQuality: true })} className="text-[10px] font-black uppercase text-rose-600 hover:underline">Extract Anyway</button>
+                 )}
+               </div>
              </div>
           </div>
         </div>
@@ -642,7 +1410,10 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2 px-4 py-2 bg-slate-50 dark:bg-slate-800 rounded-full text-slate-600 border border-slate-100"><div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" /> OPERATIONAL</div>
         </div>
       </footer>
-      <ChatBot />
+      {graphRootId && history.some(d => d.id === graphRootId) && (
+        <RelationGraph rootId={graphRootId} archive={history} onOpen={(doc) => { setGraphRootId(null); loadFromHistory(doc); }} onClose={() => setGraphRootId(null)} />
+      )}
+      <ChatBot provider={provider} />
     </div>
   );
 };
@@ -654,13 +1425,14 @@ const MetricCard: React.FC<{ label: string; value: string; color: string }> = ({
   </div>
 );
 
-const FieldCard: React.FC<{ label: string; value: any; confidence: number; unit?: string; isCurrency?: boolean; onSave?: (val: string) => void; isLinked?: boolean; }> = ({ label, value, confidence, unit, isCurrency, onSave, isLinked }) => {
+const FieldCard: React.FC<{ label: string; value: any; confidence: number; unit?: string; isCurrency?: boolean; onSave?: (val: string) => void; isLinked?: boolean; warning?: string; color?: string; isFocused?: boolean; onFocus?: () => void; notFound?: boolean; }> = ({ label, value, confidence, unit, isCurrency, onSave, isLinked, warning, color, isFocused, onFocus, notFound }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [tempValue, setTempValue] = useState(value?.toString() || '');
   return (
-    <div className={`p-4 rounded-2xl border transition-all relative group ${isLinked ? 'bg-indigo-50/50 dark:bg-indigo-900/10 border-indigo-400 ring-2 ring-indigo-500/10 shadow-lg shadow-indigo-500/5' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-100 dark:border-slate-700/50'}`}>
+    <div onClick={isEditing ? undefined : onFocus} title={onFocus ? 'Show on document' : undefined} style={isFocused && color ? { boxShadow: `0 0 0 3px ${color}` } : undefined} className={`p-4 rounded-2xl border transition-all relative group ${onFocus ? 'cursor-pointer' : ''} ${isLinked ? 'bg-indigo-50/50 dark:bg-indigo-900/10 border-indigo-400 ring-2 ring-indigo-500/10 shadow-lg shadow-indigo-500/5' : warning ? 'bg-amber-50/60 dark:bg-amber-900/10 border-amber-300 dark:border-amber-700' : 'bg-slate-50 dark:bg-slate-800/50 border-slate-100 dark:border-slate-700/50'}`}>
       <div className="flex justify-between items-start mb-2">
         <div className="flex items-center gap-1.5 overflow-hidden">
+          {color && <span className={`w-2 h-2 rounded-full shrink-0 ${onFocus ? '' : 'opacity-30'}`} style={{ backgroundColor: color }} />}
           <span className={`text-[10px] font-bold uppercase tracking-tight truncate ${isLinked ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400'}`}>{label}</span>
         </div>
         <div className="flex items-center gap-2">
@@ -680,16 +1452,65 @@ const FieldCard: React.FC<{ label: string; value: any; confidence: number; unit?
         </div>
       ) : (
         <div className="flex justify-between items-center">
-          <p className={`text-sm font-bold truncate ${isLinked ? 'text-indigo-900 dark:text-indigo-100' : 'text-slate-800 dark:text-slate-100'}`}>{isCurrency && value && <span className="text-slate-400 mr-1 italic">{unit}</span>}{value?.toString() || '---'}{!isCurrency && value && <span className="text-slate-400 ml-1">{unit}</span>}</p>
-          <button onClick={() => { setTempValue(value?.toString() || ''); setIsEditing(true); }} className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-indigo-600 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg></button>
+          {notFound ? (
+            <p className="text-sm font-bold italic text-slate-400">Not found</p>
+          ) : (
+            <p className={`text-sm font-bold truncate ${isLinked ? 'text-indigo-900 dark:text-indigo-100' : 'text-slate-800 dark:text-slate-100'}`}>{isCurrency && value && <span className="text-slate-400 mr-1 italic">{unit}</span>}{value?.toString() || '---'}{!isCurrency && value && <span className="text-slate-400 ml-1">{unit}</span>}</p>
+          )}
+          <button onClick={(e) => { e.stopPropagation(); setTempValue(value?.toString() || ''); setIsEditing(true); }} className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-indigo-600 transition-all"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg></button>
         </div>
       )}
+      {warning && <p className="mt-2 text-[9px] font-bold text-amber-600 dark:text-amber-400 leading-tight">{warning}</p>}
+    </div>
+  );
+};
+
+const DealerMatchBadge: React.FC<{ match: DealerMatch; onSelect: (dealerId: string) => void }> = ({ match, onSelect }) => (
+  <div className={`mt-2 px-3 py-2 rounded-xl border text-[10px] ${match.needsReview ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800' : 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-800'}`}>
+    {match.needsReview ? (
+      <span className="font-black uppercase text-amber-600 dark:text-amber-400">Unmatched dealer · review</span>
+    ) : (
+      <div className="flex justify-between gap-2">
+        <span className="font-bold text-emerald-700 dark:text-emerald-300 truncate">{match.canonicalName}</span>
+        <span className="font-black text-emerald-600 shrink-0">{match.isManual ? 'CONFIRMED' : `${(match.score * 100).toFixed(0)}%`}</span>
+      </div>
+    )}
+    {match.alternatives.length > 0 && (
+      <div className="flex flex-wrap gap-1 mt-1.5">
+        {match.alternatives.map(alt => (
+          <button key={alt.dealerId} onClick={() => onSelect(alt.dealerId)} className="px-1.5 py-0.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md font-bold text-slate-600 dark:text-slate-300 hover:border-indigo-400" title="Use this dealer">
+            {alt.canonicalName} <span className="text-slate-400">{(alt.score * 100).toFixed(0)}%</span>
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const ValidationReportPanel: React.FC<{ report: ValidationReport }> = ({ report }) => {
+  const failures = report.results.filter(r => !r.passed);
+  const passedCount = report.results.length - failures.length;
+  return (
+    <div className="pt-6 border-t border-slate-100 dark:border-slate-800 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Rule Validation</span>
+        <span className={`text-[10px] font-black uppercase ${report.errorCount ? 'text-rose-500' : report.warningCount ? 'text-amber-500' : 'text-emerald-500'}`}>{passedCount}/{report.results.length} passed</span>
+      </div>
+      {failures.map(r => (
+        <div key={r.ruleId} className={`px-3 py-2 rounded-xl border text-xs flex justify-between gap-3 ${r.severity === 'error' ? 'bg-rose-50 dark:bg-rose-900/20 border-rose-100 dark:border-rose-800' : r.severity === 'warning' ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-100 dark:border-amber-800' : 'bg-slate-50 dark:bg-slate-800 border-slate-100 dark:border-slate-700'}`}>
+          <div>
+            <p className="font-bold text-slate-800 dark:text-slate-100">{r.ruleName}</p>
+            <p className="text-[10px] text-slate-500 dark:text-slate-400">{r.message}</p>
+          </div>
+          <span className={`text-[9px] font-black uppercase shrink-0 ${r.severity === 'error' ? 'text-rose-500' : r.severity === 'warning' ? 'text-amber-500' : 'text-slate-400'}`}>{r.severity}</span>
+        </div>
+      ))}
     </div>
   );
 };
 
-const VisualMarker: React.FC<{ label: string; present: boolean; confidence: number; color?: string }> = ({ label, present, confidence, color = "bg-indigo-600" }) => (
-  <div className="flex items-center justify-between p-4 bg-white dark:bg-slate-800/80 rounded-2xl border border-slate-100 shadow-sm">
+const VisualMarker: React.FC<{ label: string; present: boolean; confidence: number; color?: string; regionColor?: string; isFocused?: boolean; onFocus?: () => void }> = ({ label, present, confidence, color = "bg-indigo-600", regionColor, isFocused, onFocus }) => (
+  <div onClick={onFocus} title={onFocus ? 'Show on document' : undefined} style={isFocused && regionColor ? { boxShadow: `0 0 0 3px ${regionColor}` } : undefined} className={`flex items-center justify-between p-4 bg-white dark:bg-slate-800/80 rounded-2xl border border-slate-100 shadow-sm transition-all ${onFocus ? 'cursor-pointer' : ''}`}>
     <div className="flex items-center gap-3">
       <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${present ? `${color} text-white` : 'bg-slate-50 text-slate-300'}`}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg></div>
       <div><p className="text-xs font-bold">{label}</p><div className="w-16 h-1 bg-slate-100 rounded-full mt-1"><div className={`h-full ${color}`} style={{ width: `${confidence * 100}%` }} /></div></div>
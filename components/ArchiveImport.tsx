@@ -0,0 +1,138 @@
+
+import React, { useRef, useState } from 'react';
+import { StoredDocument } from '../types';
+import { ImportPlanItem, ImportResolution, ImportResult, applyImportPlan, parseArchiveBundle, planImport } from '../services/archiveBundle';
+
+interface ArchiveImportProps {
+  history: StoredDocument[];
+  loadPages: (docId: string) => Promise<string[]>;
+  onImport: (result: ImportResult) => Promise<void>;
+  onDownloadBackup: () => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const describeDoc = (doc: StoredDocument) => `${doc.data.documentType.value} · ${doc.data.dealerName.value || 'Unnamed'} · ${new Date(doc.timestamp).toLocaleDateString()}`;
+
+const ArchiveImport: React.FC<ArchiveImportProps> = ({ history, loadPages, onImport, onDownloadBackup, onClose }) => {
+  const [plan, setPlan] = useState<ImportPlanItem[] | null>(null);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const parsed = parseArchiveBundle(await file.text());
+      setRejected(parsed.rejected);
+      setPlan(await planImport(parsed.entries, history, loadPages));
+    } catch (e: any) {
+      setPlan(null);
+      setMessage(`Import failed: ${e.message || 'unreadable file'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setResolution = (index: number, resolution: ImportResolution) => setPlan(prev => prev && prev.map((item, i) => i === index ? { ...item, resolution } : item));
+
+  const setAllResolutions = (resolution: ImportResolution) => setPlan(prev => prev && prev.map(item => item.conflict ? { ...item, resolution } : item));
+
+  const confirmImport = async () => {
+    if (!plan) return;
+    setIsBusy(true);
+    try {
+      const result = applyImportPlan(plan);
+      await onImport(result);
+      setMessage(`Imported ${result.documents.length} document${result.documents.length === 1 ? '' : 's'} (${result.replacedIds.length} overwritten, ${result.skipped} skipped).`);
+      setPlan(null);
+      setRejected([]);
+    } catch (e: any) {
+      setMessage(`Import failed: ${e.message || 'could not save documents'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setIsBusy(true);
+    try {
+      await onDownloadBackup();
+    } catch (e: any) {
+      setMessage(`Backup failed: ${e.message || 'could not read archive'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const conflicts = plan?.filter(item => item.conflict).length || 0;
+  const historyById = new Map<string, StoredDocument>(history.map(d => [d.id, d]));
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden animate-in slide-in-from-top-4 duration-300">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Archive Backup & Import</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">Bundles carry every document record with its page images.</p>
+        </div>
+        <div className="flex gap-3">
+          <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); e.target.value = ''; }} />
+          <button onClick={onClose} className="px-3 py-2 text-slate-400 font-bold text-xs hover:text-slate-600">Close</button>
+          <button onClick={handleBackup} disabled={isBusy || history.length === 0} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs disabled:opacity-50">Download Backup</button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">{isBusy && !plan ? 'Reading...' : 'Import Bundle'}</button>
+        </div>
+      </div>
+      {message && <p className="px-8 pt-4 text-xs font-bold text-indigo-600 dark:text-indigo-400">{message}</p>}
+
+      {plan && (
+        <div className="p-8 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-xs font-bold text-slate-600 dark:text-slate-300">{plan.length} valid documents · {conflicts} already in the archive{rejected.length > 0 ? ` · ${rejected.length} rejected` : ''}</p>
+            {conflicts > 0 && (
+              <select value="" onChange={(e) => e.target.value && setAllResolutions(e.target.value as ImportResolution)} className={inputClass}>
+                <option value="" disabled>Resolve all conflicts...</option>
+                <option value="skip">Skip all</option>
+                <option value="overwrite">Overwrite all</option>
+                <option value="keep-both">Keep both for all</option>
+              </select>
+            )}
+          </div>
+          {rejected.length > 0 && (
+            <ul className="text-[10px] font-bold text-rose-500 space-y-1">{rejected.map(r => <li key={r}>{r}</li>)}</ul>
+          )}
+          <div className="max-h-80 overflow-y-auto divide-y divide-slate-50 dark:divide-slate-800">
+            {plan.map((item, i) => {
+              const existing = item.conflict ? historyById.get(item.conflict.existingId) : undefined;
+              return (
+                <div key={item.entry.record.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{describeDoc(item.entry.record)}</p>
+                    {item.conflict
+                      ? <p className="text-[10px] font-bold text-amber-600 truncate">{item.conflict.reason === 'id' ? 'Same id as' : 'Same images as'} {existing ? describeDoc(existing) : item.conflict.existingId}</p>
+                      : <p className="text-[10px] font-bold text-emerald-600">New document</p>}
+                  </div>
+                  {item.conflict && (
+                    <select value={item.resolution} onChange={(e) => setResolution(i, e.target.value as ImportResolution)} className={inputClass}>
+                      <option value="skip">Skip</option>
+                      <option value="overwrite">Overwrite</option>
+                      <option value="keep-both">Keep both</option>
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => { setPlan(null); setRejected([]); }} className="px-3 py-2 text-slate-400 font-bold text-xs">Cancel</button>
+            <button onClick={confirmImport} disabled={isBusy || plan.length === 0} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">{isBusy ? 'Importing...' : 'Import Documents'}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchiveImport;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { ApprovalRecord, CorrectionKind, DocumentData, DocumentEdit, SchemaTemplate } from '../types';
+import { fieldTimelines, undoRedoStacks } from '../services/correctionAudit';
+
+interface AuditTrailProps {
+  data: DocumentData;
+  approvals: ApprovalRecord[];
+  edits: DocumentEdit[];
+  template: SchemaTemplate;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (field: string) => void;
+}
+
+const KIND_STYLES: Record<CorrectionKind, string> = {
+  edit: 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400',
+  undo: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+  redo: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+  revert: 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400',
+};
+
+const formatValue = (value: any) => value === '' || value === null || value === undefined ? '—' : String(value);
+
+const AuditTrail: React.FC<AuditTrailProps> = ({ data, approvals, edits, template, onUndo, onRedo, onRevert }) => {
+  const { undo, redo } = undoRedoStacks(data);
+  const timelines = fieldTimelines(data, template.fields.map(f => f.key));
+  const labelOf = (key: string) => template.fields.find(f => f.key === key)?.label || key;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 tracking-tight">Audit Trail</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{timelines.length ? `${timelines.length} field${timelines.length > 1 ? 's' : ''} corrected` : 'No corrections yet'}</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={!undo.length} title={undo.length ? `Undo ${labelOf(undo[undo.length - 1].field)} (Ctrl+Z)` : undefined} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 disabled:opacity-30">Undo</button>
+          <button onClick={onRedo} disabled={!redo.length} title={redo.length ? `Redo ${labelOf(redo[redo.length - 1].field)} (Ctrl+Shift+Z)` : undefined} className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 disabled:opacity-30">Redo</button>
+        </div>
+      </div>
+      {approvals.length > 0 && (
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 space-y-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Decisions</span>
+          {approvals.map((approval, i) => (
+            <p key={i} className="text-[11px]">
+              <span className={`px-1.5 py-0.5 rounded text-[8px] font-black uppercase mr-2 ${approval.status === 'approved' ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600' : 'bg-rose-50 dark:bg-rose-900/30 text-rose-600'}`}>{approval.status}</span>
+              <span className="font-bold text-slate-700 dark:text-slate-200">{approval.user}</span>
+              <span className="text-slate-400"> · {approval.role} · {new Date(approval.timestamp).toLocaleString()}</span>
+              {approval.note && <span className="block pl-1 mt-0.5 text-slate-500 italic">{approval.note}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+      {edits.length > 0 && (
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 space-y-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Document Edits</span>
+          {edits.map((edit, i) => (
+            <p key={i} className="text-[11px]">
+              <span className="font-bold text-slate-700 dark:text-slate-200">{edit.detail}</span>
+              <span className="text-slate-400"> · {edit.user} · {new Date(edit.timestamp).toLocaleString()}</span>
+            </p>
+          ))}
+        </div>
+      )}
+      {timelines.length > 0 && (
+        <div className="divide-y divide-slate-50 dark:divide-slate-800">
+          {timelines.map(({ field, originalValue, entries }) => {
+            const current = data[field].value;
+            return (
+              <div key={field} className="p-6 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{labelOf(field)}</span>
+                  {current !== originalValue && (
+                    <button onClick={() => onRevert(field)} className="text-[10px] font-black uppercase text-amber-600 hover:text-amber-700">Revert to Model</button>
+                  )}
+                </div>
+                <ol className="relative border-l-2 border-slate-100 dark:border-slate-800 ml-1 space-y-2">
+                  <li className="pl-4 text-[11px]">
+                    <span className="font-bold text-slate-700 dark:text-slate-200">{formatValue(originalValue)}</span>
+                    <span className="text-slate-400"> · model</span>
+                  </li>
+                  {entries.map((entry, i) => (
+                    <li key={i} className="pl-4 text-[11px]">
+                      <span className={`px-1.5 py-0.5 rounded text-[8px] font-black uppercase mr-2 ${KIND_STYLES[entry.kind || 'edit']}`}>{entry.kind || 'edit'}</span>
+                      <span className="font-bold text-slate-700 dark:text-slate-200">{formatValue(entry.newValue)}</span>
+                      <span className="text-slate-400"> · {entry.user} · {new Date(entry.timestamp).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditTrail;
@@ -0,0 +1,162 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { StoredDocument } from '../types';
+import { BatchItem, BatchQueue, BatchSummary, SUPPORTED_BATCH_FILE, collectDroppedFiles, createBatchQueue } from '../services/batchQueue';
+
+interface BatchProcessorProps {
+  processFile: (file: File, signal: AbortSignal) => Promise<StoredDocument>;
+  onDocument: (doc: StoredDocument) => void;
+}
+
+const CONCURRENCY_STORAGE_KEY = 'docu_batch_concurrency';
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 1500;
+
+const statusStyles: Record<BatchItem['status'], string> = {
+  queued: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+  running: 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300',
+  done: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400',
+  failed: 'bg-rose-50 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400',
+};
+
+const BatchProcessor: React.FC<BatchProcessorProps> = ({ processFile, onDocument }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY)) || 3);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // The queue outlives renders, so it reads the latest callbacks through refs.
+  const processRef = useRef(processFile);
+  const onDocumentRef = useRef(onDocument);
+  processRef.current = processFile;
+  onDocumentRef.current = onDocument;
+
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue({
+      concurrency,
+      maxRetries: MAX_RETRIES,
+      retryDelayMs: RETRY_DELAY_MS,
+      process: (file, signal) => processRef.current(file, signal),
+      onDocument: (doc) => onDocumentRef.current(doc),
+      onChange: setItems,
+      onFinish: setSummary,
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+  }, [concurrency]);
+
+  const enqueue = (files: File[]) => {
+    const supported = files.filter(file => SUPPORTED_BATCH_FILE.test(file.name));
+    if (supported.length === 0) return;
+    setSummary(null);
+    queue.enqueue(supported);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    enqueue(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const togglePause = () => {
+    if (queue.isPaused()) queue.resume(); else queue.pause();
+    setIsPaused(queue.isPaused());
+  };
+
+  const counts = {
+    queued: items.filter(i => i.status === 'queued').length,
+    running: items.filter(i => i.status === 'running').length,
+    done: items.filter(i => i.status === 'done').length,
+    failed: items.filter(i => i.status === 'failed').length,
+  };
+  const progress = items.length ? ((counts.done + counts.failed) / items.length) * 100 : 0;
+
+  return (
+    <div className="animate-in fade-in duration-500 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900 dark:text-slate-100 tracking-tight">Batch Processing</h2>
+          <p className="text-slate-500 dark:text-slate-400 font-medium">Queue dealer submissions; every finished document lands in the archive.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 px-4 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl text-xs font-bold text-slate-500">
+            Concurrency
+            <input type="number" min={1} max={8} value={concurrency} onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))} className="w-12 bg-transparent text-slate-900 dark:text-slate-100 outline-none font-black" />
+          </label>
+          <button onClick={togglePause} disabled={items.length === 0} className="px-5 py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-2xl font-bold text-sm disabled:opacity-50">{isPaused ? 'Resume' : 'Pause'}</button>
+          <button onClick={() => queue.retryFailed()} disabled={counts.failed === 0} className="px-5 py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-2xl font-bold text-sm disabled:opacity-50">Retry Failed</button>
+          <button onClick={() => { queue.clear(); setSummary(null); }} disabled={items.length === 0} className="px-5 py-3 text-rose-500 font-bold text-sm disabled:opacity-50">Clear</button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`rounded-[2rem] border-2 border-dashed p-10 text-center transition-all ${isDragging ? 'border-indigo-500 bg-indigo-50/50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50'}`}
+      >
+        <input type="file" ref={fileInputRef} className="hidden" multiple accept="image/*,application/pdf" onChange={(e) => { enqueue(Array.from(e.target.files || [])); e.target.value = ''; }} />
+        <input type="file" ref={folderInputRef} className="hidden" multiple {...{ webkitdirectory: '' }} onChange={(e) => { enqueue(Array.from(e.target.files || [])); e.target.value = ''; }} />
+        <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 tracking-tight">Drop files or folders here</h3>
+        <p className="text-xs text-slate-400 font-medium mt-1">Images and PDFs. Folders are scanned recursively.</p>
+        <div className="flex gap-4 justify-center mt-6">
+          <button onClick={() => fileInputRef.current?.click()} className="px-6 py-3 bg-indigo-600 text-white rounded-2xl font-bold text-sm shadow-xl hover:bg-indigo-700">Select Files</button>
+          <button onClick={() => folderInputRef.current?.click()} className="px-6 py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-2xl font-bold text-sm hover:bg-slate-50">Select Folder</button>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="p-6 bg-white dark:bg-slate-900 rounded-[2rem] border-2 border-emerald-400 shadow-xl flex flex-wrap items-center justify-between gap-4 animate-in slide-in-from-top-4">
+          <div>
+            <h3 className="font-black text-slate-900 dark:text-slate-100 uppercase tracking-tighter text-sm">Batch Complete</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-bold">{summary.succeeded} of {summary.total} processed in {(summary.durationMs / 1000).toFixed(1)}s</p>
+          </div>
+          <div className="flex gap-6 text-xs font-bold">
+            <span className="text-emerald-600">{summary.succeeded} done</span>
+            <span className="text-rose-500">{summary.failed} failed</span>
+            <span className="text-amber-500">{summary.retried} retried</span>
+          </div>
+          <button onClick={() => setSummary(null)} className="text-[10px] font-black uppercase text-indigo-600 dark:text-indigo-400 hover:underline">Dismiss</button>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 overflow-hidden">
+          <div className="p-6 border-b border-slate-100 dark:border-slate-800 space-y-3">
+            <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span>{counts.done + counts.failed} / {items.length} finished{isPaused && ' · paused'}</span>
+              <span>{counts.running} running · {counts.queued} queued · {counts.failed} failed</span>
+            </div>
+            <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+          <div className="max-h-[480px] overflow-y-auto divide-y divide-slate-50 dark:divide-slate-800">
+            {items.map(item => (
+              <div key={item.id} className="px-6 py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{item.name}</p>
+                  {item.error && <p className="text-[10px] font-bold text-rose-500 truncate">{item.error.title}: {item.error.message}</p>}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {item.attempts > 1 && <span className="text-[9px] font-bold text-amber-500">attempt {item.attempts}</span>}
+                  <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase ${statusStyles[item.status]}`}>{item.status}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchProcessor;
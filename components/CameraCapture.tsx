@@ -0,0 +1,202 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Quad } from '../services/imagePreprocessing';
+import { GUIDE_MESSAGES, GuideStatus, RESOLUTION_PRESETS, STEADY_FRAMES, analyzeFrame, guideStatus, hasMovedOn } from '../services/captureGuide';
+
+interface CameraCaptureProps {
+  onSubmit: (pages: string[]) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+type TorchConstraintSet = MediaTrackConstraintSet & { torch?: boolean };
+
+const ANALYSIS_INTERVAL_MS = 250;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onSubmit, onClose, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<MediaStreamTrack | null>(null);
+  const signatureRef = useRef<Uint8ClampedArray | null>(null);
+  const steadyFramesRef = useRef(0);
+  const armedRef = useRef(true);
+  const autoCaptureRef = useRef(true);
+  const [pages, setPages] = useState<string[]>([]);
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [status, setStatus] = useState<GuideStatus>('searching');
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
+  const [resolutions, setResolutions] = useState<typeof RESOLUTION_PRESETS>([]);
+  const [resolutionId, setResolutionId] = useState('fhd');
+  const [videoSize, setVideoSize] = useState({ width: 1, height: 1 });
+  const [flash, setFlash] = useState(false);
+
+  useEffect(() => {
+    autoCaptureRef.current = autoCapture;
+  }, [autoCapture]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } } })
+      .then(s => {
+        stream = s;
+        if (cancelled) return s.getTracks().forEach(t => t.stop());
+        const track = s.getVideoTracks()[0];
+        trackRef.current = track;
+        const capabilities = (track.getCapabilities?.() || {}) as TorchCapabilities;
+        setTorchSupported(!!capabilities.torch);
+        const maxWidth = capabilities.width?.max;
+        setResolutions(maxWidth ? RESOLUTION_PRESETS.filter(r => r.width <= maxWidth) : []);
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(() => !cancelled && onError('Could not access camera.'));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+      trackRef.current = null;
+    };
+  }, []);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    const image = canvas.toDataURL('image/jpeg', 0.92);
+    canvas.width = 0;
+    setPages(prev => [...prev, image]);
+    armedRef.current = false;
+    steadyFramesRef.current = 0;
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  // Auto-capture fires after a few consecutive steady, sharp frames with the page in view,
+  // then waits for the camera to move before arming again. Analysis stops while a
+  // captured page is being reviewed.
+  useEffect(() => {
+    if (reviewIndex !== null) return;
+    steadyFramesRef.current = 0;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      const analysis = analyzeFrame(video, signatureRef.current);
+      signatureRef.current = analysis.signature;
+      if (!armedRef.current && hasMovedOn(analysis)) armedRef.current = true;
+      const next = guideStatus(analysis, armedRef.current);
+      steadyFramesRef.current = next === 'steady' ? steadyFramesRef.current + 1 : 0;
+      setQuad(analysis.quad);
+      setStatus(next);
+      setVideoSize(prev => prev.width === video.videoWidth && prev.height === video.videoHeight ? prev : { width: video.videoWidth, height: video.videoHeight });
+      if (autoCaptureRef.current && steadyFramesRef.current >= STEADY_FRAMES) capture();
+    }, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [reviewIndex]);
+
+  const toggleTorch = async () => {
+    const next = !torchOn;
+    const constraint: TorchConstraintSet = { torch: next };
+    try {
+      await trackRef.current?.applyConstraints({ advanced: [constraint] });
+      setTorchOn(next);
+    } catch (e) {
+      setTorchSupported(false);
+    }
+  };
+
+  const changeResolution = async (id: string) => {
+    const preset = RESOLUTION_PRESETS.find(r => r.id === id);
+    if (!preset) return;
+    setResolutionId(id);
+    await trackRef.current?.applyConstraints({ width: { ideal: preset.width }, height: { ideal: preset.height } }).catch(() => undefined);
+    signatureRef.current = null;
+  };
+
+  const movePage = (index: number, offset: number) => setPages(prev => {
+    const target = index + offset;
+    if (target < 0 || target >= prev.length) return prev;
+    const next = [...prev];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  const removePage = (index: number) => {
+    setPages(prev => prev.filter((_, i) => i !== index));
+    setReviewIndex(null);
+  };
+
+  const controlClass = "h-9 px-3 bg-black/40 backdrop-blur-md text-white rounded-full text-[10px] font-black uppercase tracking-wider";
+
+  return (
+    <div className="absolute inset-0 z-30 bg-black flex flex-col items-center justify-center">
+      <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+      {/* "slice" matches object-cover, so the outline can use video pixel coordinates. */}
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${videoSize.width} ${videoSize.height}`} preserveAspectRatio="xMidYMid slice">
+        {quad && (
+          <polygon
+            points={quad.map(p => `${p.x * videoSize.width},${p.y * videoSize.height}`).join(' ')}
+            fill={status === 'steady' ? 'rgba(16,185,129,0.15)' : 'rgba(99,102,241,0.12)'}
+            stroke={status === 'steady' ? '#10b981' : '#818cf8'}
+            strokeWidth={3}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      {flash && <div className="absolute inset-0 bg-white/70 pointer-events-none" />}
+
+      <div className="absolute top-4 inset-x-4 flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {torchSupported && <button onClick={toggleTorch} className={`${controlClass} ${torchOn ? 'bg-amber-400/80 text-slate-900' : ''}`}>Torch {torchOn ? 'On' : 'Off'}</button>}
+          {resolutions.length > 1 && (
+            <select value={resolutionId} onChange={(e) => changeResolution(e.target.value)} className={`${controlClass} outline-none`}>
+              {resolutions.map(r => <option key={r.id} value={r.id} className="text-slate-900">{r.label}</option>)}
+            </select>
+          )}
+          <button onClick={() => setAutoCapture(!autoCapture)} className={`${controlClass} ${autoCapture ? 'bg-emerald-500/80' : ''}`}>Auto {autoCapture ? 'On' : 'Off'}</button>
+        </div>
+        <span className="px-4 py-2 bg-black/50 backdrop-blur-md text-white rounded-full text-[11px] font-bold">{GUIDE_MESSAGES[status]}</span>
+      </div>
+
+      {reviewIndex !== null && pages[reviewIndex] && (
+        <div className="absolute inset-0 bg-black/90 flex flex-col items-center justify-center gap-4 p-8">
+          <img src={pages[reviewIndex]} className="max-w-full max-h-[75%] rounded-xl" alt={`Page ${reviewIndex + 1}`} />
+          <div className="flex gap-3">
+            <button onClick={() => removePage(reviewIndex)} className="px-5 py-2 bg-rose-600 text-white rounded-full font-bold text-xs">Retake</button>
+            <button onClick={() => setReviewIndex(null)} className="px-5 py-2 bg-white/20 text-white rounded-full font-bold text-xs">Keep</button>
+          </div>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 inset-x-4 flex flex-col items-center gap-3">
+        {pages.length > 0 && (
+          <div className="flex gap-2 p-2 bg-black/40 backdrop-blur-md rounded-2xl max-w-full overflow-x-auto">
+            {pages.map((page, i) => (
+              <div key={i} className="relative shrink-0">
+                <button onClick={() => setReviewIndex(i)} className="block w-12 h-16 rounded-lg overflow-hidden border-2 border-white/40">
+                  <img src={page} className="w-full h-full object-cover" alt={`Page ${i + 1}`} />
+                </button>
+                <span className="absolute bottom-0 inset-x-0 bg-slate-900/70 text-white text-[8px] font-black text-center rounded-b-lg">{i + 1}</span>
+                <div className="absolute -top-2 inset-x-0 flex justify-between">
+                  <button onClick={() => movePage(i, -1)} disabled={i === 0} title="Move earlier" className="w-5 h-5 rounded-full bg-white text-slate-900 text-[10px] font-black disabled:opacity-0">‹</button>
+                  <button onClick={() => movePage(i, 1)} disabled={i === pages.length - 1} title="Move later" className="w-5 h-5 rounded-full bg-white text-slate-900 text-[10px] font-black disabled:opacity-0">›</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="px-6 py-3 bg-white/20 backdrop-blur-md text-white rounded-full font-bold hover:bg-white/30 transition-all">Cancel [Esc]</button>
+          <button onClick={capture} title="Capture page" className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-2xl active:scale-90 transition-transform"><div className="w-12 h-12 border-4 border-slate-900 rounded-full" /></button>
+          <button onClick={() => onSubmit(pages)} disabled={!pages.length} className="px-6 py-3 bg-indigo-600 text-white rounded-full font-bold disabled:opacity-40 transition-all">Done ({pages.length})</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
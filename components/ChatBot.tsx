@@ -1,6 +1,10 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { sendMultimodalChatMessage } from '../services/geminiService';
+import { ChatHistoryItem } from '../types';
+import { ExtractionProvider } from '../services/extractionProvider';
+import { getDataUrlMimeType, stripDataUrl } from '../services/imageHash';
+import { BudgetExceededError } from '../services/spendLedger';
+import { categorizeError } from '../services/errors';
 
 interface Message {
   role: 'user' | 'model';
@@ -8,12 +12,11 @@ interface Message {
   image?: string;
 }
 
-interface ChatHistoryItem {
-  role: string;
-  parts: any[];
+interface ChatBotProps {
+  provider: ExtractionProvider;
 }
 
-const ChatBot: React.FC = () => {
+const ChatBot: React.FC<ChatBotProps> = ({ provider }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([
     { role: 'model', text: 'Hello! I am your DocuExtract AI assistant. I can now analyze any document image you upload here. How can I help you today?' }
@@ -24,6 +27,9 @@ const ChatBot: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -68,9 +74,11 @@ const ChatBot: React.FC = () => {
     setInput('');
     setSelectedImage(null);
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const responseText = await sendMultimodalChatMessage(chatHistory, currentInput, currentImage || undefined);
+      const responseText = await provider.sendMultimodalChatMessage(chatHistory, currentInput, currentImage || undefined, controller.signal);
       
       const modelMsg: Message = { role: 'model', text: responseText };
       setMessages(prev => [...prev, modelMsg]);
@@ -80,8 +88,8 @@ const ChatBot: React.FC = () => {
       if (currentImage) {
         newUserParts.push({
           inlineData: {
-            mimeType: 'image/jpeg',
-            data: currentImage.split(',')[1] || currentImage,
+            mimeType: getDataUrlMimeType(currentImage),
+            data: stripDataUrl(currentImage),
           }
         });
       }
@@ -93,8 +101,14 @@ const ChatBot: React.FC = () => {
       ]);
 
     } catch (error) {
-      setMessages(prev => [...prev, { role: 'model', text: 'Sorry, I encountered an error while analyzing the document. Please try again.' }]);
+      const { type, message, suggestion } = categorizeError(error);
+      const text = error instanceof BudgetExceededError ? `${error.message} Raise the budget in Settings to keep chatting.`
+        : type === 'cancelled' ? 'Stopped.'
+        : type === 'quota' || type === 'timeout' ? `${message} ${suggestion}`
+        : 'Sorry, I encountered an error while analyzing the document. Please try again.';
+      setMessages(prev => [...prev, { role: 'model', text }]);
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -111,7 +125,7 @@ const ChatBot: React.FC = () => {
               </div>
               <div>
                 <h4 className="font-bold text-sm">Vision AI Assistant</h4>
-                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">Gemini 3 Pro Multimodal</p>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{provider.id === 'mock' ? 'Offline Mock Provider' : 'Gemini 3 Pro Multimodal'}</p>
               </div>
             </div>
             <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-white transition-colors flex flex-col items-center">
@@ -191,13 +205,23 @@ const ChatBot: React.FC = () => {
               placeholder={selectedImage ? "Describe this document..." : "Ask about a document..."}
               className="flex-1 bg-slate-50 dark:bg-slate-800 border-none rounded-xl px-4 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
             />
-            <button 
-              onClick={handleSend}
-              disabled={isLoading || (!input.trim() && !selectedImage)}
-              className="w-10 h-10 bg-indigo-600 text-white rounded-xl flex items-center justify-center disabled:opacity-50 transition-all hover:scale-105 active:scale-95 shadow-lg shadow-indigo-600/20"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
-            </button>
+            {isLoading ? (
+              <button 
+                onClick={() => abortRef.current?.abort()}
+                className="w-10 h-10 bg-rose-500 text-white rounded-xl flex items-center justify-center transition-all hover:scale-105 active:scale-95 shadow-lg shadow-rose-500/20"
+                title="Stop"
+              >
+                <div className="w-3 h-3 bg-white rounded-sm" />
+              </button>
+            ) : (
+              <button 
+                onClick={handleSend}
+                disabled={!input.trim() && !selectedImage}
+                className="w-10 h-10 bg-indigo-600 text-white rounded-xl flex items-center justify-center disabled:opacity-50 transition-all hover:scale-105 active:scale-95 shadow-lg shadow-indigo-600/20"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
+              </button>
+            )}
           </div>
         </div>
       ) : (
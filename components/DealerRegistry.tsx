@@ -0,0 +1,107 @@
+
+import React, { useState, useRef } from 'react';
+import { Dealer } from '../types';
+import { mergeDealers, parseDealerCsv, splitAliases } from '../services/dealerRegistry';
+
+interface DealerRegistryProps {
+  dealers: Dealer[];
+  onChange: (dealers: Dealer[]) => void;
+  onRematchArchive: () => void;
+  unmatchedCount: number;
+}
+
+interface DealerDraft {
+  canonicalName: string;
+  aliases: string;
+  location: string;
+}
+
+const emptyDraft: DealerDraft = { canonicalName: '', aliases: '', location: '' };
+
+const toDraft = (dealer: Dealer): DealerDraft => ({ canonicalName: dealer.canonicalName, aliases: dealer.aliases.join('; '), location: dealer.location || '' });
+
+const DealerRegistry: React.FC<DealerRegistryProps> = ({ dealers, onChange, onRematchArchive, unmatchedCount }) => {
+  const [draft, setDraft] = useState<DealerDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveDraft = () => {
+    if (!draft.canonicalName.trim()) return;
+    const dealer: Dealer = {
+      id: editingId || crypto.randomUUID(),
+      canonicalName: draft.canonicalName.trim(),
+      aliases: splitAliases(draft.aliases),
+      location: draft.location.trim() || undefined,
+    };
+    onChange(editingId ? dealers.map(d => d.id === editingId ? dealer : d) : [...dealers, dealer]);
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseDealerCsv(await file.text());
+      onChange(mergeDealers(dealers, imported));
+      setImportMessage(`Imported ${imported.length} dealer${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (e: any) {
+      setImportMessage(`Import failed: ${e.message || 'unreadable file'}`);
+    }
+  };
+
+  const visible = dealers.filter(d => {
+    const q = filter.trim().toLowerCase();
+    return !q || d.canonicalName.toLowerCase().includes(q) || d.aliases.some(a => a.toLowerCase().includes(q)) || d.location?.toLowerCase().includes(q);
+  });
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Dealer Master</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">{dealers.length} dealers · {unmatchedCount} archived documents awaiting dealer review</p>
+        </div>
+        <div className="flex gap-3">
+          <input type="file" ref={fileInputRef} className="hidden" accept=".csv,text/csv" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }} />
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Import CSV</button>
+          <button onClick={onRematchArchive} disabled={dealers.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Re-match Archive</button>
+        </div>
+      </div>
+      {importMessage && <p className="px-8 pt-4 text-xs font-bold text-indigo-600 dark:text-indigo-400">{importMessage}</p>}
+
+      <div className="p-8 grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-b border-slate-100 dark:border-slate-800">
+        <input className={inputClass} placeholder="Canonical name" value={draft.canonicalName} onChange={(e) => setDraft({ ...draft, canonicalName: e.target.value })} />
+        <input className={inputClass} placeholder="Aliases (separate with ;)" value={draft.aliases} onChange={(e) => setDraft({ ...draft, aliases: e.target.value })} />
+        <input className={inputClass} placeholder="Location" value={draft.location} onChange={(e) => setDraft({ ...draft, location: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && saveDraft()} />
+        <div className="flex gap-2">
+          <button onClick={saveDraft} disabled={!draft.canonicalName.trim()} className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">{editingId ? 'Save Dealer' : 'Add Dealer'}</button>
+          {editingId && <button onClick={() => { setEditingId(null); setDraft(emptyDraft); }} className="px-3 py-2 text-slate-400 font-bold text-xs">Cancel</button>}
+        </div>
+      </div>
+
+      <div className="p-8 space-y-4">
+        <input className={inputClass} placeholder="Filter dealers..." value={filter} onChange={(e) => setFilter(e.target.value)} />
+        <div className="max-h-[420px] overflow-y-auto divide-y divide-slate-50 dark:divide-slate-800">
+          {visible.map(dealer => (
+            <div key={dealer.id} className="py-3 flex items-center justify-between gap-4 group">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{dealer.canonicalName}{dealer.location && <span className="ml-2 text-[10px] font-bold text-slate-400 uppercase">{dealer.location}</span>}</p>
+                {dealer.aliases.length > 0 && <p className="text-[10px] text-slate-500 truncate">aka {dealer.aliases.join(', ')}</p>}
+              </div>
+              <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => { setEditingId(dealer.id); setDraft(toDraft(dealer)); }} className="text-[10px] font-black uppercase text-indigo-600 dark:text-indigo-400">Edit</button>
+                <button onClick={() => onChange(dealers.filter(d => d.id !== dealer.id))} className="text-[10px] font-black uppercase text-rose-500">Delete</button>
+              </div>
+            </div>
+          ))}
+          {visible.length === 0 && <p className="py-10 text-center text-slate-400 italic font-medium">No dealers yet. Import a CSV with name, aliases and location columns.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DealerRegistry;
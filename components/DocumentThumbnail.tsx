@@ -0,0 +1,54 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { loadThumbnailUrl } from '../services/documentStore';
+
+interface DocumentThumbnailProps {
+  docId: string;
+  className?: string;
+}
+
+// Loads the first page from IndexedDB only once the card scrolls into view.
+const DocumentThumbnail: React.FC<DocumentThumbnailProps> = ({ docId, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    loadThumbnailUrl(docId).then(result => {
+      if (cancelled) {
+        if (result) URL.revokeObjectURL(result);
+        return;
+      }
+      objectUrl = result;
+      setUrl(result);
+    }).catch(e => console.error("Failed to load thumbnail", e));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [docId, isVisible]);
+
+  return (
+    <div ref={containerRef} className="w-full h-full">
+      {url ? <img src={url} className={className} alt="Doc" /> : <div className="w-full h-full animate-pulse bg-slate-200/60 dark:bg-slate-700/40" />}
+    </div>
+  );
+};
+
+export default DocumentThumbnail;
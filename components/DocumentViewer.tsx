@@ -0,0 +1,138 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox } from '../types';
+
+export interface FieldRegion {
+  key: string;
+  label: string;
+  color: string;
+  box: BoundingBox;
+}
+
+interface DocumentViewerProps {
+  image: string;
+  // Regions on this page only, in normalized [0, 1000] coordinates.
+  regions: FieldRegion[];
+  focusedKey: string | null;
+  onRegionClick: (key: string) => void;
+}
+
+const REGION_COLORS = ['#6366f1', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#84cc16', '#f97316'];
+
+export const regionColor = (index: number): string => REGION_COLORS[index % REGION_COLORS.length];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+// Zoom applied when a field is focused while the page is shown whole.
+const FOCUS_ZOOM = 2.5;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ image, regions, focusedKey, onRegionClick }) => {
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<{ x: number; y: number; startX: number; startY: number } | null>(null);
+  const { zoom } = view;
+
+  const reset = () => setView({ zoom: 1, x: 0, y: 0 });
+
+  useEffect(reset, [image]);
+
+  const zoomBy = (factor: number) => setView(prev => {
+    const next = clampZoom(prev.zoom * factor);
+    return next === 1 ? { zoom: 1, x: 0, y: 0 } : { zoom: next, x: prev.x * next / prev.zoom, y: prev.y * next / prev.zoom };
+  });
+
+  // Registered natively: React's wheel listener is passive and can't stop the page scrolling.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.2 : 1 / 1.2);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Centres the focused region. Offsets are in unscaled image pixels times the zoom,
+  // measured from the image centre (the transform origin).
+  useEffect(() => {
+    const region = regions.find(r => r.key === focusedKey);
+    const img = imgRef.current;
+    if (!region || !img) return;
+    const cx = ((region.box.xmin + region.box.xmax) / 2000 - 0.5) * img.clientWidth;
+    const cy = ((region.box.ymin + region.box.ymax) / 2000 - 0.5) * img.clientHeight;
+    setView(prev => {
+      const next = Math.max(prev.zoom, FOCUS_ZOOM);
+      return { zoom: next, x: -cx * next, y: -cy * next };
+    });
+    // Only re-centre when the focus or page changes, not when regions are re-derived.
+  }, [focusedKey, image]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (zoom === 1 || e.button !== 0) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, startX: view.x, startY: view.y };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView(prev => ({ ...prev, x: drag.startX + e.clientX - drag.x, y: drag.startY + e.clientY - drag.y }));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 overflow-hidden flex items-center justify-center p-6 select-none ${zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      onDoubleClick={reset}
+    >
+      <div className="relative" style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${zoom})` }}>
+        <img ref={imgRef} src={image} draggable={false} className="block max-w-full max-h-[552px] object-contain rounded-xl" alt="Preview" />
+        {regions.map(region => {
+          const focused = region.key === focusedKey;
+          return (
+            <button
+              key={region.key}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onRegionClick(region.key)}
+              title={region.label}
+              className="absolute rounded-sm transition-all"
+              style={{
+                left: `${region.box.xmin / 10}%`,
+                top: `${region.box.ymin / 10}%`,
+                width: `${(region.box.xmax - region.box.xmin) / 10}%`,
+                height: `${(region.box.ymax - region.box.ymin) / 10}%`,
+                border: `${(focused ? 3 : 2) / zoom}px ${focused ? 'solid' : 'dashed'} ${region.color}`,
+                backgroundColor: `${region.color}${focused ? '33' : '12'}`,
+                opacity: focusedKey && !focused ? 0.45 : 1,
+              }}
+            >
+              <span
+                className="absolute left-0 bottom-full mb-0.5 px-1.5 py-0.5 rounded text-white font-bold code-font whitespace-nowrap origin-bottom-left"
+                style={{ backgroundColor: region.color, fontSize: 10, transform: `scale(${1 / zoom})` }}
+              >
+                {region.label.toUpperCase()}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <div className="absolute top-6 left-6 flex items-center gap-1 p-1 bg-white/80 dark:bg-slate-800/80 backdrop-blur-md rounded-xl shadow-lg border border-slate-200/50 dark:border-slate-700/50 text-slate-600 dark:text-slate-300" onPointerDown={(e) => e.stopPropagation()}>
+        <button onClick={() => zoomBy(1 / 1.5)} disabled={zoom === MIN_ZOOM} className="w-7 h-7 rounded-lg font-black disabled:opacity-30" title="Zoom out">−</button>
+        <button onClick={reset} className="px-1 text-[10px] font-black w-12" title="Fit page (double-click)">{Math.round(zoom * 100)}%</button>
+        <button onClick={() => zoomBy(1.5)} disabled={zoom === MAX_ZOOM} className="w-7 h-7 rounded-lg font-black disabled:opacity-30" title="Zoom in">+</button>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
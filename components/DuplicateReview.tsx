@@ -0,0 +1,86 @@
+
+import React, { useState } from 'react';
+import { DuplicateCheck, StoredDocument } from '../types';
+import DocumentThumbnail from './DocumentThumbnail';
+
+interface DuplicateReviewProps {
+  doc: StoredDocument;
+  check: DuplicateCheck;
+  image: string | null;
+  archive: StoredDocument[];
+  onDecide: (decision: NonNullable<DuplicateCheck['decision']>, duplicateOfId?: string) => void;
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ doc, check, image, archive, onDecide }) => {
+  const [index, setIndex] = useState(0);
+  const candidates = check.candidates.filter(c => archive.some(d => d.id === c.docId));
+  const candidate = candidates[Math.min(index, candidates.length - 1)];
+  const other = candidate && archive.find(d => d.id === candidate.docId);
+  if (!candidate || !other) return null;
+
+  const rows: { label: string; current: string; previous: string }[] = [
+    { label: 'Dealer', current: doc.dealerMatch?.canonicalName || doc.data.dealerName.value, previous: other.dealerMatch?.canonicalName || other.data.dealerName.value },
+    { label: 'Model', current: doc.data.modelName.value, previous: other.data.modelName.value },
+    { label: 'Asset Cost', current: `₹${Number(doc.data.assetCost.value).toLocaleString('en-IN')}`, previous: `₹${Number(other.data.assetCost.value).toLocaleString('en-IN')}` },
+    { label: 'Type', current: doc.data.documentType.value, previous: other.data.documentType.value },
+    { label: 'Processed', current: new Date(doc.timestamp).toLocaleString(), previous: new Date(other.timestamp).toLocaleString() },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-xl border-2 border-rose-200 dark:border-rose-900/50 overflow-hidden animate-in slide-in-from-right-4">
+      <div className="p-6 bg-rose-50/60 dark:bg-rose-900/20 border-b border-rose-100 dark:border-rose-900/40 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-bold text-rose-700 dark:text-rose-300 tracking-tight">Possible Duplicate</h3>
+          <p className="text-[10px] font-bold text-rose-500 uppercase tracking-widest">
+            Match {pct(candidate.score)} · image {candidate.imageSimilarity === null ? 'n/a' : pct(candidate.imageSimilarity)} · fields {pct(candidate.fieldSimilarity)}
+          </p>
+        </div>
+        {candidates.length > 1 && (
+          <div className="flex items-center gap-1 text-[10px] font-black text-rose-500">
+            <button onClick={() => setIndex((index - 1 + candidates.length) % candidates.length)} className="w-6 h-6 rounded-md bg-white dark:bg-slate-800">‹</button>
+            <span>{index + 1}/{candidates.length}</span>
+            <button onClick={() => setIndex((index + 1) % candidates.length)} className="w-6 h-6 rounded-md bg-white dark:bg-slate-800">›</button>
+          </div>
+        )}
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">This upload</p>
+            <div className="h-36 bg-slate-100 dark:bg-slate-800 rounded-2xl overflow-hidden">
+              {image && <img src={image} className="w-full h-full object-cover" alt="Current document" />}
+            </div>
+          </div>
+          <div>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">Archived</p>
+            <div className="h-36 bg-slate-100 dark:bg-slate-800 rounded-2xl overflow-hidden">
+              <DocumentThumbnail key={other.id} docId={other.id} className="w-full h-full object-cover" />
+            </div>
+          </div>
+        </div>
+        <table className="w-full text-xs">
+          <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+            {rows.map(row => {
+              const same = row.current === row.previous;
+              return (
+                <tr key={row.label}>
+                  <td className="py-1.5 text-[9px] font-black uppercase tracking-widest text-slate-400">{row.label}</td>
+                  <td className={`py-1.5 font-bold ${same ? 'text-slate-700 dark:text-slate-200' : 'text-amber-600'}`}>{row.current}</td>
+                  <td className={`py-1.5 font-bold ${same ? 'text-slate-700 dark:text-slate-200' : 'text-amber-600'}`}>{row.previous}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="flex gap-2">
+          <button onClick={() => onDecide('not-duplicate')} className="flex-1 py-2.5 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Not a Duplicate</button>
+          <button onClick={() => onDecide('confirmed', other.id)} className="flex-1 py-2.5 bg-rose-600 text-white rounded-xl font-bold text-xs">Confirm Duplicate</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,111 @@
+
+import React, { useEffect, useState } from 'react';
+import { StoredDocument } from '../types';
+import { DEFAULT_EXPORT_LAYOUT, ExportFormat, ExportLayout, downloadBlob, exportColumns, exportDocuments, loadExportLayout, saveExportLayout } from '../services/archiveExport';
+
+interface ExportPanelProps {
+  filteredDocs: StoredDocument[];
+  selectedDocs: StoredDocument[];
+  onClearSelection: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ filteredDocs, selectedDocs, onClearSelection, onClose }) => {
+  const [layout, setLayout] = useState<ExportLayout>(loadExportLayout);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<'filtered' | 'selected'>(selectedDocs.length ? 'selected' : 'filtered');
+
+  useEffect(() => {
+    saveExportLayout(layout);
+  }, [layout]);
+
+  useEffect(() => {
+    if (scope === 'selected' && selectedDocs.length === 0) setScope('filtered');
+  }, [scope, selectedDocs.length]);
+
+  const docs = scope === 'selected' ? selectedDocs : filteredDocs;
+  const columns = exportColumns(docs);
+  // Enabled columns first in their configured order, then the rest in catalogue order.
+  const orderedColumns = [
+    ...layout.columns.map(id => columns.find(c => c.id === id)!).filter(Boolean),
+    ...columns.filter(c => !layout.columns.includes(c.id)),
+  ];
+
+  const toggleColumn = (id: string) => setLayout(prev => ({
+    ...prev,
+    columns: prev.columns.includes(id) ? prev.columns.filter(c => c !== id) : [...prev.columns, id],
+  }));
+
+  const moveColumn = (id: string, offset: number) => setLayout(prev => {
+    const index = prev.columns.indexOf(id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= prev.columns.length) return prev;
+    const columns = [...prev.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    return { ...prev, columns };
+  });
+
+  const handleExport = () => {
+    const { blob, filename } = exportDocuments(docs, format, layout);
+    downloadBlob(blob, filename);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden animate-in slide-in-from-top-4 duration-300">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Export Documents</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">{docs.length} document{docs.length === 1 ? '' : 's'} · {layout.columns.length} columns{layout.includeHistory ? ' + correction history' : ''}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={scope} onChange={(e) => setScope(e.target.value as 'filtered' | 'selected')} className={inputClass}>
+            <option value="filtered">Current filter ({filteredDocs.length})</option>
+            <option value="selected" disabled={selectedDocs.length === 0}>Selected ({selectedDocs.length})</option>
+          </select>
+          <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClass}>
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="jsonl">JSON Lines</option>
+          </select>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={layout.includeHistory} onChange={(e) => setLayout(prev => ({ ...prev, includeHistory: e.target.checked }))} className="w-4 h-4 accent-indigo-600" />
+            Correction history
+          </label>
+          {selectedDocs.length > 0 && <button onClick={onClearSelection} className="px-3 py-2 text-slate-400 font-bold text-xs hover:text-slate-600">Clear Selection</button>}
+          <button onClick={onClose} className="px-3 py-2 text-slate-400 font-bold text-xs hover:text-slate-600">Close</button>
+          <button onClick={handleExport} disabled={docs.length === 0 || layout.columns.length === 0} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Download</button>
+        </div>
+      </div>
+
+      <div className="p-8">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Columns</span>
+          <button onClick={() => setLayout(DEFAULT_EXPORT_LAYOUT)} className="text-[10px] font-black uppercase text-slate-400 hover:text-rose-500">Reset Layout</button>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1 max-h-72 overflow-y-auto">
+          {orderedColumns.map(column => {
+            const enabled = layout.columns.includes(column.id);
+            return (
+              <div key={column.id} className="flex items-center justify-between gap-2 py-1 group">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-700 dark:text-slate-200 min-w-0">
+                  <input type="checkbox" checked={enabled} onChange={() => toggleColumn(column.id)} className="w-4 h-4 accent-indigo-600 shrink-0" />
+                  <span className={`truncate ${enabled ? '' : 'text-slate-400'}`}>{column.label}</span>
+                </label>
+                {enabled && (
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                    <button onClick={() => moveColumn(column.id, -1)} className="w-6 h-6 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-500 text-[10px] font-black" title="Move earlier">↑</button>
+                    <button onClick={() => moveColumn(column.id, 1)} className="w-6 h-6 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-500 text-[10px] font-black" title="Move later">↓</button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
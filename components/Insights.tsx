@@ -1,37 +1,118 @@
 
-import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
-
-const dataPerformance = [
-  { name: 'D_NAME', accuracy: 92, target: 90 },
-  { name: 'M_NAME', accuracy: 98, target: 95 },
-  { name: 'H_POWER', accuracy: 96, target: 95 },
-  { name: 'COST', accuracy: 97, target: 95 },
-  { name: 'SIG', accuracy: 88, target: 85 },
-  { name: 'STAMP', accuracy: 85, target: 85 },
-];
-
-const dataComposition = [
-  { name: 'Digital', value: 45, color: '#6366f1' },
-  { name: 'Scanned', value: 35, color: '#8b5cf6' },
-  { name: 'Script', value: 20, color: '#ec4899' },
-];
-
-const Insights: React.FC = () => {
-  const isDark = document.documentElement.classList.contains('dark');
+import React, { useMemo, useRef, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, LineChart, Line } from 'recharts';
+import { EvaluationRun, InvoiceData, StoredDocument } from '../types';
+import { EvaluationProgress } from '../services/evaluation';
+import { formatUsd } from '../services/spendLedger';
+import { ANALYTICS_FIELDS, DateRange, computeArchiveStats, confidenceHistogram, fieldConfidences, isInRange, productionDocuments } from '../services/analytics';
+
+interface InsightsProps {
+  history: StoredDocument[];
+  isDarkMode: boolean;
+  evaluationRuns: EvaluationRun[];
+  groundTruthCount: number;
+  isEvaluating: boolean;
+  evaluationProgress: EvaluationProgress | null;
+  onRunEvaluation: () => void;
+  onCancelEvaluation: () => void;
+  onImportLabeledSet: (file: File) => void;
+}
+
+const FIELD_CHART_META: Record<string, { name: string; target: number }> = {
+  documentType: { name: 'D_TYPE', target: 95 },
+  dealerName: { name: 'D_NAME', target: 90 },
+  modelName: { name: 'M_NAME', target: 95 },
+  horsePower: { name: 'H_POWER', target: 95 },
+  assetCost: { name: 'COST', target: 95 },
+  dealerSignature: { name: 'SIG', target: 85 },
+  dealerStamp: { name: 'STAMP', target: 85 },
+};
+
+// Fields added by a schema template have no preset; they are shown by key.
+const chartMeta = (field: string) => FIELD_CHART_META[field] || { name: field.toUpperCase(), target: 90 };
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const TYPE_COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#14b8a6', '#f59e0b', '#64748b'];
+
+type RangePreset = '7d' | '30d' | '90d' | 'all' | 'custom';
+
+const PRESET_DAYS: Partial<Record<RangePreset, number>> = { '7d': 7, '30d': 30, '90d': 90 };
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const Insights: React.FC<InsightsProps> = ({ history, isDarkMode: isDark, evaluationRuns, groundTruthCount, isEvaluating, evaluationProgress, onRunEvaluation, onCancelEvaluation, onImportLabeledSet }) => {
+  const labeledInputRef = useRef<HTMLInputElement>(null);
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [confidenceField, setConfidenceField] = useState<keyof InvoiceData | 'all'>('all');
+
+  const range = useMemo<DateRange>(() => {
+    if (preset === 'custom') {
+      return {
+        from: customFrom ? new Date(`${customFrom}T00:00:00`) : null,
+        to: customTo ? new Date(`${customTo}T23:59:59.999`) : null,
+      };
+    }
+    const days = PRESET_DAYS[preset];
+    return { from: days ? new Date(Date.now() - days * 86400000) : null, to: null };
+  }, [preset, customFrom, customTo]);
+
+  const archived = useMemo(() => productionDocuments(history), [history]);
+  const docs = useMemo(() => archived.filter(d => isInRange(d.timestamp, range)), [archived, range]);
+  const stats = useMemo(() => computeArchiveStats(docs), [docs]);
+  const confidenceBuckets = useMemo(() => confidenceHistogram(fieldConfidences(docs, confidenceField)), [docs, confidenceField]);
+  const runs = evaluationRuns.filter(run => isInRange(run.finishedAt, range));
+
+  const latestRun = runs[runs.length - 1];
+  const previousRun = runs[runs.length - 2];
+  const dataPerformance = latestRun ? [
+    ...latestRun.fieldMetrics.map(m => ({ ...chartMeta(m.field), accuracy: +(m.fuzzyAccuracy * 100).toFixed(1) })),
+    ...latestRun.markerMetrics.flatMap(m => m.f1 === null ? [] : [{ ...FIELD_CHART_META[m.field], accuracy: +(m.f1 * 100).toFixed(1) }]),
+  ] : [];
+  const delta = latestRun && previousRun ? (latestRun.overallAccuracy - previousRun.overallAccuracy) * 100 : null;
+  const runHistory = runs.map((run, i) => ({ name: `#${i + 1}`, accuracy: +(run.overallAccuracy * 100).toFixed(1), date: new Date(run.finishedAt).toLocaleDateString() }));
   const tickColor = isDark ? '#64748b' : '#94a3b8';
   const gridColor = isDark ? '#1e293b' : '#f1f5f9';
   const tooltipBg = isDark ? '#0f172a' : '#ffffff';
+  const tooltipStyle = { borderRadius: '16px', backgroundColor: tooltipBg, border: 'none', color: isDark ? '#f1f5f9' : '#1e293b' };
+  const cardClass = "bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800";
+  const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-indigo-500";
+  const emptyState = (message: string) => <div className="absolute inset-0 z-10 flex items-center justify-center text-slate-400 italic font-medium text-sm">{message}</div>;
 
   return (
     <div className="space-y-8 animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">{stats.documentCount} of {archived.length} archived documents in range</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={preset} onChange={(e) => setPreset(e.target.value as RangePreset)} className={inputClass}>
+            <option value="7d">Last 7 days</option>
+            <option value="30d">Last 30 days</option>
+            <option value="90d">Last 90 days</option>
+            <option value="all">All time</option>
+            <option value="custom">Custom range</option>
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input type="date" value={customFrom} max={customTo || undefined} onChange={(e) => setCustomFrom(e.target.value)} className={inputClass} />
+              <span className="text-xs text-slate-400 font-bold">to</span>
+              <input type="date" value={customTo} min={customFrom || undefined} onChange={(e) => setCustomTo(e.target.value)} className={inputClass} />
+            </>
+          )}
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <div className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 transition-all hover:shadow-xl group">
           <div className="flex items-center justify-between mb-8">
             <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Performance Delta</h3>
-            <span className="px-3 py-1 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400 rounded-full text-[10px] font-bold">+2.4% vs Baseline</span>
+            {delta !== null && (
+              <span className={`px-3 py-1 rounded-full text-[10px] font-bold ${delta >= 0 ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400' : 'bg-rose-50 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400'}`}>{delta >= 0 ? '+' : ''}{delta.toFixed(1)}% vs Previous Run</span>
+            )}
           </div>
-          <div className="h-64">
+          <div className="h-64 relative">
+            {!latestRun && emptyState('Run an evaluation to see per-field accuracy.')}
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={dataPerformance} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
@@ -60,38 +141,39 @@ const Insights: React.FC = () => {
         </div>
 
         <div className="bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 transition-all hover:shadow-xl">
-          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight mb-8">Data Source Variance</h3>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight mb-8">Document Type Mix</h3>
           <div className="h-64 flex items-center justify-center relative">
-             <ResponsiveContainer width="100%" height="100%">
+            {stats.documentCount === 0 && emptyState('No documents in this range.')}
+            <ResponsiveContainer width="100%" height="100%">
               <PieChart>
                 <Pie
-                  data={dataComposition}
+                  data={stats.typeMix}
                   cx="50%"
                   cy="50%"
                   innerRadius={75}
                   outerRadius={95}
                   paddingAngle={8}
-                  dataKey="value"
+                  dataKey="count"
                   stroke="none"
                 >
-                  {dataComposition.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  {stats.typeMix.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={TYPE_COLORS[index % TYPE_COLORS.length]} />
                   ))}
                 </Pie>
-                <Tooltip />
+                <Tooltip contentStyle={tooltipStyle} />
               </PieChart>
             </ResponsiveContainer>
             <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
-               <span className="text-3xl font-black text-slate-900 dark:text-slate-100 leading-none">100%</span>
-               <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mt-1">Verified</span>
+               <span className="text-3xl font-black text-slate-900 dark:text-slate-100 leading-none">{stats.documentCount}</span>
+               <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest mt-1">Documents</span>
             </div>
             <div className="ml-8 space-y-4">
-              {dataComposition.map(item => (
+              {stats.typeMix.map((item, index) => (
                 <div key={item.name} className="flex items-center gap-3">
-                  <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: item.color }}></div>
+                  <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: TYPE_COLORS[index % TYPE_COLORS.length] }}></div>
                   <div>
                     <span className="text-xs text-slate-500 dark:text-slate-400 font-bold block leading-none">{item.name}</span>
-                    <span className="text-sm font-black text-slate-800 dark:text-slate-100">{item.value}%</span>
+                    <span className="text-sm font-black text-slate-800 dark:text-slate-100">{((item.count / stats.documentCount) * 100).toFixed(0)}%</span>
                   </div>
                 </div>
               ))}
@@ -102,9 +184,9 @@ const Insights: React.FC = () => {
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {[
-          { label: 'Cloud Latency', val: '0.8s', sub: 'Flash-Optimized', color: 'from-blue-500 to-indigo-600', icon: 'M13 10V3L4 14h7v7l9-11h-7z' },
-          { label: 'Ops Savings', val: '92%', sub: 'vs Manual Entry', color: 'from-emerald-500 to-teal-600', icon: 'M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z' },
-          { label: 'Total Accuracy', val: '96.8%', sub: '500+ Test Samples', color: 'from-indigo-500 to-violet-600', icon: 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z' }
+          { label: 'Latency p50', val: stats.documentCount ? formatMs(stats.latencyP50) : '—', sub: stats.documentCount ? `p95 ${formatMs(stats.latencyP95)}` : 'No documents in range', color: 'from-blue-500 to-indigo-600', icon: 'M13 10V3L4 14h7v7l9-11h-7z' },
+          { label: 'Total Cost', val: formatUsd(stats.totalCostUsd), sub: `${formatUsd(stats.costPerDocumentUsd)} per document`, color: 'from-emerald-500 to-teal-600', icon: 'M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z' },
+          { label: 'Total Accuracy', val: latestRun ? pct(latestRun.overallAccuracy) : '—', sub: latestRun ? `${latestRun.sampleCount} Test Samples` : 'No evaluation yet', color: 'from-indigo-500 to-violet-600', icon: 'M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z' }
         ].map((stat, i) => (
           <div key={i} className="relative group overflow-hidden bg-white dark:bg-slate-900 p-8 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 hover:shadow-2xl transition-all">
              <div className={`absolute top-0 right-0 w-32 h-32 bg-gradient-to-br ${stat.color} opacity-[0.03] rounded-bl-[100px] transition-all group-hover:scale-110`}></div>
@@ -123,6 +205,144 @@ const Insights: React.FC = () => {
           </div>
         ))}
       </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight mb-8">Latency Distribution</h3>
+          <div className="h-56 relative">
+            {stats.documentCount === 0 && emptyState('No documents in this range.')}
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stats.latencyBuckets} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontWeight: 600 }} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontSize: 10 }} />
+                <Tooltip cursor={{ fill: isDark ? '#1e293b' : '#f8fafc' }} contentStyle={tooltipStyle} />
+                <Bar dataKey="count" fill="#3b82f6" radius={[6, 6, 0, 0]} barSize={28} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight mb-8">Volume Over Time</h3>
+          <div className="h-56 relative">
+            {stats.documentCount === 0 && emptyState('No documents in this range.')}
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stats.volumeByDay} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="date" fontSize={10} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontWeight: 600 }} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontSize: 10 }} />
+                <Tooltip cursor={{ fill: isDark ? '#1e293b' : '#f8fafc' }} contentStyle={tooltipStyle} />
+                <Bar dataKey="count" fill="#8b5cf6" radius={[6, 6, 0, 0]} maxBarSize={32} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight mb-8">Correction Rate by Field</h3>
+          <div className="h-56 relative">
+            {stats.documentCount === 0 && emptyState('No documents in this range.')}
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stats.correctionRates.map(r => ({ name: FIELD_CHART_META[r.field].name, rate: +(r.rate * 100).toFixed(1), corrected: r.corrected }))} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontWeight: 600 }} />
+                <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontSize: 10 }} />
+                <Tooltip cursor={{ fill: isDark ? '#1e293b' : '#f8fafc' }} contentStyle={tooltipStyle} formatter={(value, _, item) => [`${value}% (${item.payload.corrected} docs)`, 'Corrected']} />
+                <Bar dataKey="rate" fill="#f59e0b" radius={[6, 6, 0, 0]} barSize={28} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <div className="flex items-center justify-between mb-8">
+            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Confidence Histogram</h3>
+            <select value={confidenceField} onChange={(e) => setConfidenceField(e.target.value as keyof InvoiceData | 'all')} className={inputClass}>
+              <option value="all">All fields</option>
+              {ANALYTICS_FIELDS.map(f => <option key={f} value={f}>{FIELD_CHART_META[f].name}</option>)}
+            </select>
+          </div>
+          <div className="h-56 relative">
+            {stats.documentCount === 0 && emptyState('No documents in this range.')}
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={confidenceBuckets} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontWeight: 600 }} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontSize: 10 }} />
+                <Tooltip cursor={{ fill: isDark ? '#1e293b' : '#f8fafc' }} contentStyle={tooltipStyle} />
+                <Bar dataKey="count" fill="#14b8a6" radius={[6, 6, 0, 0]} barSize={20} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className={cardClass}>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Ground-Truth Evaluation</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">{groundTruthCount} labeled documents · {runs.length} runs in range</p>
+          </div>
+          <div className="flex gap-3">
+            <input type="file" ref={labeledInputRef} className="hidden" accept=".json,application/json" onChange={(e) => { const file = e.target.files?.[0]; if (file) onImportLabeledSet(file); e.target.value = ''; }} />
+            <button onClick={() => labeledInputRef.current?.click()} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Import Labeled Set</button>
+            <button onClick={onRunEvaluation} disabled={isEvaluating || groundTruthCount === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">
+              {isEvaluating && evaluationProgress ? `Evaluating ${evaluationProgress.done}/${evaluationProgress.total}...` : 'Run Evaluation'}
+            </button>
+            {isEvaluating && <button onClick={onCancelEvaluation} className="px-4 py-2 text-rose-500 font-bold text-xs">Cancel</button>}
+          </div>
+        </div>
+
+        {latestRun ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={runHistory} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridColor} />
+                  <XAxis dataKey="name" fontSize={10} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontWeight: 600 }} />
+                  <YAxis domain={[0, 100]} axisLine={false} tickLine={false} tick={{ fill: tickColor, fontSize: 10 }} />
+                  <Tooltip contentStyle={tooltipStyle} labelFormatter={(_, payload) => payload?.[0]?.payload.date || ''} />
+                  <Line type="monotone" dataKey="accuracy" stroke="#6366f1" strokeWidth={3} dot={{ r: 4, fill: '#6366f1' }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <th className="pb-3">Field</th>
+                    <th className="pb-3">Exact</th>
+                    <th className="pb-3">Fuzzy</th>
+                    <th className="pb-3">Error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50 dark:divide-slate-800 text-slate-700 dark:text-slate-300 font-bold">
+                  {latestRun.fieldMetrics.map(m => (
+                    <tr key={m.field}>
+                      <td className="py-2">{chartMeta(m.field).name}</td>
+                      <td className="py-2">{pct(m.exactAccuracy)}</td>
+                      <td className="py-2">{pct(m.fuzzyAccuracy)}</td>
+                      <td className="py-2 text-slate-400">{m.meanAbsoluteError !== undefined ? `MAE ${m.meanAbsoluteError.toFixed(1)} · ${pct(m.meanRelativeError || 0)}` : '—'}</td>
+                    </tr>
+                  ))}
+                  {latestRun.markerMetrics.map(m => (
+                    <tr key={m.field}>
+                      <td className="py-2">{FIELD_CHART_META[m.field].name}</td>
+                      <td className="py-2">P {m.precision === null ? '—' : pct(m.precision)}</td>
+                      <td className="py-2">R {m.recall === null ? '—' : pct(m.recall)}</td>
+                      <td className="py-2 text-slate-400">{m.meanIoU !== null ? `IoU ${m.meanIoU.toFixed(2)} (${m.boxCount})` : 'no boxes'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {latestRun.failedCount > 0 && <p className="mt-3 text-[10px] font-bold text-rose-500">{latestRun.failedCount} documents failed to extract and were excluded.</p>}
+            </div>
+          </div>
+        ) : (
+          <p className="py-10 text-center text-slate-400 italic font-medium">{evaluationRuns.length ? 'No evaluation runs in this range.' : 'Mark corrected documents as ground truth in the Processor, or import a labeled JSON set, then run an evaluation.'}</p>
+        )}
+      </div>
     </div>
   );
 };
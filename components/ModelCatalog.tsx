@@ -0,0 +1,132 @@
+
+import React, { useState, useRef } from 'react';
+import { TractorModel } from '../types';
+import { mergeModels, modelDisplayName, parseModelCsv } from '../services/modelCatalog';
+import { splitAliases } from '../services/dealerRegistry';
+
+interface ModelCatalogProps {
+  models: TractorModel[];
+  onChange: (models: TractorModel[]) => void;
+  onRevalidateArchive: () => void;
+  flaggedCount: number;
+}
+
+interface ModelDraft {
+  manufacturer: string;
+  model: string;
+  aliases: string;
+  hpMin: string;
+  hpMax: string;
+  priceMin: string;
+  priceMax: string;
+}
+
+const emptyDraft: ModelDraft = { manufacturer: '', model: '', aliases: '', hpMin: '', hpMax: '', priceMin: '', priceMax: '' };
+
+const toDraft = (m: TractorModel): ModelDraft => ({
+  manufacturer: m.manufacturer,
+  model: m.model,
+  aliases: m.aliases.join('; '),
+  hpMin: String(m.hpMin || ''),
+  hpMax: String(m.hpMax || ''),
+  priceMin: String(m.priceMin || ''),
+  priceMax: String(m.priceMax || ''),
+});
+
+const ModelCatalog: React.FC<ModelCatalogProps> = ({ models, onChange, onRevalidateArchive, flaggedCount }) => {
+  const [draft, setDraft] = useState<ModelDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveDraft = () => {
+    if (!draft.model.trim()) return;
+    const hpMin = Number(draft.hpMin) || 0;
+    const priceMin = Number(draft.priceMin) || 0;
+    const model: TractorModel = {
+      id: editingId || crypto.randomUUID(),
+      manufacturer: draft.manufacturer.trim(),
+      model: draft.model.trim(),
+      aliases: splitAliases(draft.aliases),
+      hpMin,
+      hpMax: Number(draft.hpMax) || hpMin,
+      priceMin,
+      priceMax: Number(draft.priceMax) || priceMin,
+    };
+    onChange(editingId ? models.map(m => m.id === editingId ? model : m) : [...models, model]);
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseModelCsv(await file.text());
+      onChange(mergeModels(models, imported));
+      setImportMessage(`Imported ${imported.length} model${imported.length === 1 ? '' : 's'} from ${file.name}.`);
+    } catch (e: any) {
+      setImportMessage(`Import failed: ${e.message || 'unreadable file'}`);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Tractor Model Catalog</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">{models.length} models · {flaggedCount} archived documents with model/HP/price flags</p>
+        </div>
+        <div className="flex gap-3">
+          <input type="file" ref={fileInputRef} className="hidden" accept=".csv,text/csv" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }} />
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Import CSV</button>
+          <button onClick={onRevalidateArchive} disabled={models.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Re-validate Archive</button>
+        </div>
+      </div>
+      {importMessage && <p className="px-8 pt-4 text-xs font-bold text-indigo-600 dark:text-indigo-400">{importMessage}</p>}
+
+      <div className="p-8 grid grid-cols-2 md:grid-cols-4 gap-3 border-b border-slate-100 dark:border-slate-800">
+        <input className={inputClass} placeholder="Manufacturer" value={draft.manufacturer} onChange={(e) => setDraft({ ...draft, manufacturer: e.target.value })} />
+        <input className={inputClass} placeholder="Model" value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} />
+        <input className={`${inputClass} md:col-span-2`} placeholder="Aliases (separate with ;)" value={draft.aliases} onChange={(e) => setDraft({ ...draft, aliases: e.target.value })} />
+        <input className={inputClass} type="number" placeholder="HP min" value={draft.hpMin} onChange={(e) => setDraft({ ...draft, hpMin: e.target.value })} />
+        <input className={inputClass} type="number" placeholder="HP max" value={draft.hpMax} onChange={(e) => setDraft({ ...draft, hpMax: e.target.value })} />
+        <input className={inputClass} type="number" placeholder="Price min (₹)" value={draft.priceMin} onChange={(e) => setDraft({ ...draft, priceMin: e.target.value })} />
+        <input className={inputClass} type="number" placeholder="Price max (₹)" value={draft.priceMax} onChange={(e) => setDraft({ ...draft, priceMax: e.target.value })} />
+        <div className="col-span-2 md:col-span-4 flex justify-end gap-2">
+          {editingId && <button onClick={() => { setEditingId(null); setDraft(emptyDraft); }} className="px-3 py-2 text-slate-400 font-bold text-xs">Cancel</button>}
+          <button onClick={saveDraft} disabled={!draft.model.trim()} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">{editingId ? 'Save Model' : 'Add Model'}</button>
+        </div>
+      </div>
+
+      <div className="p-8 max-h-[420px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <th className="pb-3">Model</th>
+              <th className="pb-3">HP Range</th>
+              <th className="pb-3">Price Band</th>
+              <th className="pb-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+            {models.map(m => (
+              <tr key={m.id} className="group">
+                <td className="py-3 font-bold text-slate-800 dark:text-slate-100">{modelDisplayName(m)}{m.aliases.length > 0 && <span className="block text-[10px] font-medium text-slate-500">aka {m.aliases.join(', ')}</span>}</td>
+                <td className="py-3 text-slate-600 dark:text-slate-300">{m.hpMin === m.hpMax ? m.hpMin : `${m.hpMin}–${m.hpMax}`} HP</td>
+                <td className="py-3 text-slate-600 dark:text-slate-300">₹{m.priceMin.toLocaleString('en-IN')} – ₹{m.priceMax.toLocaleString('en-IN')}</td>
+                <td className="py-3 text-right space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => { setEditingId(m.id); setDraft(toDraft(m)); }} className="text-[10px] font-black uppercase text-indigo-600 dark:text-indigo-400">Edit</button>
+                  <button onClick={() => onChange(models.filter(x => x.id !== m.id))} className="text-[10px] font-black uppercase text-rose-500">Delete</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {models.length === 0 && <p className="py-10 text-center text-slate-400 italic font-medium">No models yet. Import a CSV with manufacturer, model, hp_min, hp_max, price_min and price_max columns.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ModelCatalog;
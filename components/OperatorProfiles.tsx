@@ -0,0 +1,68 @@
+
+import React, { useEffect, useState } from 'react';
+import { OperatorProfile, OperatorRole } from '../types';
+import { ROLE_LABELS, validateProfiles } from '../services/operatorProfiles';
+
+interface OperatorProfilesProps {
+  profiles: OperatorProfile[];
+  onChange: (profiles: OperatorProfile[]) => void;
+  activeOperator: OperatorProfile;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-60";
+
+const ROLE_HINTS: Record<OperatorRole, string> = {
+  maker: 'Corrects fields and links documents',
+  checker: 'Approves or rejects documents others corrected',
+  admin: 'Both, plus managing operators',
+};
+
+const OperatorProfiles: React.FC<OperatorProfilesProps> = ({ profiles, onChange, activeOperator }) => {
+  const [draft, setDraft] = useState(profiles);
+  const isAdmin = activeOperator.role === 'admin';
+  const errors = validateProfiles(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(profiles);
+
+  useEffect(() => setDraft(profiles), [profiles]);
+
+  const update = (id: string, patch: Partial<OperatorProfile>) => setDraft(draft.map(p => p.id === id ? { ...p, ...patch } : p));
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Operators</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">A corrected document must be approved by a different checker. {isAdmin ? '' : 'Only admins can change operators.'}</p>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-3">
+            <button onClick={() => setDraft([...draft, { id: crypto.randomUUID(), name: '', role: 'maker' }])} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Add Operator</button>
+            <button onClick={() => onChange(draft)} disabled={!isDirty || errors.length > 0} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Save</button>
+          </div>
+        )}
+      </div>
+      <div className="divide-y divide-slate-50 dark:divide-slate-800">
+        {draft.map(profile => (
+          <div key={profile.id} className="px-8 py-4 flex flex-wrap items-center gap-3">
+            <input className={`${inputClass} w-48`} placeholder="Name" value={profile.name} disabled={!isAdmin} onChange={(e) => update(profile.id, { name: e.target.value })} />
+            <select className={inputClass} value={profile.role} disabled={!isAdmin} onChange={(e) => update(profile.id, { role: e.target.value as OperatorRole })}>
+              {(Object.keys(ROLE_LABELS) as OperatorRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+            <span className="text-[10px] font-bold text-slate-400">{ROLE_HINTS[profile.role]}</span>
+            {profile.id === activeOperator.id && <span className="px-2 py-0.5 rounded-md text-[9px] font-black uppercase bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600">Current</span>}
+            {isAdmin && profile.id !== activeOperator.id && (
+              <button onClick={() => setDraft(draft.filter(p => p.id !== profile.id))} className="text-[10px] font-black uppercase text-rose-500 ml-auto">Remove</button>
+            )}
+          </div>
+        ))}
+      </div>
+      {errors.length > 0 && (
+        <ul className="px-8 pb-6 text-[10px] font-bold text-rose-600 space-y-0.5">
+          {errors.map(e => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OperatorProfiles;
@@ -0,0 +1,115 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FULL_FRAME, PreprocessResult, Quad, preprocessImage } from '../services/imagePreprocessing';
+
+interface PreprocessPreviewProps {
+  original: string;
+  onAccept: (result: PreprocessResult) => void;
+  onUseOriginal: () => void;
+  onCancel: () => void;
+}
+
+const formatKb = (bytes: number) => `${Math.round(bytes / 1024).toLocaleString()} KB`;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const PreprocessPreview: React.FC<PreprocessPreviewProps> = ({ original, onAccept, onUseOriginal, onCancel }) => {
+  const [autoCrop, setAutoCrop] = useState(true);
+  const [enhance, setEnhance] = useState(true);
+  const [manualQuad, setManualQuad] = useState<Quad | null>(null);
+  const [draftQuad, setDraftQuad] = useState<Quad>(FULL_FRAME);
+  const [result, setResult] = useState<PreprocessResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    setError(null);
+    preprocessImage(original, { quad: manualQuad || undefined, autoCrop, enhance })
+      .then(next => {
+        if (cancelled) return;
+        setResult(next);
+        setDraftQuad(next.quad || FULL_FRAME);
+      })
+      .catch(err => !cancelled && setError(err.message || 'Preprocessing failed.'));
+    return () => { cancelled = true; };
+  }, [original, manualQuad, autoCrop, enhance]);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const corner = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (corner === null || !frame) return;
+    const point = { x: clamp01((e.clientX - frame.left) / frame.width), y: clamp01((e.clientY - frame.top) / frame.height) };
+    setDraftQuad(prev => prev.map((p, i) => i === corner ? point : p) as Quad);
+  };
+
+  // The crop is only re-run once a handle is let go.
+  const endDrag = () => {
+    if (dragRef.current === null) return;
+    dragRef.current = null;
+    setManualQuad(draftQuad);
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col p-6 gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 tracking-tight">Prepare Image</h3>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Drag the corners to adjust the crop</p>
+        </div>
+        <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest text-slate-500">
+          <label className="flex items-center gap-1"><input type="checkbox" checked={autoCrop} disabled={!!manualQuad} onChange={(e) => setAutoCrop(e.target.checked)} /> Auto crop</label>
+          <label className="flex items-center gap-1"><input type="checkbox" checked={enhance} onChange={(e) => setEnhance(e.target.checked)} /> Enhance</label>
+          {manualQuad && <button onClick={() => setManualQuad(null)} className="text-indigo-600">Reset crop</button>}
+        </div>
+      </div>
+
+      <div className="flex-1 grid grid-cols-2 gap-4 min-h-0">
+        <div className="flex flex-col min-h-0">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">Before · {formatKb(result?.summary.originalBytes ?? 0)}</span>
+          <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden">
+            <div ref={frameRef} className="relative select-none touch-none" onPointerMove={handlePointerMove} onPointerUp={endDrag} onPointerCancel={endDrag}>
+              <img src={original} draggable={false} className="block max-w-full max-h-[400px]" alt="Original" />
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                <polygon points={draftQuad.map(p => `${p.x},${p.y}`).join(' ')} fill="rgba(99,102,241,0.12)" stroke="#6366f1" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              </svg>
+              {draftQuad.map((p, i) => (
+                <div
+                  key={i}
+                  onPointerDown={(e) => { dragRef.current = i; (e.currentTarget.parentElement as HTMLElement).setPointerCapture(e.pointerId); }}
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-white border-2 border-indigo-600 shadow cursor-move"
+                  style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex flex-col min-h-0">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">After{result ? ` · ${formatKb(result.summary.bytes)}` : ''}</span>
+          <div className="flex-1 min-h-0 flex items-center justify-center bg-slate-100 dark:bg-slate-800 rounded-xl overflow-hidden">
+            {result ? (
+              <img src={result.image} className="block max-w-full max-h-[400px]" alt="Processed" />
+            ) : error ? (
+              <p className="text-xs font-bold text-rose-500 p-4 text-center">{error}</p>
+            ) : (
+              <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin" />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-[10px] font-bold text-slate-500 truncate">{result?.summary.steps.join(' · ')}</p>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-400 font-bold text-xs">Cancel [Esc]</button>
+          <button onClick={onUseOriginal} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Use Original</button>
+          <button onClick={() => result && onAccept(result)} disabled={!result} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Extract</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessPreview;
@@ -0,0 +1,110 @@
+
+import React, { useMemo, useState } from 'react';
+import { StoredDocument } from '../types';
+import { buildRelationGraph, documentLabel, relationsOf } from '../services/relationGraph';
+
+interface RelationGraphProps {
+  rootId: string;
+  archive: StoredDocument[];
+  onOpen: (doc: StoredDocument) => void;
+  onClose: () => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 460;
+const RING_SPACING = 140;
+
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, ' $1').trim();
+
+const RelationGraph: React.FC<RelationGraphProps> = ({ rootId, archive, onOpen, onClose }) => {
+  const [focusId, setFocusId] = useState(rootId);
+  const graph = useMemo(() => buildRelationGraph(focusId, archive), [focusId, archive]);
+
+  // Focused document in the centre, each further hop on its own ring.
+  const positions = useMemo(() => {
+    const rings = new Map<number, string[]>();
+    graph.nodes.forEach(n => rings.set(n.depth, [...(rings.get(n.depth) || []), n.id]));
+    const result = new Map<string, { x: number; y: number }>();
+    rings.forEach((ids, depth) => ids.forEach((id, i) => {
+      const angle = (i / ids.length) * Math.PI * 2 - Math.PI / 2 + depth * 0.4;
+      const radius = depth * RING_SPACING;
+      result.set(id, { x: WIDTH / 2 + Math.cos(angle) * radius * 1.3, y: HEIGHT / 2 + Math.sin(angle) * radius * 0.75 });
+    }));
+    return result;
+  }, [graph]);
+
+  const focusDoc = graph.nodes.find(n => n.id === focusId)?.doc;
+  const focusRelations = focusDoc ? relationsOf(focusDoc, archive) : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-md" onClick={onClose} />
+      <div className="relative bg-white dark:bg-slate-900 w-full max-w-5xl max-h-[85vh] rounded-[3rem] shadow-2xl flex flex-col overflow-hidden animate-in slide-in-from-bottom-8 duration-500 border border-slate-200 dark:border-slate-800">
+        <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900 dark:text-slate-100 tracking-tight">Relation Graph</h2>
+            <p className="text-slate-500 text-sm font-medium">{graph.nodes.length} connected document{graph.nodes.length === 1 ? '' : 's'} · click a node to re-centre</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-slate-50 dark:bg-slate-800 flex items-center justify-center text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+          <div className="w-full md:w-2/3 p-4 bg-slate-50/50 dark:bg-slate-950/20">
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-full">
+              {graph.edges.map(edge => {
+                const from = positions.get(edge.from);
+                const to = positions.get(edge.to);
+                if (!from || !to) return null;
+                return (
+                  <line key={edge.id} x1={from.x} y1={from.y} x2={to.x} y2={to.y} className="stroke-indigo-300 dark:stroke-indigo-700" strokeWidth={2}>
+                    <title>{`${fieldLabel(edge.sourceField)} → ${fieldLabel(edge.targetField)}`}</title>
+                  </line>
+                );
+              })}
+              {graph.nodes.map(node => {
+                const pos = positions.get(node.id)!;
+                const isInvoice = node.doc.data.documentType.value === 'Invoice';
+                const isFocus = node.id === focusId;
+                return (
+                  <g key={node.id} transform={`translate(${pos.x}, ${pos.y})`} onClick={() => setFocusId(node.id)} className="cursor-pointer">
+                    <circle r={isFocus ? 26 : 18} className={`${isInvoice ? 'fill-indigo-600' : 'fill-amber-500'} ${isFocus ? 'stroke-white dark:stroke-slate-900' : ''}`} strokeWidth={4} />
+                    <text y={5} textAnchor="middle" className="fill-white text-[10px] font-black pointer-events-none">{isInvoice ? 'INV' : 'QTN'}</text>
+                    <text y={isFocus ? 42 : 34} textAnchor="middle" className="fill-slate-600 dark:fill-slate-300 text-[10px] font-bold pointer-events-none">{documentLabel(node.doc).slice(0, 22)}</text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+          <div className="w-full md:w-1/3 p-8 overflow-y-auto border-l border-slate-100 dark:border-slate-800 space-y-4">
+            {focusDoc && (
+              <>
+                <div>
+                  <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{focusDoc.data.documentType.value} · {new Date(focusDoc.timestamp).toLocaleDateString()}</span>
+                  <h3 className="font-bold text-slate-800 dark:text-slate-100 truncate">{documentLabel(focusDoc)}</h3>
+                  <p className="text-xs text-slate-500 truncate">{focusDoc.data.modelName.value}</p>
+                </div>
+                <div className="space-y-2">
+                  {focusRelations.map(rel => (
+                    <div key={rel.relation.id} className={`p-3 rounded-xl border text-[10px] ${!rel.otherDoc ? 'border-rose-200 bg-rose-50 dark:bg-rose-900/20 dark:border-rose-800' : 'border-slate-100 dark:border-slate-800'}`}>
+                      <p className="font-black uppercase tracking-widest text-slate-400">{fieldLabel(rel.localField)} {rel.direction === 'outgoing' ? '→' : '←'} {fieldLabel(rel.otherField)}</p>
+                      {rel.otherDoc ? (
+                        <button onClick={() => setFocusId(rel.otherDocId)} className="font-bold text-indigo-600 dark:text-indigo-400 truncate max-w-full text-left">{documentLabel(rel.otherDoc)}: {String(rel.otherValue ?? '—')}</button>
+                      ) : (
+                        <p className="font-bold text-rose-600">Linked document was deleted</p>
+                      )}
+                    </div>
+                  ))}
+                  {focusRelations.length === 0 && <p className="text-xs italic text-slate-400">No links.</p>}
+                </div>
+                <button onClick={() => onOpen(focusDoc)} className="w-full py-2.5 bg-indigo-600 text-white rounded-xl font-bold text-xs">Open Document</button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RelationGraph;
@@ -0,0 +1,87 @@
+
+import React from 'react';
+import { StoredDocument } from '../types';
+import { FieldDifference, FieldValue, RelationSuggestion, documentDate } from '../services/relationSuggestions';
+
+interface RelationSuggestionsProps {
+  doc: StoredDocument;
+  suggestions: RelationSuggestion[];
+  archive: StoredDocument[];
+  onAccept: (suggestion: RelationSuggestion) => void;
+  onDismiss: (docId: string) => void;
+}
+
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, ' $1').trim();
+
+const formatValue = (field: string, value: FieldValue) =>
+  field === 'assetCost' && typeof value === 'number' ? `₹${value.toLocaleString('en-IN')}` : String(value ?? '—');
+
+// Reads as "quoted → invoiced" whichever side the current document is on.
+const DifferenceRow: React.FC<{ diff: FieldDifference; currentIsInvoice: boolean }> = ({ diff, currentIsInvoice }) => {
+  const [quoted, invoiced] = currentIsInvoice ? [diff.targetValue, diff.sourceValue] : [diff.sourceValue, diff.targetValue];
+  const delta = diff.delta !== undefined ? (currentIsInvoice ? -diff.delta : diff.delta) : undefined;
+  const base = typeof quoted === 'number' ? quoted : 0;
+  return (
+    <div className="flex items-center justify-between gap-2 text-[10px]">
+      <span className="font-black uppercase tracking-widest text-slate-400">{fieldLabel(diff.field)}</span>
+      <span className="font-bold text-slate-600 dark:text-slate-300 truncate">
+        {formatValue(diff.field, quoted)} <span className="text-slate-400">→</span> {formatValue(diff.field, invoiced)}
+        {delta !== undefined && (
+          <span className={`ml-1 font-black ${delta > 0 ? 'text-rose-500' : 'text-emerald-600'}`}>
+            ({delta > 0 ? '+' : ''}{diff.field === 'assetCost' ? `₹${delta.toLocaleString('en-IN')}` : delta}{base ? `, ${((delta / base) * 100).toFixed(1)}%` : ''})
+          </span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+const RelationSuggestions: React.FC<RelationSuggestionsProps> = ({ doc, suggestions, archive, onAccept, onDismiss }) => {
+  if (!suggestions.length) return null;
+  const currentIsInvoice = doc.data.documentType.value === 'Invoice';
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-indigo-100 dark:border-indigo-900/50 overflow-hidden animate-in slide-in-from-right-4">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-800">
+        <h3 className="font-bold text-slate-800 dark:text-slate-100 tracking-tight">Suggested {currentIsInvoice ? 'Quotation' : 'Invoice'}</h3>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Same dealer and model found in the archive</p>
+      </div>
+      <div className="divide-y divide-slate-50 dark:divide-slate-800">
+        {suggestions.map(suggestion => {
+          const target = archive.find(d => d.id === suggestion.docId);
+          if (!target) return null;
+          const targetDate = documentDate(target);
+          return (
+            <div key={suggestion.docId} className="p-6 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{target.dealerMatch?.canonicalName || target.data.dealerName.value}</p>
+                  <p className="text-[10px] font-bold text-slate-500 truncate">{target.data.modelName.value}{targetDate ? ` · ${targetDate.toLocaleDateString()}` : ''}{suggestion.daysApart !== null ? ` (${Math.round(suggestion.daysApart)} days apart)` : ''}</p>
+                </div>
+                <span className="px-2 py-0.5 rounded-md text-[10px] font-black bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 shrink-0">{Math.round(suggestion.score * 100)}%</span>
+              </div>
+              {suggestion.differences.length > 0 ? (
+                <div className="p-3 bg-amber-50/60 dark:bg-amber-900/10 rounded-xl space-y-1">
+                  {suggestion.differences.map(diff => <DifferenceRow key={diff.field} diff={diff} currentIsInvoice={currentIsInvoice} />)}
+                </div>
+              ) : (
+                <p className="text-[10px] font-bold text-emerald-600">All linked fields agree.</p>
+              )}
+              <div className="flex flex-wrap gap-1">
+                {suggestion.links.map(link => (
+                  <span key={link.sourceField} className="px-2 py-0.5 rounded-md text-[9px] font-black uppercase bg-slate-100 dark:bg-slate-800 text-slate-500">{fieldLabel(link.sourceField)}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onDismiss(suggestion.docId)} className="px-3 py-2 text-slate-400 font-bold text-xs hover:text-slate-600">Dismiss</button>
+                <button onClick={() => onAccept(suggestion)} className="flex-1 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs">Link {suggestion.links.length} Fields</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RelationSuggestions;
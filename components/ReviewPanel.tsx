@@ -0,0 +1,178 @@
+
+import React, { useEffect, useState } from 'react';
+import { ReviewThresholds, SchemaField, SchemaTemplate, StoredDocument } from '../types';
+import { thresholdFor, unresolvedFields } from '../services/reviewQueue';
+import { parseFieldInput } from '../services/schemaTemplates';
+
+interface ReviewPanelProps {
+  doc: StoredDocument;
+  template: SchemaTemplate;
+  thresholds: ReviewThresholds;
+  position: number;
+  total: number;
+  activeField: string | null;
+  // Why the current operator may not edit fields or decide, if they may not.
+  editDenial: string | null;
+  decisionDenial: string | null;
+  onActivateField: (key: string) => void;
+  onConfirm: (key: string) => void;
+  onCorrect: (key: string, value: any) => void;
+  onDecide: (status: 'approved' | 'rejected', note: string) => void;
+  onNavigate: (offset: number) => void;
+}
+
+const inputClass = "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const REVIEW_SHORTCUTS: [string, string][] = [
+  ['J / K', 'Next / previous field'],
+  ['Enter', 'Confirm field'],
+  ['E', 'Edit field'],
+  ['A', 'Approve document'],
+  ['R, R', 'Reject document'],
+  ['N / P', 'Next / previous document'],
+];
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ doc, template, thresholds, position, total, activeField, editDenial, decisionDenial, onActivateField, onConfirm, onCorrect, onDecide, onNavigate }) => {
+  const review = doc.review!;
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftValue, setDraftValue] = useState('');
+  const [note, setNote] = useState('');
+  // Rejecting takes a second press of R (or of the button), so a stray key can't reject.
+  const [isConfirmingReject, setIsConfirmingReject] = useState(false);
+  const open = unresolvedFields(review);
+  const fields: SchemaField[] = review.flaggedFields.map(key => template.fields.find(f => f.key === key) || { key, label: key, type: 'string', description: '' });
+  const canApprove = open.length === 0 && !decisionDenial;
+
+  useEffect(() => {
+    setEditing(null);
+    setNote('');
+    setIsConfirmingReject(false);
+  }, [doc.id]);
+
+  const reject = () => {
+    if (decisionDenial) return;
+    if (!isConfirmingReject) {
+      setIsConfirmingReject(true);
+      return;
+    }
+    setIsConfirmingReject(false);
+    onDecide('rejected', note);
+  };
+
+  const startEdit = (key: string) => {
+    setDraftValue(String(doc.data[key]?.value ?? ''));
+    setEditing(key);
+  };
+
+  const saveEdit = () => {
+    const field = fields.find(f => f.key === editing);
+    if (!field) return;
+    onCorrect(field.key, parseFieldInput(field, draftValue));
+    setEditing(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable || e.altKey || e.ctrlKey || e.metaKey) return;
+      const key = e.key.toLowerCase();
+      if (isConfirmingReject && key !== 'r') {
+        setIsConfirmingReject(false);
+        if (key === 'escape') {
+          e.preventDefault();
+          return;
+        }
+      }
+      const index = activeField ? review.flaggedFields.indexOf(activeField) : -1;
+      const step = (offset: number) => {
+        if (!review.flaggedFields.length) return;
+        const next = (index + offset + review.flaggedFields.length) % review.flaggedFields.length;
+        onActivateField(review.flaggedFields[next]);
+      };
+      switch (key) {
+        case 'j': case 'arrowdown': step(1); break;
+        case 'k': case 'arrowup': step(-1); break;
+        case 'enter': if (activeField) onConfirm(activeField); step(1); break;
+        case 'e': if (activeField && !editDenial) { e.preventDefault(); startEdit(activeField); } break;
+        case 'a': if (canApprove) onDecide('approved', note); break;
+        case 'r': reject(); break;
+        case 'n': case 'arrowright': onNavigate(1); break;
+        case 'p': case 'arrowleft': onNavigate(-1); break;
+        default: return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [doc, activeField, editDenial, decisionDenial, canApprove, note, isConfirmingReject, onActivateField, onConfirm, onDecide, onNavigate]);
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-xl border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 bg-slate-50/50 dark:bg-slate-800/30 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center gap-4">
+        <div className="min-w-0">
+          <h3 className="font-bold text-slate-800 dark:text-slate-100 text-lg tracking-tight truncate">{doc.dealerMatch?.canonicalName || doc.data.dealerName.value || 'Untitled'}</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">{doc.data.documentType.value} · {new Date(doc.timestamp).toLocaleString()}</p>
+        </div>
+        <div className="flex items-center gap-1 text-[10px] font-black text-slate-500 shrink-0">
+          <button onClick={() => onNavigate(-1)} className="w-7 h-7 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700">‹</button>
+          <span className="px-2">{position + 1} / {total}</span>
+          <button onClick={() => onNavigate(1)} className="w-7 h-7 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700">›</button>
+        </div>
+      </div>
+      <div className="p-8 space-y-6">
+        {review.reasons.length > 0 && (
+          <ul className="p-4 bg-amber-50/60 dark:bg-amber-900/10 rounded-2xl text-[11px] font-bold text-amber-700 dark:text-amber-400 space-y-1">
+            {review.reasons.map(reason => <li key={reason}>• {reason}</li>)}
+          </ul>
+        )}
+        <div className="space-y-2">
+          {fields.map(field => {
+            const extracted = doc.data[field.key];
+            const resolved = review.resolvedFields.includes(field.key);
+            const active = activeField === field.key;
+            return (
+              <div key={field.key} onClick={() => onActivateField(field.key)} className={`p-4 rounded-2xl border cursor-pointer transition-all ${active ? 'border-indigo-400 ring-2 ring-indigo-500/20' : 'border-slate-100 dark:border-slate-800'} ${resolved ? 'bg-emerald-50/50 dark:bg-emerald-900/10' : 'bg-slate-50 dark:bg-slate-800/50'}`}>
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-[10px] font-bold uppercase tracking-tight text-slate-400">{field.label}</span>
+                  <span className={`text-[10px] font-bold ${resolved ? 'text-emerald-600' : 'text-amber-500'}`}>
+                    {resolved ? 'Confirmed' : `${Math.round((extracted?.confidence ?? 0) * 100)}% < ${Math.round(thresholdFor(thresholds, field.key) * 100)}%`}
+                  </span>
+                </div>
+                {editing === field.key ? (
+                  <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                    <input autoFocus className={`${inputClass} flex-1`} value={draftValue} onChange={(e) => setDraftValue(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') saveEdit(); if (e.key === 'Escape') setEditing(null); }} />
+                    <button onClick={saveEdit} className="px-3 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs">Save</button>
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center gap-2">
+                    {extracted?.notFound && !extracted.isEdited ? (
+                      <p className="text-sm font-bold italic text-slate-400">Not found</p>
+                    ) : (
+                      <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{String(extracted?.value ?? '') || '---'}{field.unit && extracted?.value !== '' ? <span className="text-slate-400 ml-1">{field.unit}</span> : null}</p>
+                    )}
+                    <div className="flex gap-1 shrink-0">
+                      {!editDenial && <button onClick={(e) => { e.stopPropagation(); startEdit(field.key); }} className="px-2 py-1 text-[10px] font-black uppercase text-slate-500 hover:text-indigo-600">Edit</button>}
+                      {!resolved && <button onClick={(e) => { e.stopPropagation(); onConfirm(field.key); }} className="px-2 py-1 rounded-lg text-[10px] font-black uppercase bg-emerald-600 text-white">Confirm</button>}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <input className={`${inputClass} w-full`} placeholder="Review note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+        {decisionDenial && <p className="text-[10px] font-bold text-rose-500">{decisionDenial}</p>}
+        {isConfirmingReject && <p className="text-[10px] font-bold text-rose-500">Reject this document? Press R again or click Confirm Reject; Esc cancels.</p>}
+        <div className="flex gap-2">
+          <button onClick={reject} disabled={!!decisionDenial} className={`disabled:opacity-40 flex-1 py-3 rounded-xl font-bold text-xs border ${isConfirmingReject ? 'bg-rose-600 text-white border-rose-600' : 'bg-white dark:bg-slate-800 text-rose-600 border-rose-200 dark:border-rose-900/50'}`}>{isConfirmingReject ? 'Confirm Reject' : 'Reject'}</button>
+          <button onClick={() => onDecide('approved', note)} disabled={!canApprove} title={open.length ? 'Confirm or correct every flagged field first' : undefined} className="flex-1 py-3 bg-emerald-600 text-white rounded-xl font-bold text-xs disabled:opacity-40">Approve{open.length ? ` (${open.length} open)` : ''}</button>
+        </div>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest">
+          {REVIEW_SHORTCUTS.map(([keys, action]) => <span key={keys}><span className="code-font text-slate-500">{keys}</span> {action}</span>)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -0,0 +1,55 @@
+
+import React from 'react';
+import { ReviewThresholds, SchemaTemplate } from '../types';
+import { DEFAULT_THRESHOLDS } from '../services/reviewQueue';
+
+interface ReviewSettingsProps {
+  thresholds: ReviewThresholds;
+  onChange: (thresholds: ReviewThresholds) => void;
+  template: SchemaTemplate;
+  unreviewedCount: number;
+  onQueueUnreviewed: () => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const toPercent = (value: number) => Math.round(value * 100);
+
+const ReviewSettings: React.FC<ReviewSettingsProps> = ({ thresholds, onChange, template, unreviewedCount, onQueueUnreviewed }) => {
+  const setFieldThreshold = (key: string, raw: string) => {
+    const { [key]: _, ...rest } = thresholds.fields;
+    onChange({ ...thresholds, fields: raw.trim() === '' ? rest : { ...rest, [key]: Number(raw) / 100 } });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Review Queue</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">Documents with a field below its threshold or a failed rule wait for human review.</p>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => onChange(DEFAULT_THRESHOLDS)} className="px-4 py-2 text-slate-400 font-bold text-xs hover:text-rose-500">Reset Defaults</button>
+          <button onClick={onQueueUnreviewed} disabled={unreviewedCount === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Check {unreviewedCount} Unreviewed</button>
+        </div>
+      </div>
+      <div className="p-8 space-y-4">
+        <label className="flex items-center gap-3 text-xs font-bold text-slate-600 dark:text-slate-300">
+          Default threshold
+          <input className={`${inputClass} w-20`} type="number" min={0} max={100} step={5} value={toPercent(thresholds.defaultThreshold)} onChange={(e) => onChange({ ...thresholds, defaultThreshold: Number(e.target.value) / 100 })} />
+          %
+        </label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {template.fields.map(field => (
+            <label key={field.key} className="flex flex-col gap-1">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 truncate">{field.label}</span>
+              <input className={inputClass} type="number" min={0} max={100} step={5} placeholder={`${toPercent(thresholds.defaultThreshold)} (default)`} value={thresholds.fields[field.key] !== undefined ? toPercent(thresholds.fields[field.key]) : ''} onChange={(e) => setFieldThreshold(field.key, e.target.value)} />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSettings;
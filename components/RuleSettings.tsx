@@ -0,0 +1,149 @@
+
+import React, { useState } from 'react';
+import { RuleCondition, RuleSeverity, ValidationRule } from '../types';
+import { DEFAULT_RULES, RULE_FIELDS, describeCondition } from '../services/ruleEngine';
+
+interface RuleSettingsProps {
+  rules: ValidationRule[];
+  onChange: (rules: ValidationRule[]) => void;
+  onRevalidateArchive: () => void;
+}
+
+const severityStyles: Record<RuleSeverity, string> = {
+  error: 'bg-rose-50 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400',
+  warning: 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400',
+  info: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+};
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const parseEqualsValue = (raw: string): string | number | boolean => {
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  return raw.trim() !== '' && !isNaN(Number(raw)) ? Number(raw) : raw;
+};
+
+const optionalNumber = (raw: string): number | undefined => raw.trim() === '' ? undefined : Number(raw);
+
+const ConditionEditor: React.FC<{ condition: RuleCondition; onChange: (c: RuleCondition) => void }> = ({ condition, onChange }) => {
+  const changeKind = (kind: RuleCondition['kind']) => {
+    const field = condition.field;
+    if (kind === 'present') onChange({ kind, field });
+    if (kind === 'equals') onChange({ kind, field, value: true });
+    if (kind === 'range') onChange({ kind, field, min: 0 });
+    if (kind === 'confidence') onChange({ kind, field, min: 0.8 });
+    if (kind === 'pattern') onChange({ kind, field, pattern: '.*' });
+  };
+  return (
+    <div className="flex flex-wrap gap-2">
+      <select className={inputClass} value={condition.field} onChange={(e) => onChange({ ...condition, field: e.target.value as RuleCondition['field'] })}>
+        {RULE_FIELDS.map(f => <option key={f} value={f}>{f}</option>)}
+      </select>
+      <select className={inputClass} value={condition.kind} onChange={(e) => changeKind(e.target.value as RuleCondition['kind'])}>
+        <option value="present">is present</option>
+        <option value="equals">equals</option>
+        <option value="range">in range</option>
+        <option value="confidence">confidence at least</option>
+        <option value="pattern">matches pattern</option>
+      </select>
+      {condition.kind === 'equals' && <input className={`${inputClass} w-32`} value={String(condition.value)} onChange={(e) => onChange({ ...condition, value: parseEqualsValue(e.target.value) })} />}
+      {condition.kind === 'range' && (
+        <>
+          <input className={`${inputClass} w-28`} type="number" placeholder="min" value={condition.min ?? ''} onChange={(e) => onChange({ ...condition, min: optionalNumber(e.target.value) })} />
+          <input className={`${inputClass} w-28`} type="number" placeholder="max" value={condition.max ?? ''} onChange={(e) => onChange({ ...condition, max: optionalNumber(e.target.value) })} />
+        </>
+      )}
+      {condition.kind === 'confidence' && <input className={`${inputClass} w-24`} type="number" step="0.05" min={0} max={1} value={condition.min} onChange={(e) => onChange({ ...condition, min: Number(e.target.value) })} />}
+      {condition.kind === 'pattern' && <input className={`${inputClass} w-40 font-mono`} placeholder="regular expression" value={condition.pattern} onChange={(e) => onChange({ ...condition, pattern: e.target.value })} />}
+    </div>
+  );
+};
+
+const newRule = (): ValidationRule => ({
+  id: crypto.randomUUID(),
+  name: 'New rule',
+  enabled: true,
+  severity: 'warning',
+  assert: { kind: 'present', field: 'dealerName' },
+  message: 'Rule failed.',
+});
+
+const RuleSettings: React.FC<RuleSettingsProps> = ({ rules, onChange, onRevalidateArchive }) => {
+  const [editing, setEditing] = useState<ValidationRule | null>(null);
+
+  const updateRule = (rule: ValidationRule) => onChange(rules.map(r => r.id === rule.id ? rule : r));
+
+  const saveEditing = () => {
+    if (!editing) return;
+    onChange(rules.some(r => r.id === editing.id) ? rules.map(r => r.id === editing.id ? editing : r) : [...rules, editing]);
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Business Rules</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">Every processed document is checked against the enabled rules.</p>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => onChange(DEFAULT_RULES)} className="px-4 py-2 text-slate-400 font-bold text-xs hover:text-rose-500">Reset Defaults</button>
+          <button onClick={() => setEditing(newRule())} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">Add Rule</button>
+          <button onClick={onRevalidateArchive} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs">Re-validate Archive</button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="p-8 bg-indigo-50/40 dark:bg-indigo-900/10 border-b border-slate-100 dark:border-slate-800 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input className={inputClass} placeholder="Rule name" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} />
+            <select className={inputClass} value={editing.severity} onChange={(e) => setEditing({ ...editing, severity: e.target.value as RuleSeverity })}>
+              <option value="error">Error</option>
+              <option value="warning">Warning</option>
+              <option value="info">Info</option>
+            </select>
+            <input className={inputClass} placeholder="Document types (comma separated, blank = all)" value={(editing.documentTypes || []).join(', ')} onChange={(e) => setEditing({ ...editing, documentTypes: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })} />
+          </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <input type="checkbox" checked={!!editing.when} onChange={(e) => setEditing({ ...editing, when: e.target.checked ? { kind: 'present', field: 'dealerStamp' } : undefined })} />
+              Only when
+            </label>
+            {editing.when && <ConditionEditor condition={editing.when} onChange={(when) => setEditing({ ...editing, when })} />}
+          </div>
+          <div className="space-y-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Require</span>
+            <ConditionEditor condition={editing.assert} onChange={(assert) => setEditing({ ...editing, assert })} />
+          </div>
+          <input className={`${inputClass} w-full`} placeholder="Message shown when the rule fails" value={editing.message} onChange={(e) => setEditing({ ...editing, message: e.target.value })} />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setEditing(null)} className="px-3 py-2 text-slate-400 font-bold text-xs">Cancel</button>
+            <button onClick={saveEditing} disabled={!editing.name.trim()} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Save Rule</button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-50 dark:divide-slate-800">
+        {rules.map(rule => (
+          <div key={rule.id} className="px-8 py-4 flex items-center justify-between gap-4 group">
+            <div className="flex items-center gap-4 min-w-0">
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule({ ...rule, enabled: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+              <div className="min-w-0">
+                <p className={`text-sm font-bold truncate ${rule.enabled ? 'text-slate-800 dark:text-slate-100' : 'text-slate-400 line-through'}`}>{rule.name}</p>
+                <p className="text-[10px] text-slate-500 truncate code-font">
+                  {rule.documentTypes?.length ? `[${rule.documentTypes.join(', ')}] ` : ''}{rule.when ? `if ${describeCondition(rule.when)} then ` : ''}{describeCondition(rule.assert)}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase ${severityStyles[rule.severity]}`}>{rule.severity}</span>
+              <button onClick={() => setEditing(rule)} className="text-[10px] font-black uppercase text-indigo-600 dark:text-indigo-400 opacity-0 group-hover:opacity-100">Edit</button>
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-[10px] font-black uppercase text-rose-500 opacity-0 group-hover:opacity-100">Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RuleSettings;
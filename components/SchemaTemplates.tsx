@@ -0,0 +1,135 @@
+
+import React, { useState } from 'react';
+import { SchemaField, SchemaFieldType, SchemaTemplate } from '../types';
+import { FIELD_PRESETS, findTemplate, latestTemplates, newTemplateDraft, publishTemplate, validateTemplate } from '../services/schemaTemplates';
+
+interface SchemaTemplatesProps {
+  templates: SchemaTemplate[];
+  onChange: (templates: SchemaTemplate[]) => void;
+  activeTemplateId: string;
+  onActivate: (id: string) => void;
+}
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const FIELD_TYPES: SchemaFieldType[] = ['string', 'number', 'currency', 'date', 'boolean'];
+
+const optionalNumber = (raw: string): number | undefined => raw.trim() === '' ? undefined : Number(raw);
+
+const FieldEditor: React.FC<{ field: SchemaField; onChange: (f: SchemaField) => void; onRemove: () => void }> = ({ field, onChange, onRemove }) => {
+  const validation = field.validation || {};
+  const setValidation = (patch: Partial<NonNullable<SchemaField['validation']>>) => onChange({ ...field, validation: { ...validation, ...patch } });
+  return (
+    <div className="p-4 rounded-2xl border border-slate-100 dark:border-slate-800 space-y-2">
+      <div className="flex flex-wrap gap-2 items-center">
+        <input className={`${inputClass} w-36 font-mono`} placeholder="key" value={field.key} disabled={field.builtIn} onChange={(e) => onChange({ ...field, key: e.target.value.trim() })} />
+        <input className={`${inputClass} w-40`} placeholder="Label" value={field.label} onChange={(e) => onChange({ ...field, label: e.target.value })} />
+        <select className={inputClass} value={field.type} disabled={field.builtIn} onChange={(e) => onChange({ ...field, type: e.target.value as SchemaFieldType })}>
+          {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <input className={`${inputClass} w-16`} placeholder="unit" value={field.unit || ''} onChange={(e) => onChange({ ...field, unit: e.target.value || undefined })} />
+        {field.builtIn ? (
+          <span className="px-2 py-0.5 rounded-md text-[9px] font-black uppercase bg-slate-100 dark:bg-slate-800 text-slate-400">Built-in</span>
+        ) : (
+          <button onClick={onRemove} className="text-[10px] font-black uppercase text-rose-500 ml-auto">Remove</button>
+        )}
+      </div>
+      <input className={`${inputClass} w-full`} placeholder="Description given to the model" value={field.description} onChange={(e) => onChange({ ...field, description: e.target.value })} />
+      <div className="flex flex-wrap gap-3 items-center text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <label className="flex items-center gap-1"><input type="checkbox" checked={!!validation.required} onChange={(e) => setValidation({ required: e.target.checked || undefined })} /> Required</label>
+        {field.type === 'boolean' && (
+          <label className="flex items-center gap-1"><input type="checkbox" checked={!!field.locate} onChange={(e) => onChange({ ...field, locate: e.target.checked || undefined })} /> Presence mark</label>
+        )}
+        {(field.type === 'string' || field.type === 'date') && (
+          <input className={`${inputClass} w-56 font-mono normal-case tracking-normal`} placeholder="pattern (regular expression)" value={validation.pattern || ''} onChange={(e) => setValidation({ pattern: e.target.value || undefined })} />
+        )}
+        {(field.type === 'number' || field.type === 'currency') && (
+          <>
+            <input className={`${inputClass} w-24`} type="number" placeholder="min" value={validation.min ?? ''} onChange={(e) => setValidation({ min: optionalNumber(e.target.value) })} />
+            <input className={`${inputClass} w-24`} type="number" placeholder="max" value={validation.max ?? ''} onChange={(e) => setValidation({ max: optionalNumber(e.target.value) })} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SchemaTemplates: React.FC<SchemaTemplatesProps> = ({ templates, onChange, activeTemplateId, onActivate }) => {
+  const [draft, setDraft] = useState<SchemaTemplate | null>(null);
+  const latest = latestTemplates(templates);
+  const active = findTemplate(templates, { id: activeTemplateId });
+  const errors = draft ? validateTemplate(draft) : [];
+
+  const updateField = (index: number, field: SchemaField) => draft && setDraft({ ...draft, fields: draft.fields.map((f, i) => i === index ? field : f) });
+
+  const addField = (presetKey: string) => {
+    if (!draft) return;
+    const preset = FIELD_PRESETS.find(p => p.key === presetKey);
+    const field: SchemaField = preset ? { ...preset } : { key: `field${draft.fields.length + 1}`, label: 'New Field', type: 'string', description: '' };
+    setDraft({ ...draft, fields: [...draft.fields, field] });
+  };
+
+  const publish = () => {
+    if (!draft || errors.length) return;
+    onChange(publishTemplate(templates, draft));
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Extraction Schemas</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">The active template defines the fields requested from the model and shown for review.</p>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => setDraft(newTemplateDraft(active, `${active.name} (copy)`))} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs">New Template</button>
+          <button onClick={() => setDraft({ ...active, fields: active.fields.map(f => ({ ...f })) })} className="px-4 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs">Edit Active</button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="p-8 bg-indigo-50/40 dark:bg-indigo-900/10 border-b border-slate-100 dark:border-slate-800 space-y-4">
+          <input className={`${inputClass} w-full md:w-1/2`} placeholder="Template name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <textarea className={`${inputClass} w-full h-28 code-font`} placeholder="Instructions added to the prompt (classification rules, conventions)" value={draft.instructions} onChange={(e) => setDraft({ ...draft, instructions: e.target.value })} />
+          <div className="space-y-2">
+            {draft.fields.map((field, i) => (
+              <FieldEditor key={i} field={field} onChange={(f) => updateField(i, f)} onRemove={() => setDraft({ ...draft, fields: draft.fields.filter((_, j) => j !== i) })} />
+            ))}
+          </div>
+          <select className={inputClass} value="" onChange={(e) => addField(e.target.value)}>
+            <option value="" disabled>Add field…</option>
+            {FIELD_PRESETS.filter(p => !draft.fields.some(f => f.key === p.key)).map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+            <option value="custom">Custom field</option>
+          </select>
+          {errors.length > 0 && (
+            <ul className="text-[10px] font-bold text-rose-600 space-y-0.5">
+              {errors.map(e => <li key={e}>{e}</li>)}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-2 text-slate-400 font-bold text-xs">Cancel</button>
+            <button onClick={publish} disabled={errors.length > 0} className="px-6 py-2 bg-indigo-600 text-white rounded-xl font-bold text-xs disabled:opacity-50">Publish Version</button>
+          </div>
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-50 dark:divide-slate-800">
+        {latest.map(template => (
+          <div key={template.id} className="px-8 py-4 flex items-center justify-between gap-4">
+            <label className="flex items-center gap-4 min-w-0 cursor-pointer">
+              <input type="radio" name="active-template" checked={template.id === active.id} onChange={() => onActivate(template.id)} className="w-4 h-4 accent-indigo-600" />
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-800 dark:text-slate-100 truncate">{template.name}</p>
+                <p className="text-[10px] text-slate-500 truncate code-font">{template.fields.map(f => f.key).join(', ')}</p>
+              </div>
+            </label>
+            <span className="text-[10px] font-black uppercase text-slate-400 shrink-0">v{template.version} · {new Date(template.updatedAt).toLocaleDateString()}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaTemplates;
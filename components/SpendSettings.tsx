@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import { ModelPrice, SpendBudget, SpendEntry, SpendKind } from '../types';
+import { BudgetStatus, DEFAULT_PRICES, formatUsd } from '../services/spendLedger';
+
+interface SpendSettingsProps {
+  prices: ModelPrice[];
+  onPricesChange: (prices: ModelPrice[]) => void;
+  budget: SpendBudget;
+  onBudgetChange: (budget: SpendBudget) => void;
+  budgetStatus: BudgetStatus;
+  ledger: SpendEntry[];
+  onClearLedger: () => void;
+}
+
+const SPEND_KINDS: SpendKind[] = ['extraction', 'chat', 'generation'];
+
+const statusStyles: Record<BudgetStatus['state'], string> = {
+  ok: 'bg-indigo-600',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-rose-500',
+};
+
+const inputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const SpendSettings: React.FC<SpendSettingsProps> = ({ prices, onPricesChange, budget, onBudgetChange, budgetStatus, ledger, onClearLedger }) => {
+  const [newModel, setNewModel] = useState('');
+  const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+
+  const updatePrice = (model: string, patch: Partial<ModelPrice>) => onPricesChange(prices.map(p => p.model === model ? { ...p, ...patch } : p));
+
+  const addModel = () => {
+    const model = newModel.trim();
+    if (!model || prices.some(p => p.model === model)) return;
+    onPricesChange([...prices, { model, inputPerMillion: 0, outputPerMillion: 0, imageOutputPerMillion: 0 }]);
+    setNewModel('');
+  };
+
+  const totals = SPEND_KINDS.map(kind => {
+    const entries = ledger.filter(e => e.kind === kind);
+    return {
+      kind,
+      calls: entries.length,
+      tokens: entries.reduce((sum, e) => sum + e.usage.promptTokens + e.usage.outputTokens, 0),
+      costUsd: entries.reduce((sum, e) => sum + e.usage.costUsd, 0),
+    };
+  });
+  const progress = budgetStatus.limitUsd ? Math.min(1, budgetStatus.spentUsd / budgetStatus.limitUsd) : 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] shadow-sm border border-slate-100 dark:border-slate-800 overflow-hidden">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">Spend & Budget</h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-medium">Every live API call is priced from its token usage and booked here.</p>
+        </div>
+        {isConfirmingClear ? (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500 dark:text-slate-400 font-medium">Delete every entry and reset the budget to $0 spent?</span>
+            <button onClick={() => { onClearLedger(); setIsConfirmingClear(false); }} className="px-4 py-2 bg-rose-600 text-white rounded-xl font-bold text-xs">Clear</button>
+            <button onClick={() => setIsConfirmingClear(false)} className="px-4 py-2 text-slate-400 font-bold text-xs">Cancel</button>
+          </div>
+        ) : (
+          <button onClick={() => setIsConfirmingClear(true)} disabled={ledger.length === 0} className="px-4 py-2 text-slate-400 font-bold text-xs hover:text-rose-500 disabled:opacity-50">Clear Ledger</button>
+        )}
+      </div>
+
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Budget (USD)</span>
+            <input className={`${inputClass} w-32`} type="number" min={0} step="0.5" placeholder="No limit" value={budget.limitUsd ?? ''} onChange={(e) => onBudgetChange({ ...budget, limitUsd: e.target.value.trim() === '' ? null : Math.max(0, Number(e.target.value)) })} />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Period</span>
+            <select className={inputClass} value={budget.period} onChange={(e) => onBudgetChange({ ...budget, period: e.target.value as SpendBudget['period'] })}>
+              <option value="month">Calendar month</option>
+              <option value="all">All time</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400">Warn at</span>
+            <select className={inputClass} value={budget.warnRatio} onChange={(e) => onBudgetChange({ ...budget, warnRatio: Number(e.target.value) })}>
+              {[0.5, 0.75, 0.8, 0.9].map(r => <option key={r} value={r}>{r * 100}%</option>)}
+            </select>
+          </label>
+        </div>
+        <div>
+          <div className="flex justify-between text-xs font-bold text-slate-600 dark:text-slate-300 mb-2">
+            <span>{formatUsd(budgetStatus.spentUsd)} spent {budget.period === 'month' ? 'this month' : 'in total'}</span>
+            <span className={budgetStatus.state === 'exceeded' ? 'text-rose-500' : budgetStatus.state === 'warning' ? 'text-amber-500' : ''}>
+              {budgetStatus.limitUsd === null ? 'No limit' : budgetStatus.state === 'exceeded' ? 'Blocked — budget reached' : `of ${formatUsd(budgetStatus.limitUsd)}`}
+            </span>
+          </div>
+          <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+            <div className={`h-full ${statusStyles[budgetStatus.state]} transition-all`} style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          {totals.map(t => (
+            <div key={t.kind} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t.kind}</p>
+              <p className="text-lg font-black text-slate-800 dark:text-slate-100">{formatUsd(t.costUsd)}</p>
+              <p className="text-[10px] font-bold text-slate-500">{t.calls} calls · {t.tokens.toLocaleString()} tokens</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-8 space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Price per million tokens (USD)</span>
+          <button onClick={() => onPricesChange(DEFAULT_PRICES)} className="text-[10px] font-black uppercase text-slate-400 hover:text-rose-500">Reset Prices</button>
+        </div>
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <th className="pb-3">Model</th>
+              <th className="pb-3">Input</th>
+              <th className="pb-3">Output</th>
+              <th className="pb-3">Image Output</th>
+              <th className="pb-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+            {prices.map(p => (
+              <tr key={p.model} className="group">
+                <td className="py-2 font-bold text-slate-800 dark:text-slate-100 code-font">{p.model}</td>
+                <td className="py-2"><input className={`${inputClass} w-24`} type="number" min={0} step="0.01" value={p.inputPerMillion} onChange={(e) => updatePrice(p.model, { inputPerMillion: Number(e.target.value) })} /></td>
+                <td className="py-2"><input className={`${inputClass} w-24`} type="number" min={0} step="0.01" value={p.outputPerMillion} onChange={(e) => updatePrice(p.model, { outputPerMillion: Number(e.target.value) })} /></td>
+                <td className="py-2"><input className={`${inputClass} w-24`} type="number" min={0} step="0.01" value={p.imageOutputPerMillion} onChange={(e) => updatePrice(p.model, { imageOutputPerMillion: Number(e.target.value) })} /></td>
+                <td className="py-2 text-right"><button onClick={() => onPricesChange(prices.filter(x => x.model !== p.model))} className="text-[10px] font-black uppercase text-rose-500 opacity-0 group-hover:opacity-100">Delete</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex gap-2">
+          <input className={`${inputClass} flex-grow`} placeholder="Model id, e.g. gemini-3-flash-preview" value={newModel} onChange={(e) => setNewModel(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addModel()} />
+          <button onClick={addModel} disabled={!newModel.trim()} className="px-4 py-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl font-bold text-xs disabled:opacity-50">Add Model</button>
+        </div>
+
+        {ledger.length > 0 && (
+          <div className="pt-4 max-h-64 overflow-y-auto divide-y divide-slate-50 dark:divide-slate-800">
+            {ledger.slice(-20).reverse().map(e => (
+              <div key={e.id} className="py-2 flex items-center justify-between gap-4 text-xs">
+                <span className="font-bold text-slate-700 dark:text-slate-200">{e.kind} <span className="text-slate-400 code-font">{e.usage.model}</span></span>
+                <span className="text-slate-500">{new Date(e.timestamp).toLocaleString()}</span>
+                <span className="text-slate-500">{e.usage.promptTokens.toLocaleString()} in · {e.usage.outputTokens.toLocaleString()} out{e.usage.imageInputTokens + e.usage.imageOutputTokens > 0 ? ` · ${(e.usage.imageInputTokens + e.usage.imageOutputTokens).toLocaleString()} image` : ''}</span>
+                <span className="font-black text-slate-800 dark:text-slate-100">{formatUsd(e.usage.costUsd)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpendSettings;
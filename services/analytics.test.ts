@@ -0,0 +1,31 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DocumentData, StoredDocument } from '../types';
+import { computeArchiveStats } from './analytics';
+
+const doc = (timestamp: string): StoredDocument => ({
+  id: timestamp,
+  timestamp,
+  pageCount: 1,
+  data: {} as DocumentData,
+  metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+});
+
+describe('computeArchiveStats', () => {
+  // CI runs in UTC, where local and UTC days coincide; IST makes them differ.
+  const originalTz = process.env.TZ;
+  beforeAll(() => { process.env.TZ = 'Asia/Kolkata'; });
+  afterAll(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  });
+
+  it('buckets documents by local day', () => {
+    // 23:00 IST on 31 January and 00:30 IST on 1 February; both fall on 31 January in UTC.
+    const lateEvening = '2026-01-31T17:30:00.000Z';
+    const afterMidnight = '2026-01-31T19:00:00.000Z';
+    expect(computeArchiveStats([doc(lateEvening), doc(afterMidnight)]).volumeByDay).toEqual([
+      { date: '2026-01-31', count: 1 },
+      { date: '2026-02-01', count: 1 },
+    ]);
+  });
+});
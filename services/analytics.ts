@@ -0,0 +1,106 @@
+
+import { InvoiceData, StoredDocument } from "../types";
+
+export interface DateRange {
+  from: Date | null;
+  to: Date | null;
+}
+
+export const ANALYTICS_FIELDS: (keyof InvoiceData)[] = ['documentType', 'dealerName', 'modelName', 'horsePower', 'assetCost', 'dealerSignature', 'dealerStamp'];
+
+// Documents imported from a labeled set only exist to be evaluated, so usage figures leave them out.
+export const productionDocuments = (docs: StoredDocument[]): StoredDocument[] => docs.filter(d => d.groundTruth?.source !== 'import');
+
+export const isInRange = (timestamp: string, range: DateRange): boolean => {
+  const t = new Date(timestamp).getTime();
+  return (!range.from || t >= range.from.getTime()) && (!range.to || t <= range.to.getTime());
+};
+
+// Nearest-rank percentile; `p` in [0, 100].
+export const percentile = (values: number[], p: number): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+};
+
+export interface Bucket {
+  name: string;
+  count: number;
+}
+
+const LATENCY_BUCKETS_MS = [500, 1000, 2000, 4000, 8000, 16000];
+
+export const latencyHistogram = (latencies: number[]): Bucket[] => {
+  const buckets = LATENCY_BUCKETS_MS.map((limit, i) => ({
+    name: `<${limit >= 1000 ? `${limit / 1000}s` : `${limit}ms`}`,
+    count: latencies.filter(l => l < limit && l >= (LATENCY_BUCKETS_MS[i - 1] || 0)).length,
+  }));
+  buckets.push({ name: `≥${LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1] / 1000}s`, count: latencies.filter(l => l >= LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1]).length });
+  return buckets;
+};
+
+export const confidenceHistogram = (confidences: number[]): Bucket[] =>
+  Array.from({ length: 10 }, (_, i) => ({
+    name: `${i * 10}%`,
+    // The last bucket is closed so a confidence of exactly 1.0 is counted.
+    count: confidences.filter(c => c >= i / 10 && (i === 9 ? c <= 1 : c < (i + 1) / 10)).length,
+  }));
+
+export interface ArchiveStats {
+  documentCount: number;
+  latencyP50: number;
+  latencyP95: number;
+  latencyBuckets: Bucket[];
+  totalCostUsd: number;
+  costPerDocumentUsd: number;
+  typeMix: Bucket[];
+  correctionRates: { field: keyof InvoiceData; rate: number; corrected: number }[];
+  volumeByDay: { date: string; count: number }[];
+}
+
+// "YYYY-MM-DD" in the viewer's time zone; timestamps are stored in UTC.
+const localDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const computeArchiveStats = (docs: StoredDocument[]): ArchiveStats => {
+  const latencies = docs.map(d => d.metrics.latencyMs).filter(l => l > 0);
+  const totalCostUsd = docs.reduce((sum, d) => sum + (d.metrics.costEstimateUsd || 0), 0);
+
+  const typeCounts = new Map<string, number>();
+  docs.forEach(d => {
+    const type = d.data.documentType?.value || 'Unknown';
+    typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+  });
+
+  const correctionRates = ANALYTICS_FIELDS.map(field => {
+    const corrected = docs.filter(d => d.data[field]?.isEdited || (d.data[field]?.history?.length || 0) > 0).length;
+    return { field, corrected, rate: docs.length ? corrected / docs.length : 0 };
+  });
+
+  const dayCounts = new Map<string, number>();
+  docs.forEach(d => {
+    const day = localDayKey(new Date(d.timestamp));
+    dayCounts.set(day, (dayCounts.get(day) || 0) + 1);
+  });
+
+  return {
+    documentCount: docs.length,
+    latencyP50: percentile(latencies, 50),
+    latencyP95: percentile(latencies, 95),
+    latencyBuckets: latencyHistogram(latencies),
+    totalCostUsd,
+    costPerDocumentUsd: docs.length ? totalCostUsd / docs.length : 0,
+    typeMix: Array.from(typeCounts, ([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count),
+    correctionRates,
+    volumeByDay: Array.from(dayCounts, ([date, count]) => ({ date, count })).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+// Confidences are read from the model's original value, so operator edits
+// (which pin confidence to 1.0) don't skew the histogram.
+export const fieldConfidences = (docs: StoredDocument[], field: keyof InvoiceData | 'all'): number[] =>
+  docs.flatMap(d => (field === 'all' ? ANALYTICS_FIELDS : [field])
+    .map(f => d.data[f])
+    .filter(f => f && !f.isEdited && typeof f.confidence === 'number')
+    .map(f => f.confidence));
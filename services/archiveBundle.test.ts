@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { StoredDocument } from '../types';
+import { applyImportPlan, createArchiveBundle, parseArchiveBundle } from './archiveBundle';
+
+const PAGE = 'data:image/jpeg;base64,cGFnZQ==';
+const ORIGINAL = 'data:image/jpeg;base64,b3JpZ2luYWw=';
+
+const field = (value: unknown) => ({ value, confidence: 0.9 });
+
+const record = (id: string, preprocessed: boolean): StoredDocument => ({
+  id,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  pageCount: 1,
+  data: {
+    documentType: field('Invoice'), dealerName: field('Shree Ganesh Tractors'), modelName: field('Swaraj 744 FE'),
+    horsePower: field(48), assetCost: field(725000), dealerSignature: field(true), dealerStamp: field(true),
+  } as StoredDocument['data'],
+  metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+  ...(preprocessed ? { preprocessing: { steps: ['Deskewed'], originalBytes: 10, bytes: 5, width: 100, height: 100 } } : {}),
+});
+
+describe('archive bundles', () => {
+  it('carries preprocessing originals through export and import', async () => {
+    const bundle = await createArchiveBundle([record('a', true), record('b', false)], async () => [PAGE], async () => [ORIGINAL]);
+    expect(bundle.documents.map(d => d.originals)).toEqual([[ORIGINAL], undefined]);
+
+    const { entries, rejected } = parseArchiveBundle(JSON.stringify(bundle));
+    expect(rejected).toEqual([]);
+    const { documents } = applyImportPlan(entries.map(entry => ({ entry, conflict: null, resolution: 'keep-both' })));
+    expect(documents.find(d => d.record.id === 'a')?.originals).toEqual([ORIGINAL]);
+  });
+
+  it('rejects entries with malformed originals', async () => {
+    const bundle = await createArchiveBundle([record('a', true)], async () => [PAGE], async () => [ORIGINAL]);
+    bundle.documents[0].originals = ['not an image'];
+    expect(parseArchiveBundle(JSON.stringify(bundle)).rejected).toEqual(['Document 1: invalid original images']);
+  });
+});
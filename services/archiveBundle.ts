@@ -0,0 +1,174 @@
+
+import { StoredDocument } from "../types";
+import { hashImageContent } from "./imageHash";
+
+export const BUNDLE_FORMAT = 'docuextract-archive';
+export const BUNDLE_VERSION = 1;
+
+const INVOICE_FIELDS = ['documentType', 'dealerName', 'modelName', 'horsePower', 'assetCost', 'dealerSignature', 'dealerStamp'];
+
+export interface BundleEntry {
+  record: StoredDocument;
+  pages: string[];
+  // Unprocessed images, present when the record went through preprocessing.
+  originals?: string[];
+}
+
+export interface ArchiveBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  documents: BundleEntry[];
+}
+
+export type ImportResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export interface ImportConflict {
+  existingId: string;
+  reason: 'id' | 'content';
+}
+
+export interface ImportPlanItem {
+  entry: BundleEntry;
+  conflict: ImportConflict | null;
+  resolution: ImportResolution;
+}
+
+export interface ParsedBundle {
+  entries: BundleEntry[];
+  // Human-readable reasons for entries that were dropped during validation.
+  rejected: string[];
+}
+
+export const createArchiveBundle = async (
+  docs: StoredDocument[],
+  loadPages: (docId: string) => Promise<string[]>,
+  loadOriginals: (docId: string) => Promise<string[]>
+): Promise<ArchiveBundle> => {
+  const documents: BundleEntry[] = [];
+  for (const record of docs) {
+    const originals = record.preprocessing ? await loadOriginals(record.id) : [];
+    documents.push({ record, pages: await loadPages(record.id), ...(originals.length ? { originals } : {}) });
+  }
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), documents };
+};
+
+const isObject = (value: unknown): value is Record<string, any> => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Returns the first schema problem found in an entry, or null if it is importable.
+const isImageList = (value: unknown): boolean =>
+  Array.isArray(value) && value.length > 0 && value.every(p => typeof p === 'string' && p.startsWith('data:'));
+
+const validateEntry = (entry: any): string | null => {
+  if (!isObject(entry) || !isObject(entry.record)) return 'missing record';
+  const { record, pages, originals } = entry;
+  if (typeof record.id !== 'string' || !record.id) return 'missing id';
+  if (typeof record.timestamp !== 'string' || isNaN(Date.parse(record.timestamp))) return 'invalid timestamp';
+  if (!isObject(record.data)) return 'missing extracted data';
+  const badField = INVOICE_FIELDS.find(f => !isObject(record.data[f]) || !('value' in record.data[f]) || typeof record.data[f].confidence !== 'number');
+  if (badField) return `field "${badField}" is malformed`;
+  if (!isObject(record.metrics) || typeof record.metrics.latencyMs !== 'number' || typeof record.metrics.costEstimateUsd !== 'number') return 'invalid metrics';
+  if (record.relations !== undefined && (!Array.isArray(record.relations) || record.relations.some((r: any) => !isObject(r) || typeof r.targetDocId !== 'string'))) return 'invalid relations';
+  if (!isImageList(pages)) return 'missing page images';
+  if (originals !== undefined && !isImageList(originals)) return 'invalid original images';
+  return null;
+};
+
+export const parseArchiveBundle = (text: string): ParsedBundle => {
+  const parsed = JSON.parse(text);
+  if (!isObject(parsed) || parsed.format !== BUNDLE_FORMAT) throw new Error("Not a DocuExtract archive bundle.");
+  if (typeof parsed.version !== 'number' || parsed.version > BUNDLE_VERSION) throw new Error(`Unsupported bundle version ${parsed.version}.`);
+  if (!Array.isArray(parsed.documents)) throw new Error("Bundle has no documents list.");
+
+  const entries: BundleEntry[] = [];
+  const rejected: string[] = [];
+  const seenIds = new Set<string>();
+  parsed.documents.forEach((entry: any, i: number) => {
+    const problem = validateEntry(entry);
+    if (problem) return rejected.push(`Document ${i + 1}: ${problem}`);
+    if (seenIds.has(entry.record.id)) return rejected.push(`Document ${i + 1}: duplicate id within bundle`);
+    seenIds.add(entry.record.id);
+    entries.push({
+      record: { ...entry.record, pageCount: entry.pages.length, relations: entry.record.relations || [] },
+      pages: entry.pages,
+      originals: entry.originals,
+    });
+  });
+  return { entries, rejected };
+};
+
+const hashPages = async (pages: string[]): Promise<string> => (await Promise.all(pages.map(hashImageContent))).join(':');
+
+// An id match wins over a content match; conflicting entries default to skip.
+export const planImport = async (
+  entries: BundleEntry[],
+  existing: StoredDocument[],
+  loadPages: (docId: string) => Promise<string[]>
+): Promise<ImportPlanItem[]> => {
+  const existingIds = new Set(existing.map(d => d.id));
+  const idByHash = new Map<string, string>();
+  for (const doc of existing) {
+    try {
+      idByHash.set(await hashPages(await loadPages(doc.id)), doc.id);
+    } catch (e) {
+      console.error("Could not hash archived document", doc.id, e);
+    }
+  }
+  const plan: ImportPlanItem[] = [];
+  for (const entry of entries) {
+    const contentMatch = idByHash.get(await hashPages(entry.pages));
+    const conflict: ImportConflict | null = existingIds.has(entry.record.id)
+      ? { existingId: entry.record.id, reason: 'id' }
+      : contentMatch ? { existingId: contentMatch, reason: 'content' } : null;
+    plan.push({ entry, conflict, resolution: conflict ? 'skip' : 'keep-both' });
+  }
+  return plan;
+};
+
+export interface ImportResult {
+  // Records to write, with final ids and remapped relations.
+  documents: BundleEntry[];
+  // Ids of existing records being replaced.
+  replacedIds: string[];
+  skipped: number;
+}
+
+// Resolves each entry's final id, then rewrites relation targets so links between
+// imported documents (and to skipped duplicates) point at the ids that end up in the archive.
+export const applyImportPlan = (plan: ImportPlanItem[]): ImportResult => {
+  // Only the first entry may overwrite a given record; later ones matching the same record are skipped.
+  const claimed = new Set<string>();
+  const resolved = plan.map(item => {
+    if (item.conflict && item.resolution === 'overwrite') {
+      if (claimed.has(item.conflict.existingId)) return { ...item, resolution: 'skip' as const };
+      claimed.add(item.conflict.existingId);
+    }
+    return item;
+  });
+
+  const idMap = new Map<string, string>();
+  resolved.forEach(({ entry, conflict, resolution }) => {
+    const sourceId = entry.record.id;
+    if (!conflict) idMap.set(sourceId, sourceId);
+    else if (resolution === 'skip' || resolution === 'overwrite') idMap.set(sourceId, conflict.existingId);
+    else idMap.set(sourceId, conflict.reason === 'id' ? crypto.randomUUID() : sourceId);
+  });
+
+  const documents = resolved
+    .filter(item => !item.conflict || item.resolution !== 'skip')
+    .map(({ entry }) => ({
+      pages: entry.pages,
+      originals: entry.originals,
+      record: {
+        ...entry.record,
+        id: idMap.get(entry.record.id)!,
+        relations: (entry.record.relations || []).map(r => ({ ...r, targetDocId: idMap.get(r.targetDocId) ?? r.targetDocId })),
+      },
+    }));
+
+  return {
+    documents,
+    replacedIds: [...claimed],
+    skipped: resolved.filter(item => item.conflict && item.resolution === 'skip').length,
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentData, StoredDocument } from '../types';
+import { toCsv } from './archiveExport';
+
+const doc = (dealerName: string, assetCost: number): StoredDocument => ({
+  id: 'doc-1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  pageCount: 1,
+  data: { dealerName: { value: dealerName, confidence: 0.9 }, assetCost: { value: assetCost, confidence: 0.9 } } as unknown as DocumentData,
+  metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+});
+
+const layout = { columns: ['dealerName.value', 'assetCost.value'], includeHistory: false };
+const rows = (csv: string) => csv.replace('\uFEFF', '').split('\r\n').slice(1);
+
+describe('toCsv', () => {
+  it('neutralizes text that a spreadsheet would run as a formula', () => {
+    const docs = ['=HYPERLINK("http://x","Shree")', '+91 Tractors', '-Shree', '@SUM(A1)'].map(name => doc(name, 725000));
+    expect(rows(toCsv(docs, layout))).toEqual([
+      `"'=HYPERLINK(""http://x"",""Shree"")",725000`,
+      `'+91 Tractors,725000`,
+      `'-Shree,725000`,
+      `'@SUM(A1),725000`,
+    ]);
+  });
+
+  it('leaves ordinary text and negative numbers alone', () => {
+    expect(rows(toCsv([doc('Shree Ganesh Tractors', -500)], layout))).toEqual(['Shree Ganesh Tractors,-500']);
+  });
+});
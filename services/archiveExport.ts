@@ -0,0 +1,156 @@
+
+import { InvoiceData, StoredDocument } from "../types";
+import { CellValue, createXlsx } from "./xlsxWriter";
+import { getValidationStatus } from "./ruleEngine";
+
+const LAYOUT_STORAGE_KEY = 'docu_export_layout';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'jsonl';
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (doc: StoredDocument) => CellValue;
+}
+
+export interface ExportLayout {
+  // Enabled column ids, in output order.
+  columns: string[];
+  includeHistory: boolean;
+}
+
+const INVOICE_FIELDS: (keyof InvoiceData)[] = ['documentType', 'dealerName', 'modelName', 'horsePower', 'assetCost', 'dealerSignature', 'dealerStamp'];
+
+// Built-in fields first, then any added by the templates that produced `docs`.
+const fieldKeys = (docs: StoredDocument[]): string[] => [
+  ...INVOICE_FIELDS,
+  ...new Set(docs.flatMap(d => Object.keys(d.data)).filter(key => !(INVOICE_FIELDS as string[]).includes(key))),
+];
+
+const fieldColumns = (field: string): ExportColumn[] => [
+  { id: `${field}.value`, label: field, value: d => d.data[field]?.value },
+  { id: `${field}.confidence`, label: `${field} Confidence`, value: d => d.data[field]?.confidence },
+  { id: `${field}.edited`, label: `${field} Edited`, value: d => !!d.data[field]?.isEdited },
+];
+
+const DOCUMENT_COLUMNS: ExportColumn[] = [
+  { id: 'id', label: 'Document ID', value: d => d.id },
+  { id: 'timestamp', label: 'Processed At', value: d => d.timestamp },
+  { id: 'pageCount', label: 'Pages', value: d => d.pageCount },
+];
+
+const METADATA_COLUMNS: ExportColumn[] = [
+  { id: 'dealer.canonical', label: 'Matched Dealer', value: d => d.dealerMatch?.canonicalName ?? null },
+  { id: 'validation.status', label: 'Validation', value: d => getValidationStatus(d.validation) },
+  { id: 'metrics.latencyMs', label: 'Latency (ms)', value: d => d.metrics.latencyMs },
+  { id: 'metrics.costEstimateUsd', label: 'Cost (USD)', value: d => d.metrics.costEstimateUsd },
+  { id: 'metrics.documentAccuracy', label: 'Accuracy (%)', value: d => d.metrics.documentAccuracy },
+  { id: 'metrics.promptTokens', label: 'Prompt Tokens', value: d => d.metrics.usage?.promptTokens ?? null },
+  { id: 'metrics.outputTokens', label: 'Output Tokens', value: d => d.metrics.usage?.outputTokens ?? null },
+  { id: 'quality.sharpness', label: 'Sharpness', value: d => d.metrics.quality?.sharpness ?? null },
+  { id: 'quality.glare', label: 'Glare (%)', value: d => d.metrics.quality ? Math.round(d.metrics.quality.glare * 1000) / 10 : null },
+  { id: 'quality.coverage', label: 'Page Coverage (%)', value: d => d.metrics.quality ? Math.round(d.metrics.quality.coverage * 100) : null },
+  { id: 'quality.failedChecks', label: 'Quality Overridden', value: d => d.metrics.quality?.failedChecks.join('; ') || null },
+  { id: 'relations', label: 'Relations', value: d => (d.relations || []).map(r => `${r.sourceField}->${r.targetDocId}:${r.targetField}`).join('; ') },
+];
+
+// Columns on offer for `docs`, including the fields their templates added.
+export const exportColumns = (docs: StoredDocument[]): ExportColumn[] => [
+  ...DOCUMENT_COLUMNS,
+  ...fieldKeys(docs).flatMap(fieldColumns),
+  ...METADATA_COLUMNS,
+];
+
+export const EXPORT_COLUMNS: ExportColumn[] = exportColumns([]);
+
+export const DEFAULT_EXPORT_LAYOUT: ExportLayout = {
+  columns: EXPORT_COLUMNS.filter(c => c.id !== 'metrics.promptTokens' && c.id !== 'metrics.outputTokens' && !c.id.startsWith('quality.')).map(c => c.id),
+  includeHistory: false,
+};
+
+export const loadExportLayout = (): ExportLayout => {
+  const saved = localStorage.getItem(LAYOUT_STORAGE_KEY);
+  if (!saved) return DEFAULT_EXPORT_LAYOUT;
+  try {
+    // Ids without a column (e.g. a field no current template has) are skipped on export.
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse export layout", e);
+    return DEFAULT_EXPORT_LAYOUT;
+  }
+};
+
+export const saveExportLayout = (layout: ExportLayout) => {
+  localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+};
+
+const correctedFields = (d: StoredDocument): string[] => Object.keys(d.data).filter(f => d.data[f]?.history?.length);
+
+const HISTORY_COLUMN: ExportColumn = {
+  id: 'correctionHistory',
+  label: 'Correction History',
+  value: d => {
+    const edits = correctedFields(d).map(f => ({ field: f, history: d.data[f].history }));
+    return edits.length ? JSON.stringify(edits) : '';
+  },
+};
+
+const resolveColumns = (layout: ExportLayout, docs: StoredDocument[]): ExportColumn[] => {
+  const available = exportColumns(docs);
+  return [
+    ...layout.columns.map(id => available.find(c => c.id === id)).filter((c): c is ExportColumn => !!c),
+    ...(layout.includeHistory ? [HISTORY_COLUMN] : []),
+  ];
+};
+
+// CSV text that a spreadsheet would read as a formula gets a leading apostrophe. Dealer
+// names and notes come from the model or OCR, so they can't be trusted as plain text.
+// XLSX needs none of this: its inline strings are never evaluated.
+const neutralizeFormula = (value: CellValue): CellValue =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsv = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(neutralizeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// BOM so Excel opens the file as UTF-8 and Devanagari/Gujarati dealer names survive.
+export const toCsv = (docs: StoredDocument[], layout: ExportLayout): string => {
+  const columns = resolveColumns(layout, docs);
+  const lines = [columns.map(c => escapeCsv(c.label)), ...docs.map(d => columns.map(c => escapeCsv(c.value(d))))];
+  return '\uFEFF' + lines.map(line => line.join(',')).join('\r\n');
+};
+
+// JSON Lines keep structure: correction history is nested rather than serialized into a cell.
+export const toJsonl = (docs: StoredDocument[], layout: ExportLayout): string => {
+  const columns = resolveColumns({ ...layout, includeHistory: false }, docs);
+  return docs.map(d => {
+    const record: Record<string, unknown> = Object.fromEntries(columns.map(c => [c.id, c.value(d) ?? null]));
+    if (layout.includeHistory) {
+      record.correctionHistory = Object.fromEntries(correctedFields(d).map(f => [f, d.data[f].history]));
+    }
+    return JSON.stringify(record);
+  }).join('\n');
+};
+
+export const toXlsx = (docs: StoredDocument[], layout: ExportLayout): Blob => {
+  const columns = resolveColumns(layout, docs);
+  return createXlsx([columns.map(c => c.label), ...docs.map(d => columns.map(c => c.value(d)))], 'Documents');
+};
+
+export const exportDocuments = (docs: StoredDocument[], format: ExportFormat, layout: ExportLayout): { blob: Blob; filename: string } => {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === 'xlsx') return { blob: toXlsx(docs, layout), filename: `docuextract-${stamp}.xlsx` };
+  if (format === 'jsonl') return { blob: new Blob([toJsonl(docs, layout)], { type: 'application/x-ndjson' }), filename: `docuextract-${stamp}.jsonl` };
+  return { blob: new Blob([toCsv(docs, layout)], { type: 'text/csv;charset=utf-8' }), filename: `docuextract-${stamp}.csv` };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,192 @@
+
+import { ProcessError, StoredDocument } from "../types";
+import { categorizeError, isRetryableError } from "./errors";
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: ProcessError;
+  documentId?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  retried: number;
+  durationMs: number;
+}
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  process: (file: File, signal: AbortSignal) => Promise<StoredDocument>;
+  onDocument: (doc: StoredDocument) => void;
+  onChange: (items: BatchItem[]) => void;
+  onFinish: (summary: BatchSummary) => void;
+}
+
+export interface BatchQueue {
+  enqueue: (files: File[]) => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  setConcurrency: (concurrency: number) => void;
+  retryFailed: () => void;
+  clear: () => void;
+}
+
+export const SUPPORTED_BATCH_FILE = /\.(pdf|png|jpe?g|webp|heic|gif|bmp|tiff?)$/i;
+
+export const createBatchQueue = (options: BatchQueueOptions): BatchQueue => {
+  let items: BatchItem[] = [];
+  const files = new Map<string, File>();
+  const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const controllers = new Map<string, AbortController>();
+  let running = 0;
+  let paused = false;
+  let concurrency = Math.max(1, options.concurrency);
+  let batchStartedAt: number | null = null;
+
+  const emit = () => options.onChange([...items]);
+
+  const update = (id: string, patch: Partial<BatchItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+    emit();
+  };
+
+  const checkFinished = () => {
+    if (batchStartedAt === null || running > 0 || retryTimers.size > 0) return;
+    if (items.some(item => item.status === 'queued')) return;
+    options.onFinish({
+      total: items.length,
+      succeeded: items.filter(item => item.status === 'done').length,
+      failed: items.filter(item => item.status === 'failed').length,
+      retried: items.filter(item => item.attempts > 1).length,
+      durationMs: Date.now() - batchStartedAt,
+    });
+    batchStartedAt = null;
+  };
+
+  const run = async (item: BatchItem) => {
+    const file = files.get(item.id);
+    if (!file) return;
+    running++;
+    const attempts = item.attempts + 1;
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    update(item.id, { status: 'running', attempts, startedAt: Date.now(), error: undefined });
+    try {
+      const doc = await options.process(file, controller.signal);
+      options.onDocument(doc);
+      files.delete(item.id);
+      update(item.id, { status: 'done', documentId: doc.id, finishedAt: Date.now() });
+    } catch (err: any) {
+      const error = categorizeError(err);
+      if (controller.signal.aborted) {
+        // Stopped by pause, so the item goes back in line; after a clear it is already gone.
+        update(item.id, { status: 'queued', attempts: attempts - 1 });
+      } else if (isRetryableError(error) && attempts <= options.maxRetries) {
+        // Exponential backoff keeps a flaky connection from burning every retry at once.
+        update(item.id, { status: 'queued', error });
+        retryTimers.set(item.id, setTimeout(() => {
+          retryTimers.delete(item.id);
+          pump();
+        }, options.retryDelayMs * 2 ** (attempts - 1)));
+      } else {
+        update(item.id, { status: 'failed', error, finishedAt: Date.now() });
+      }
+    } finally {
+      controllers.delete(item.id);
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (!paused) {
+      while (running < concurrency) {
+        const next = items.find(item => item.status === 'queued' && !retryTimers.has(item.id));
+        if (!next) break;
+        run(next);
+      }
+    }
+    checkFinished();
+  };
+
+  return {
+    enqueue: (incoming) => {
+      if (incoming.length === 0) return;
+      if (batchStartedAt === null) batchStartedAt = Date.now();
+      const added = incoming.map(file => {
+        const id = crypto.randomUUID();
+        files.set(id, file);
+        return { id, name: file.webkitRelativePath || file.name, status: 'queued' as const, attempts: 0 };
+      });
+      items = [...items, ...added];
+      emit();
+      pump();
+    },
+    // Running extractions are cancelled rather than left to spend more requests.
+    pause: () => {
+      paused = true;
+      controllers.forEach(controller => controller.abort());
+    },
+    resume: () => { paused = false; pump(); },
+    isPaused: () => paused,
+    setConcurrency: (value) => { concurrency = Math.max(1, value); pump(); },
+    retryFailed: () => {
+      const failed = items.filter(item => item.status === 'failed' && files.has(item.id));
+      if (failed.length === 0) return;
+      if (batchStartedAt === null) batchStartedAt = Date.now();
+      items = items.map(item => failed.includes(item) ? { ...item, status: 'queued', attempts: 0 } : item);
+      emit();
+      pump();
+    },
+    clear: () => {
+      retryTimers.forEach(timer => clearTimeout(timer));
+      retryTimers.clear();
+      controllers.forEach(controller => controller.abort());
+      items = [];
+      files.clear();
+      batchStartedAt = null;
+      emit();
+    },
+  };
+};
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns results in chunks, so keep reading until it comes back empty.
+  while (true) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) break;
+    children.push(...chunk);
+  }
+  const nested = await Promise.all(children.map(readEntryFiles));
+  return nested.flat();
+};
+
+// Flattens dropped files and folders into the list of documents we can process.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  const collected = entries.length > 0
+    ? (await Promise.all(entries.map(readEntryFiles))).flat()
+    : Array.from(dataTransfer.files);
+  return collected.filter(file => SUPPORTED_BATCH_FILE.test(file.name));
+};
@@ -0,0 +1,67 @@
+
+import { Quad, createCanvas, grayscale, locatePage } from "./imagePreprocessing";
+import { MIN_SHARPNESS, measureSharpness } from "./qualityGate";
+
+// Frames are analysed at this size; enough for edges and focus, cheap enough to run several times a second.
+const FRAME_SIZE = 1000;
+const MOTION_SIZE = 64;
+// Mean absolute grey-level change between analysed frames.
+const STEADY_MOTION = 4;
+// Movement needed after a shot before the next auto-capture, so one page isn't taken twice.
+const REARM_MOTION = 18;
+export const STEADY_FRAMES = 3;
+// Treat a page filling nearly the whole frame as found even without visible edges.
+const FILLED_FRAME = 0.9;
+
+export interface FrameAnalysis {
+  quad: Quad | null;
+  sharpness: number;
+  motion: number;
+  pageFound: boolean;
+  // Tiny greyscale copy compared with the next frame to measure motion.
+  signature: Uint8ClampedArray;
+}
+
+export type GuideStatus = 'searching' | 'blurry' | 'moving' | 'steady' | 'rearm';
+
+export const analyzeFrame = (video: HTMLVideoElement, previous: Uint8ClampedArray | null): FrameAnalysis => {
+  const scale = Math.min(1, FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+  const [canvas, ctx] = createCanvas(video.videoWidth * scale, video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const { quad, coverage } = locatePage(canvas);
+  const signature = grayscale(canvas, MOTION_SIZE).gray;
+  let motion = 255;
+  if (previous && previous.length === signature.length) {
+    let diff = 0;
+    for (let i = 0; i < signature.length; i++) diff += Math.abs(signature[i] - previous[i]);
+    motion = diff / signature.length;
+  }
+  const analysis = { quad, sharpness: measureSharpness(canvas), motion, pageFound: !!quad || coverage > FILLED_FRAME, signature };
+  canvas.width = 0;
+  return analysis;
+};
+
+export const guideStatus = (analysis: FrameAnalysis, armed: boolean): GuideStatus => {
+  if (!armed) return 'rearm';
+  if (!analysis.pageFound) return 'searching';
+  if (analysis.motion > STEADY_MOTION) return 'moving';
+  if (analysis.sharpness < MIN_SHARPNESS) return 'blurry';
+  return 'steady';
+};
+
+export const hasMovedOn = (analysis: FrameAnalysis): boolean => analysis.motion > REARM_MOTION;
+
+export const GUIDE_MESSAGES: Record<GuideStatus, string> = {
+  searching: 'Fit the whole page in the frame',
+  moving: 'Hold steady…',
+  blurry: 'Too blurry — tap to focus or add light',
+  steady: 'Capturing…',
+  rearm: 'Captured — move to the next page',
+};
+
+// Capture resolutions offered when the camera reports it can reach them.
+export const RESOLUTION_PRESETS = [
+  { id: 'hd', label: '720p', width: 1280, height: 720 },
+  { id: 'fhd', label: '1080p', width: 1920, height: 1080 },
+  { id: 'uhd', label: '4K', width: 3840, height: 2160 },
+];
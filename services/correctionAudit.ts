@@ -0,0 +1,60 @@
+
+import { CorrectionHistory, CorrectionKind, DocumentData, DocumentEdit, DocumentEditAction, ExtractedField, OperatorProfile } from "../types";
+
+export interface AuditEntry extends CorrectionHistory {
+  field: string;
+}
+
+export interface FieldTimeline {
+  field: string;
+  originalValue: any;
+  entries: CorrectionHistory[];
+}
+
+// The value the model returned, before any correction.
+export const originalValue = (field: ExtractedField<any>): any => field.history?.length ? field.history[0].oldValue : field.value;
+
+export const fieldTimelines = (data: DocumentData, fields: string[]): FieldTimeline[] =>
+  fields
+    .filter(key => data[key]?.history?.length)
+    .map(key => ({ field: key, originalValue: originalValue(data[key]), entries: data[key].history! }));
+
+// Every correction on the document, oldest first.
+export const auditLog = (data: DocumentData): AuditEntry[] =>
+  Object.entries(data)
+    .flatMap(([field, extracted]) => (extracted?.history || []).map(entry => ({ ...entry, field })))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+// Undo and redo are recorded in the field histories like any other change, so
+// the stacks are rebuilt from the log and survive a reload.
+export const undoRedoStacks = (data: DocumentData): { undo: AuditEntry[]; redo: AuditEntry[] } => {
+  const undo: AuditEntry[] = [];
+  let redo: AuditEntry[] = [];
+  for (const entry of auditLog(data)) {
+    if (entry.kind === 'undo') {
+      const undone = undo.pop();
+      if (undone) redo.push(undone);
+    } else if (entry.kind === 'redo') {
+      const redone = redo.pop();
+      if (redone) undo.push(redone);
+    } else {
+      undo.push(entry);
+      redo = [];
+    }
+  }
+  return { undo, redo };
+};
+
+// Returns the field with `value` applied and the change appended to its history.
+// A field holding the model's value again is no longer treated as edited.
+export const applyCorrection = (field: ExtractedField<any>, value: any, operator: Pick<OperatorProfile, 'id' | 'name'>, kind: CorrectionKind): ExtractedField<any> => {
+  const entry: CorrectionHistory = { oldValue: field.value, newValue: value, timestamp: new Date().toISOString(), user: operator.name, userId: operator.id, kind };
+  const modelConfidence = field.modelConfidence ?? field.confidence;
+  const original = originalValue(field);
+  return original === value
+    ? { ...field, value, isEdited: false, confidence: modelConfidence, modelConfidence, history: [...(field.history || []), entry] }
+    : { ...field, value, isEdited: true, confidence: 1.0, modelConfidence, history: [...(field.history || []), entry] };
+};
+
+export const documentEdit = (operator: Pick<OperatorProfile, 'id' | 'name'>, action: DocumentEditAction, detail: string): DocumentEdit =>
+  ({ action, detail, userId: operator.id, user: operator.name, timestamp: new Date().toISOString() });
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Dealer } from '../types';
+import { matchDealer } from './dealerRegistry';
+
+const dealer = (id: string, canonicalName: string, aliases: string[] = []): Dealer => ({ id, canonicalName, aliases });
+
+describe('matchDealer', () => {
+  it('accepts OCR noise on a registered name', () => {
+    const dealers = [dealer('ganesh', 'Shree Ganesh Tractors')];
+    expect(matchDealer('M/s. Shree Ganesh Tractor,', dealers).dealerId).toBe('ganesh');
+    expect(matchDealer('Tractors Ganesh Shree', dealers).dealerId).toBe('ganesh');
+  });
+
+  it('does not accept a dealer that differs by one whole word', () => {
+    const result = matchDealer('Shree Krishna Tractors', [dealer('ganesh', 'Shree Ganesh Tractors')]);
+    expect(result.dealerId).toBeNull();
+    expect(result.needsReview).toBe(true);
+    expect(result.alternatives[0].dealerId).toBe('ganesh');
+  });
+
+  it('picks the right dealer when both are registered', () => {
+    const dealers = [dealer('ganesh', 'Shree Ganesh Tractors'), dealer('krishna', 'Shree Krishna Tractors')];
+    expect(matchDealer('Shree Krishna Tractors', dealers).dealerId).toBe('krishna');
+  });
+
+  it('sends a name that fits two dealers equally well to review', () => {
+    const dealers = [dealer('nashik', 'Patel Tractors', ['Patel Tractors Nashik']), dealer('pune', 'Patel Tractors Pune')];
+    expect(matchDealer('Patel Tractors', dealers).needsReview).toBe(true);
+  });
+});
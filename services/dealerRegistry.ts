@@ -0,0 +1,91 @@
+
+import { Dealer, DealerCandidate, DealerMatch } from "../types";
+import { parseCsvRecords } from "./csv";
+import { tokenSimilarity } from "./stringSimilarity";
+
+const DEALERS_STORAGE_KEY = 'docu_dealers';
+
+// At or above this score a dealer is accepted without review.
+export const DEALER_MATCH_THRESHOLD = 0.88;
+// ...and only when no other dealer comes this close to it.
+export const DEALER_MATCH_MARGIN = 0.05;
+const MAX_ALTERNATIVES = 3;
+
+export const loadDealers = (): Dealer[] => {
+  const saved = localStorage.getItem(DEALERS_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse dealer registry", e);
+    return [];
+  }
+};
+
+export const saveDealers = (dealers: Dealer[]) => {
+  localStorage.setItem(DEALERS_STORAGE_KEY, JSON.stringify(dealers));
+};
+
+export const splitAliases = (value: string): string[] =>
+  value.split(/[;|]/).map(a => a.trim()).filter(Boolean);
+
+// Expects a header row with `name` (or `canonical_name`) and optionally `id`,
+// `aliases` (separated by ; or |) and `location`. Rows without a name are skipped.
+export const parseDealerCsv = (text: string): Dealer[] =>
+  parseCsvRecords(text)
+    .map(record => ({
+      id: record.id || crypto.randomUUID(),
+      canonicalName: record.name || record.canonical_name || record.canonicalname || '',
+      aliases: splitAliases(record.aliases || record.alias || ''),
+      location: record.location || record.city || undefined,
+    }))
+    .filter(dealer => dealer.canonicalName);
+
+// Imported rows replace existing dealers with the same id or canonical name; aliases are merged.
+export const mergeDealers = (existing: Dealer[], incoming: Dealer[]): Dealer[] => {
+  const result = [...existing];
+  incoming.forEach(dealer => {
+    const idx = result.findIndex(d => d.id === dealer.id || d.canonicalName.toLowerCase() === dealer.canonicalName.toLowerCase());
+    if (idx === -1) {
+      result.push(dealer);
+    } else {
+      const current = result[idx];
+      result[idx] = { ...current, ...dealer, id: current.id, aliases: Array.from(new Set([...current.aliases, ...dealer.aliases])) };
+    }
+  });
+  return result;
+};
+
+const scoreDealer = (rawName: string, dealer: Dealer): number =>
+  Math.max(...[dealer.canonicalName, ...dealer.aliases].map(name => tokenSimilarity(rawName, name)));
+
+export const matchDealer = (rawName: string, dealers: Dealer[]): DealerMatch => {
+  const ranked: DealerCandidate[] = dealers
+    .map(dealer => ({ dealerId: dealer.id, canonicalName: dealer.canonicalName, score: scoreDealer(rawName, dealer) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = ranked;
+  const isMatch = !!best && best.score >= DEALER_MATCH_THRESHOLD && best.score - (runnerUp?.score || 0) >= DEALER_MATCH_MARGIN;
+  return {
+    rawValue: rawName,
+    dealerId: isMatch ? best.dealerId : null,
+    canonicalName: isMatch ? best.canonicalName : null,
+    score: best?.score || 0,
+    alternatives: ranked.slice(isMatch ? 1 : 0, (isMatch ? 1 : 0) + MAX_ALTERNATIVES),
+    needsReview: !isMatch,
+  };
+};
+
+// Operator picked a dealer by hand; the raw extracted value is kept for audit.
+export const confirmDealerMatch = (match: DealerMatch, dealer: Dealer): DealerMatch => ({
+  ...match,
+  dealerId: dealer.id,
+  canonicalName: dealer.canonicalName,
+  score: scoreDealer(match.rawValue, dealer),
+  alternatives: [
+    ...(match.dealerId && match.dealerId !== dealer.id ? [{ dealerId: match.dealerId, canonicalName: match.canonicalName || '', score: match.score }] : []),
+    ...match.alternatives.filter(a => a.dealerId !== dealer.id),
+  ],
+  needsReview: false,
+  isManual: true,
+});
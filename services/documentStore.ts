@@ -0,0 +1,170 @@
+
+import { StoredDocument } from "../types";
+
+const DB_NAME = 'docuextract';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const IMAGES_STORE = 'images';
+const LEGACY_HISTORY_KEY = 'docu_history';
+
+interface ImageRecord {
+  docId: string;
+  pages: Blob[];
+  // Camera/upload images as received, when `pages` were preprocessed from them.
+  originals?: Blob[];
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message: string = "Browser storage is full.") {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE, { keyPath: 'docId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const toStorageError = (error: DOMException | null): Error =>
+  error?.name === 'QuotaExceededError' ? new StorageQuotaError() : (error || new Error("Storage transaction failed."));
+
+// Runs `work` inside one transaction and resolves once it has committed. If `work`
+// throws, the transaction is aborted and that error is the one reported.
+const withTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+  let result: T;
+  try {
+    result = await work(tx);
+  } catch (err) {
+    // Nobody awaits `done` on this path, so its rejection is handled here.
+    done.catch(() => undefined);
+    try {
+      tx.abort();
+    } catch (e) {
+      // The transaction had already finished.
+    }
+    throw err;
+  }
+  await done;
+  return result;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const listDocuments = async (): Promise<StoredDocument[]> => {
+  const docs = await withTransaction([DOCUMENTS_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(DOCUMENTS_STORE).getAll() as IDBRequest<StoredDocument[]>)
+  );
+  return docs.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+export const putDocuments = (docs: StoredDocument[]): Promise<void> =>
+  withTransaction([DOCUMENTS_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(DOCUMENTS_STORE);
+    docs.forEach(doc => store.put(doc));
+  });
+
+export const deleteDocuments = (ids: string[]): Promise<void> =>
+  withTransaction([DOCUMENTS_STORE, IMAGES_STORE], 'readwrite', tx => {
+    ids.forEach(id => {
+      tx.objectStore(DOCUMENTS_STORE).delete(id);
+      tx.objectStore(IMAGES_STORE).delete(id);
+    });
+  });
+
+export const saveDocumentImages = async (docId: string, pages: string[], originals?: string[]): Promise<void> => {
+  // Blob conversion is async, so it has to finish before the transaction opens.
+  const blobs = await Promise.all(pages.map(dataUrlToBlob));
+  const originalBlobs = originals ? await Promise.all(originals.map(dataUrlToBlob)) : undefined;
+  await withTransaction([IMAGES_STORE], 'readwrite', tx => {
+    tx.objectStore(IMAGES_STORE).put({ docId, pages: blobs, originals: originalBlobs } as ImageRecord);
+  });
+};
+
+const getImageRecord = (docId: string): Promise<ImageRecord | undefined> =>
+  withTransaction([IMAGES_STORE], 'readonly', tx =>
+    requestToPromise(tx.objectStore(IMAGES_STORE).get(docId) as IDBRequest<ImageRecord | undefined>)
+  );
+
+// Full page images as data URLs, ready to hand back to an extraction provider.
+export const loadDocumentImages = async (docId: string): Promise<string[]> => {
+  const record = await getImageRecord(docId);
+  return record ? Promise.all(record.pages.map(blobToDataUrl)) : [];
+};
+
+// Unprocessed images for documents that went through preprocessing; empty otherwise.
+export const loadOriginalImages = async (docId: string): Promise<string[]> => {
+  const record = await getImageRecord(docId);
+  return record?.originals ? Promise.all(record.originals.map(blobToDataUrl)) : [];
+};
+
+// Object URL for the first page. Callers own the URL and must revoke it.
+export const loadThumbnailUrl = async (docId: string): Promise<string | null> => {
+  const record = await getImageRecord(docId);
+  return record?.pages[0] ? URL.createObjectURL(record.pages[0]) : null;
+};
+
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// One-time move of the old localStorage archive (metadata + base64 images in one
+// JSON blob) into IndexedDB. The legacy key is only removed once everything is written.
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return 0;
+  let legacy: (StoredDocument & { image?: string; pages?: string[] })[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse legacy history", e);
+    return 0;
+  }
+  for (const { image, pages, ...doc } of legacy) {
+    const docPages = pages && pages.length ? pages : image ? [image] : [];
+    if (docPages.length) await saveDocumentImages(doc.id, docPages);
+    await putDocuments([{ ...doc, pageCount: docPages.length }]);
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return legacy.length;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentData, StoredDocument } from '../types';
+import { findDuplicates } from './duplicateDetection';
+
+const doc = (id: string, dealerName: string, modelName: string, assetCost: number, perceptualHash?: string): StoredDocument => ({
+  id,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  pageCount: 1,
+  data: {
+    dealerName: { value: dealerName, confidence: 0.9 },
+    modelName: { value: modelName, confidence: 0.9 },
+    assetCost: { value: assetCost, confidence: 0.9 },
+  } as unknown as DocumentData,
+  metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+  perceptualHash,
+});
+
+const HASH = 'f0f0f0f0f0f0f0f0';
+
+describe('findDuplicates', () => {
+  it('flags a re-upload with the same image and fields', () => {
+    const original = doc('a', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 725000, HASH);
+    const check = findDuplicates(doc('b', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 725000, HASH), [original]);
+    expect(check.candidates.map(c => c.docId)).toEqual(['a']);
+  });
+
+  it('flags a near-identical image when one key field still agrees', () => {
+    const original = doc('a', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 725000, HASH);
+    const check = findDuplicates(doc('b', 'Patel Tractor House', 'Sonalika DI 745', 725000, HASH), [original]);
+    expect(check.candidates[0]?.matchingFields).toEqual(['assetCost']);
+  });
+
+  it('does not flag a different invoice on the same printed form', () => {
+    const original = doc('a', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 725000, HASH);
+    const check = findDuplicates(doc('b', 'Kisan Motors', 'Mahindra 575 DI', 640000, HASH), [original]);
+    expect(check.candidates).toEqual([]);
+  });
+
+  it('falls back to near-identical fields without image fingerprints', () => {
+    const original = doc('a', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 725000);
+    expect(findDuplicates(doc('b', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 725000), [original]).candidates).toHaveLength(1);
+    expect(findDuplicates(doc('c', 'Shree Ganesh Tractors', 'Swaraj 744 FE', 690000), [original]).candidates).toHaveLength(0);
+  });
+});
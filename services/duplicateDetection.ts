@@ -0,0 +1,71 @@
+
+import { DuplicateCandidate, DuplicateCheck, StoredDocument } from "../types";
+import { perceptualSimilarity } from "./perceptualHash";
+import { stringSimilarity } from "./stringSimilarity";
+
+export const DUPLICATE_SCORE_THRESHOLD = 0.85;
+// Without an image fingerprint the fields alone have to be near-identical.
+export const FIELDS_ONLY_THRESHOLD = 0.95;
+// Images this close are flagged on the strength of one agreeing key field (e.g. a
+// re-upload that extracted differently). A 64-bit hash of the first page alone also
+// collides for different invoices printed on the same dealer's form.
+export const NEAR_IDENTICAL_IMAGE = 0.95;
+// A key field at or above this similarity counts as agreeing.
+export const KEY_FIELD_AGREEMENT = 0.9;
+const MAX_CANDIDATES = 3;
+
+const amountSimilarity = (a: number, b: number): number => {
+  if (!Number.isFinite(a) || !Number.isFinite(b) || a <= 0 || b <= 0) return 0;
+  // A 5% difference in amount already scores zero.
+  return Math.max(0, 1 - (Math.abs(a - b) / Math.max(a, b)) * 20);
+};
+
+// Prefers the registry's canonical dealer name so spelling variants of one dealer compare equal.
+const dealerKey = (doc: StoredDocument): string => doc.dealerMatch?.canonicalName || doc.data.dealerName.value || '';
+
+const keyFieldScores = (a: StoredDocument, b: StoredDocument): Record<'dealerName' | 'modelName' | 'assetCost', number> => ({
+  dealerName: stringSimilarity(dealerKey(a), dealerKey(b)),
+  modelName: stringSimilarity(a.data.modelName.value || '', b.data.modelName.value || ''),
+  assetCost: amountSimilarity(Number(a.data.assetCost.value), Number(b.data.assetCost.value)),
+});
+
+const average = (scores: Record<string, number>) => Object.values(scores).reduce((sum, s) => sum + s, 0) / Object.keys(scores).length;
+
+export const fieldSimilarity = (a: StoredDocument, b: StoredDocument): number => average(keyFieldScores(a, b));
+
+export const scoreDuplicate = (doc: StoredDocument, other: StoredDocument): DuplicateCandidate => {
+  const imageSimilarity = doc.perceptualHash && other.perceptualHash ? perceptualSimilarity(doc.perceptualHash, other.perceptualHash) : null;
+  const scores = keyFieldScores(doc, other);
+  const fields = average(scores);
+  return {
+    docId: other.id,
+    imageSimilarity,
+    fieldSimilarity: fields,
+    matchingFields: Object.keys(scores).filter(key => scores[key as keyof typeof scores] >= KEY_FIELD_AGREEMENT),
+    score: imageSimilarity === null ? fields : (imageSimilarity + fields) / 2,
+  };
+};
+
+const isLikelyDuplicate = (candidate: DuplicateCandidate): boolean => {
+  if (candidate.imageSimilarity === null) return candidate.fieldSimilarity >= FIELDS_ONLY_THRESHOLD;
+  if (candidate.score >= DUPLICATE_SCORE_THRESHOLD) return true;
+  return candidate.imageSimilarity >= NEAR_IDENTICAL_IMAGE && !!candidate.matchingFields?.length;
+};
+
+// Documents already confirmed as duplicates are left out so a resubmission is
+// compared against the original rather than against earlier copies.
+export const findDuplicates = (doc: StoredDocument, archive: StoredDocument[]): DuplicateCheck => ({
+  candidates: archive
+    .filter(other => other.id !== doc.id && other.duplicateCheck?.decision !== 'confirmed')
+    .map(other => scoreDuplicate(doc, other))
+    .filter(isLikelyDuplicate)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES),
+});
+
+export const recordDuplicateDecision = (check: DuplicateCheck, decision: NonNullable<DuplicateCheck['decision']>, duplicateOfId?: string): DuplicateCheck => ({
+  ...check,
+  decision,
+  duplicateOfId: decision === 'confirmed' ? duplicateOfId : undefined,
+  decidedAt: new Date().toISOString(),
+});
@@ -0,0 +1,23 @@
+
+import { ProcessError } from "../types";
+
+export const categorizeError = (err: any): ProcessError => {
+  const msg = err.message?.toLowerCase() || '';
+  if (err.name === 'BudgetExceededError') return { type: 'budget', title: 'Budget Exceeded', message: err.message, suggestion: 'Raise the spending budget in Settings, or switch to the offline provider.' };
+  if (err.name === 'QualityGateError') return { type: 'quality', title: 'Image Quality Too Low', message: err.message, suggestion: err.issues.map((i: { suggestion: string }) => i.suggestion).join(' ') };
+  if (err.name === 'ResponseValidationError') return { type: 'quality', title: 'Unusable Response', message: err.message, suggestion: 'Try the extraction again; if it keeps failing, the scan may be too unclear to read.' };
+  if (err.name === 'PermissionDeniedError') return { type: 'permission', title: 'Not Allowed', message: err.message, suggestion: 'Switch to an operator with the right role.' };
+  if (err.name === 'StorageQuotaError' || err.name === 'QuotaExceededError') return { type: 'storage', title: 'Storage Full', message: 'The document archive has run out of browser storage.', suggestion: 'Delete old documents from History to free space.' };
+  if (err.name === 'AbortError') return { type: 'cancelled', title: 'Cancelled', message: 'The request was cancelled.', suggestion: 'Start it again when you are ready.' };
+  if (err.name === 'RequestTimeoutError') return { type: 'timeout', title: 'Request Timed Out', message: err.message, suggestion: 'Try again; large multi-page documents take longer.' };
+  if (err.name === 'RateLimitError' || err.status === 429 || msg.includes('resource_exhausted') || msg.includes('quota')) return { type: 'quota', title: 'Quota Exceeded', message: 'The model is rejecting requests because its quota is used up.', suggestion: 'Wait a minute before retrying, or lower the batch concurrency.' };
+  if (msg.includes('fetch') || msg.includes('network') || msg.includes('offline')) return { type: 'network', title: 'Network Interrupted', message: 'Could not establish connection.', suggestion: 'Check your connection.' };
+  if (msg.includes('safety') || msg.includes('blocked')) return { type: 'format', title: 'Content Blocked', message: 'AI flagged content.', suggestion: 'Try another document.' };
+  if (msg.includes('json') || msg.includes('unexpected token') || msg.includes('empty response')) return { type: 'quality', title: 'Extraction Failed', message: 'AI couldn\'t identify fields.', suggestion: 'Ensure document is clear.' };
+  return { type: 'service', title: 'Engine Error', message: err.message || 'Unexpected error.', suggestion: 'Try refreshing.' };
+};
+
+// Only a dropped connection is worth another attempt here. Quota errors, timeouts and
+// server errors arrive after the request layer has already retried and backed off,
+// cancellation is deliberate, and anything else (bad input, bugs) fails the same way again.
+export const isRetryableError = (error: ProcessError): boolean => error.type === 'network';
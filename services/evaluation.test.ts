@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentData } from '../types';
+import { evaluatePairs, labeledSampleDocument, parseLabeledSet } from './evaluation';
+import { DEFAULT_TEMPLATE } from './schemaTemplates';
+
+const data = (fields: Record<string, unknown>): DocumentData =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, { value, confidence: 0.9 }])) as unknown as DocumentData;
+
+const builtIns = { documentType: 'Invoice', dealerName: 'Shree Ganesh Tractors', modelName: 'Swaraj 744 FE', horsePower: 48, assetCost: 725000, dealerSignature: true, dealerStamp: true };
+
+describe('evaluatePairs', () => {
+  it('scores fields added by a template', () => {
+    const truth = data({ ...builtIns, invoiceNumber: 'INV-204', subsidyAmount: 50000 });
+    const predicted = data({ ...builtIns, invoiceNumber: 'INV-204', subsidyAmount: 45000 });
+    const { fieldMetrics } = evaluatePairs([{ truth, predicted }]);
+    const metric = (field: string) => fieldMetrics.find(m => m.field === field);
+    expect(metric('invoiceNumber')?.exactAccuracy).toBe(1);
+    expect(metric('subsidyAmount')?.exactAccuracy).toBe(0);
+    expect(metric('subsidyAmount')?.meanRelativeError).toBeCloseTo(0.1);
+  });
+
+  it('leaves unlabeled fields out instead of scoring them as zero', () => {
+    const truth = data({ ...builtIns, horsePower: null });
+    const predicted = data({ ...builtIns, horsePower: 48 });
+    const { fieldMetrics } = evaluatePairs([{ truth, predicted }]);
+    expect(fieldMetrics.find(m => m.field === 'horsePower')).toBeUndefined();
+  });
+
+  it('counts a blank prediction as a miss', () => {
+    const truth = data({ ...builtIns, assetCost: 0 });
+    const predicted = data({ ...builtIns, assetCost: null });
+    const { fieldMetrics } = evaluatePairs([{ truth, predicted }]);
+    expect(fieldMetrics.find(m => m.field === 'assetCost')?.exactAccuracy).toBe(0);
+  });
+
+  it('does not report perfect marker scores when there were no positives', () => {
+    const truth = data({ ...builtIns, dealerSignature: false, dealerStamp: false });
+    const predicted = data({ ...builtIns, dealerSignature: false, dealerStamp: false });
+    const { markerMetrics } = evaluatePairs([{ truth, predicted }]);
+    expect(markerMetrics.map(m => [m.precision, m.recall, m.f1])).toEqual([[null, null, null], [null, null, null]]);
+  });
+});
+
+describe('labeledSampleDocument', () => {
+  it('fills fields a label leaves out so the archive can show the document', () => {
+    const [sample] = parseLabeledSet(JSON.stringify([{ image: 'data:image/jpeg;base64,cGFnZQ==', labels: { documentType: 'Invoice', dealerName: 'Shree Ganesh Tractors' } }]));
+    const doc = labeledSampleDocument(sample, DEFAULT_TEMPLATE, 'doc-1');
+    expect(doc.data.assetCost.notFound).toBe(true);
+    expect(doc.data.assetCost.value.toLocaleString()).toBeTypeOf('string');
+    expect(doc.data.modelName.value.toLowerCase()).toBe('');
+    expect(doc.groundTruth?.data.assetCost.value).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+
+import { BoundingBox, DocumentData, EvaluationRun, ExtractedField, FieldMetric, GroundTruth, InvoiceData, MarkerMetric, SchemaTemplate, StoredDocument } from "../types";
+import { conformToTemplate, templateRef } from "./schemaTemplates";
+import { normalizeText, stringSimilarity } from "./stringSimilarity";
+
+const RUNS_STORAGE_KEY = 'docu_eval_runs';
+const MAX_STORED_RUNS = 50;
+
+const TEXT_FIELDS: (keyof InvoiceData)[] = ['documentType', 'dealerName', 'modelName'];
+const NUMERIC_FIELDS: (keyof InvoiceData)[] = ['horsePower', 'assetCost'];
+const MARKER_FIELDS: MarkerMetric['field'][] = ['dealerSignature', 'dealerStamp'];
+
+// A text value counts as a fuzzy hit at this similarity, a number within this relative error.
+export const FUZZY_TEXT_THRESHOLD = 0.85;
+export const FUZZY_NUMERIC_TOLERANCE = 0.02;
+
+export interface EvaluationPair {
+  truth: DocumentData;
+  predicted: DocumentData;
+}
+
+export const loadEvaluationRuns = (): EvaluationRun[] => {
+  const saved = localStorage.getItem(RUNS_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse evaluation runs", e);
+    return [];
+  }
+};
+
+export const saveEvaluationRuns = (runs: EvaluationRun[]) => {
+  localStorage.setItem(RUNS_STORAGE_KEY, JSON.stringify(runs.slice(-MAX_STORED_RUNS)));
+};
+
+export const computeIoU = (a: BoundingBox, b: BoundingBox): number => {
+  if ((a.page || 0) !== (b.page || 0)) return 0;
+  const ix = Math.max(0, Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin));
+  const iy = Math.max(0, Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin));
+  const intersection = ix * iy;
+  const area = (box: BoundingBox) => Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const mean = (values: number[]): number => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const isBlank = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+// Samples whose label leaves `field` blank say nothing about it and are left out of its metric.
+const labeledFor = (field: string, pairs: EvaluationPair[]): EvaluationPair[] => pairs.filter(({ truth }) => !isBlank(truth[field]?.value));
+
+// A blank prediction is a miss, not a zero.
+const toNumber = (value: unknown): number => isBlank(value) ? NaN : Number(value);
+
+const evaluateTextField = (field: string, allPairs: EvaluationPair[]): FieldMetric => {
+  const pairs = labeledFor(field, allPairs);
+  const scored = pairs.map(({ truth, predicted }) => {
+    const expected = String(truth[field]?.value ?? '');
+    const actual = String(predicted[field]?.value ?? '');
+    return { exact: normalizeText(expected) === normalizeText(actual), fuzzy: stringSimilarity(expected, actual) >= FUZZY_TEXT_THRESHOLD || normalizeText(expected) === normalizeText(actual) };
+  });
+  return {
+    field,
+    count: pairs.length,
+    exactAccuracy: mean(scored.map(s => s.exact ? 1 : 0)),
+    fuzzyAccuracy: mean(scored.map(s => s.fuzzy ? 1 : 0)),
+  };
+};
+
+const evaluateNumericField = (field: string, allPairs: EvaluationPair[]): FieldMetric => {
+  const pairs = labeledFor(field, allPairs);
+  const scored = pairs.map(({ truth, predicted }) => {
+    const expected = toNumber(truth[field]?.value);
+    const actual = toNumber(predicted[field]?.value);
+    const valid = !isNaN(expected) && !isNaN(actual);
+    const absError = valid ? Math.abs(expected - actual) : NaN;
+    const relError = valid && expected !== 0 ? absError / Math.abs(expected) : NaN;
+    return { exact: valid && absError === 0, fuzzy: valid && (absError === 0 || relError <= FUZZY_NUMERIC_TOLERANCE), absError, relError };
+  });
+  return {
+    field,
+    count: pairs.length,
+    exactAccuracy: mean(scored.map(s => s.exact ? 1 : 0)),
+    fuzzyAccuracy: mean(scored.map(s => s.fuzzy ? 1 : 0)),
+    meanAbsoluteError: mean(scored.filter(s => !isNaN(s.absError)).map(s => s.absError)),
+    meanRelativeError: mean(scored.filter(s => !isNaN(s.relError)).map(s => s.relError)),
+  };
+};
+
+const evaluateMarker = (field: MarkerMetric['field'], pairs: EvaluationPair[]): MarkerMetric => {
+  let tp = 0, fp = 0, fn = 0;
+  const ious: number[] = [];
+  labeledFor(field, pairs).forEach(({ truth, predicted }) => {
+    const expected = !!truth[field]?.value;
+    const actual = !!predicted[field]?.value;
+    if (expected && actual) tp++;
+    else if (!expected && actual) fp++;
+    else if (expected && !actual) fn++;
+    const truthBox = truth[field]?.boundingBox;
+    const predictedBox = predicted[field]?.boundingBox;
+    if (expected && truthBox) ious.push(actual && predictedBox ? computeIoU(truthBox, predictedBox) : 0);
+  });
+  // Undefined, not perfect, when the model never marked one or the labels have none.
+  const precision = tp + fp ? tp / (tp + fp) : null;
+  const recall = tp + fn ? tp / (tp + fn) : null;
+  return {
+    field,
+    precision,
+    recall,
+    f1: precision === null || recall === null ? null : precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+    meanIoU: ious.length ? mean(ious) : null,
+    boxCount: ious.length,
+  };
+};
+
+const BUILTIN_FIELDS: string[] = [...TEXT_FIELDS, ...NUMERIC_FIELDS, ...MARKER_FIELDS];
+
+// Fields that templates added to the labels, scored as numbers when every label is one.
+const templateFieldMetrics = (pairs: EvaluationPair[]): FieldMetric[] => {
+  const keys = [...new Set(pairs.flatMap(({ truth }) => Object.keys(truth)))].filter(key => !BUILTIN_FIELDS.includes(key));
+  return keys.map(key => {
+    const labeled = labeledFor(key, pairs);
+    return labeled.every(({ truth }) => typeof truth[key].value === 'number')
+      ? evaluateNumericField(key, pairs)
+      : evaluateTextField(key, pairs);
+  });
+};
+
+export const evaluatePairs = (pairs: EvaluationPair[]): Pick<EvaluationRun, 'fieldMetrics' | 'markerMetrics' | 'overallAccuracy'> => {
+  const fieldMetrics = [
+    ...TEXT_FIELDS.map(field => evaluateTextField(field, pairs)),
+    ...NUMERIC_FIELDS.map(field => evaluateNumericField(field, pairs)),
+    ...templateFieldMetrics(pairs),
+  ].filter(m => m.count > 0);
+  const markerMetrics = MARKER_FIELDS.map(field => evaluateMarker(field, pairs));
+  // Fuzzy field accuracy and marker F1 weighted equally, one vote per field that could be scored.
+  const overallAccuracy = mean([...fieldMetrics.map(m => m.fuzzyAccuracy), ...markerMetrics.flatMap(m => m.f1 === null ? [] : [m.f1])]);
+  return { fieldMetrics, markerMetrics, overallAccuracy };
+};
+
+export interface EvaluationProgress {
+  done: number;
+  total: number;
+}
+
+// Re-extracts every ground-truth document with the given extractor and scores it.
+// Documents whose extraction throws are counted as failures, not scored.
+export const runEvaluation = async (
+  docs: StoredDocument[],
+  providerId: string,
+  extract: (pages: string[], signal?: AbortSignal) => Promise<DocumentData>,
+  loadPages: (docId: string) => Promise<string[]>,
+  onProgress?: (progress: EvaluationProgress) => void,
+  signal?: AbortSignal
+): Promise<EvaluationRun> => {
+  const labeled = docs.filter(d => d.groundTruth);
+  const startedAt = new Date().toISOString();
+  const pairs: EvaluationPair[] = [];
+  let failedCount = 0;
+  for (let i = 0; i < labeled.length; i++) {
+    signal?.throwIfAborted();
+    try {
+      const pages = await loadPages(labeled[i].id);
+      if (!pages.length) throw new Error("Document has no stored images.");
+      pairs.push({ truth: labeled[i].groundTruth!.data, predicted: await extract(pages, signal) });
+    } catch (e) {
+      // A cancelled run is abandoned, not scored with the rest counted as failures.
+      if (signal?.aborted) throw e;
+      console.error("Evaluation extraction failed", e);
+      failedCount++;
+    }
+    onProgress?.({ done: i + 1, total: labeled.length });
+  }
+  return {
+    id: crypto.randomUUID(),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    providerId,
+    sampleCount: pairs.length,
+    failedCount,
+    ...evaluatePairs(pairs),
+  };
+};
+
+// Strips the audit trail so ground truth only carries the final values.
+export const toGroundTruth = (data: DocumentData, source: GroundTruth['source']): GroundTruth => ({
+  data: Object.fromEntries(
+    Object.entries(data).map(([key, field]) => [key, { value: field.value, confidence: 1, ...(field.boundingBox ? { boundingBox: field.boundingBox } : {}) }])
+  ) as DocumentData,
+  labeledAt: new Date().toISOString(),
+  source,
+});
+
+export interface LabeledSample {
+  name?: string;
+  pages: string[];
+  truth: DocumentData;
+}
+
+const toField = (raw: any): ExtractedField<any> =>
+  raw !== null && typeof raw === 'object' && 'value' in raw
+    ? { value: raw.value, confidence: 1, ...(raw.boundingBox ? { boundingBox: raw.boundingBox } : {}) }
+    : { value: raw ?? null, confidence: 1 };
+
+// Accepts `[{ name?, image | pages, labels }]` where each label is either a bare
+// value or `{ value, boundingBox? }`. Labels for template-added fields are kept too.
+export const parseLabeledSet = (text: string): LabeledSample[] => {
+  const parsed = JSON.parse(text);
+  const entries: any[] = Array.isArray(parsed) ? parsed : parsed.samples;
+  if (!Array.isArray(entries)) throw new Error("Labeled set must be an array of samples.");
+  return entries.map((entry, i) => {
+    const pages: string[] = entry.pages || (entry.image ? [entry.image] : []);
+    const labels = entry.labels || entry.groundTruth;
+    if (!pages.length || typeof pages[0] !== 'string' || !pages[0].startsWith('data:')) throw new Error(`Sample ${i + 1} has no data URL image.`);
+    if (!labels || typeof labels !== 'object') throw new Error(`Sample ${i + 1} has no labels.`);
+    const keys = [...BUILTIN_FIELDS, ...Object.keys(labels).filter(key => !BUILTIN_FIELDS.includes(key))];
+    const truth = Object.fromEntries(keys.map(field => [field, toField(labels[field])])) as DocumentData;
+    return { name: entry.name, pages, truth };
+  });
+};
+
+// Archive record for an imported sample. `data` is the label shaped to the template, so
+// fields the label leaves out get their empty value like any extraction would; the
+// label itself, blanks included, is kept as the ground truth.
+export const labeledSampleDocument = (sample: LabeledSample, template: SchemaTemplate, id: string): StoredDocument => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    timestamp: now,
+    pageCount: sample.pages.length,
+    data: conformToTemplate(sample.truth, template, sample.pages.length),
+    metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+    template: templateRef(template),
+    relations: [],
+    groundTruth: { data: sample.truth, labeledAt: now, source: 'import' },
+  };
+};
@@ -0,0 +1,48 @@
+
+import { ChatHistoryItem, DocumentData, SchemaTemplate, TokenUsage } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export type ProviderId = 'gemini' | 'mock';
+
+// `usage` is absent for providers that don't bill, such as the offline mock.
+export interface ExtractionResult {
+  data: DocumentData;
+  usage?: TokenUsage;
+}
+
+// Everything the UI needs from a model backend. App.tsx and ChatBot.tsx only
+// ever talk to this interface, never to a concrete SDK.
+export interface ExtractionProvider {
+  id: ProviderId;
+  label: string;
+  // `data` carries every field of `template` (the default template when omitted).
+  // Aborting `signal` rejects the call with the signal's reason.
+  extractInvoiceData: (pages: string[], template?: SchemaTemplate, signal?: AbortSignal) => Promise<ExtractionResult>;
+  generateImageFromPrompt: (prompt: string, signal?: AbortSignal) => Promise<string>;
+  sendMultimodalChatMessage: (history: ChatHistoryItem[], newMessage: string, image?: string, signal?: AbortSignal) => Promise<string>;
+}
+
+const PROVIDER_STORAGE_KEY = 'docu_provider';
+
+// The env override wins over the operator's last pick so offline setups stay offline.
+export const getDefaultProviderId = (): ProviderId => {
+  if (process.env.EXTRACTION_PROVIDER === 'mock') return 'mock';
+  const saved = typeof window !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE_KEY) : null;
+  if (saved === 'gemini' || saved === 'mock') return saved;
+  // Without a key the live provider cannot do anything useful, so start offline.
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const saveProviderId = (id: ProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+const providers: Record<ProviderId, ExtractionProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const getExtractionProvider = (id: ProviderId): ExtractionProvider => providers[id] || mockProvider;
+
+export const listExtractionProviders = (): ExtractionProvider[] => Object.values(providers);
@@ -1,132 +1,220 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { InvoiceData } from "../types";
+import { GoogleGenAI, Type, GenerateContentParameters, GenerateContentResponse, MediaModality, ModalityTokenCount } from "@google/genai";
+import { ChatHistoryItem, SchemaFieldType, SchemaTemplate, SpendKind, TokenUsage } from "../types";
+import type { ExtractionProvider, ExtractionResult } from "./extractionProvider";
+import { getDataUrlMimeType, stripDataUrl } from "./imageHash";
+import { backoffDelay, createRateLimiter, sleep } from "./requestPacing";
+import { ResponseValidationError, checkExtractionResponse } from "./responseValidation";
+import { DEFAULT_TEMPLATE, buildExtractionPrompt, buildRepairPrompt, conformToTemplate } from "./schemaTemplates";
+import { assertWithinBudget, loadModelPrices, priceUsage, recordSpend } from "./spendLedger";
 
-// Always use const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the app can boot (and run the mock provider) without a key.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new Error("GEMINI_API_KEY is not configured. Switch to the offline provider or set the key.");
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The model did not respond within ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(message: string = "The model's request quota is exhausted.") {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 20000;
+// Client-side ceiling, kept under the API's per-minute quota so bursts (batch runs,
+// evaluations) queue here instead of coming back as 429s.
+const REQUESTS_PER_MINUTE = 30;
+const BURST_SIZE = 5;
+
+const EXTRACTION_TIMEOUT_MS = 90000;
+// Repair re-prompts sent for a response that fails validation, before giving up.
+const MAX_REPAIR_ATTEMPTS = 2;
+const GENERATION_TIMEOUT_MS = 120000;
+const CHAT_TIMEOUT_MS = 60000;
+
+interface RequestOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+// Shared by every call, so parallel batch workers draw from the same budget.
+const rateLimiter = createRateLimiter(BURST_SIZE, REQUESTS_PER_MINUTE);
+
+const errorStatus = (err: any): number | undefined => typeof err?.status === 'number' ? err.status : undefined;
+
+const isQuotaError = (err: any) => errorStatus(err) === 429 || /resource_exhausted|quota/i.test(err?.message || '');
+
+// 429s, server errors and dropped connections (fetch rejects with a TypeError) are
+// transient; anything else will fail the same way on the next attempt.
+const isTransient = (err: any) => {
+  const status = errorStatus(err);
+  return isQuotaError(err) || (status !== undefined && status >= 500) || err instanceof TypeError;
+};
+
+// Aborts on the caller's signal or after `timeoutMs`, whichever comes first.
+const attemptSignal = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+  const forward = () => controller.abort(signal!.reason);
+  if (signal?.aborted) forward();
+  else signal?.addEventListener('abort', forward, { once: true });
+  return {
+    signal: controller.signal,
+    release: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forward);
+    },
+  };
+};
+
+// The SDK is handed the signal too, but the race guarantees a hung request never outlives it.
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) => Promise.race([
+  promise,
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  }),
+]);
+
+// Every model call goes through here: rate limited, bounded by a per-attempt
+// timeout, retried with backoff on transient failures and cancellable throughout.
+const generateContent = async (params: GenerateContentParameters, { timeoutMs, signal }: RequestOptions): Promise<GenerateContentResponse> => {
+  for (let attempt = 1; ; attempt++) {
+    await rateLimiter.take(signal);
+    const deadline = attemptSignal(timeoutMs, signal);
+    try {
+      return await abortable(getClient().models.generateContent({ ...params, config: { ...params.config, abortSignal: deadline.signal } }), deadline.signal);
+    } catch (err: any) {
+      if (deadline.signal.aborted) throw deadline.signal.reason;
+      if (!isTransient(err)) throw err;
+      if (attempt >= MAX_ATTEMPTS) throw isQuotaError(err) ? new RateLimitError() : err;
+    } finally {
+      deadline.release();
+    }
+    await sleep(backoffDelay(attempt, BACKOFF_BASE_MS, BACKOFF_MAX_MS), signal);
+  }
+};
 
-export const extractInvoiceData = async (imageBase64: string): Promise<InvoiceData> => {
+const imageTokenCount = (details?: ModalityTokenCount[]): number =>
+  (details || []).filter(d => d.modality === MediaModality.IMAGE).reduce((sum, d) => sum + (d.tokenCount || 0), 0);
+
+// Prices the call from the current price table and books it in the spend ledger.
+// Thinking tokens are billed as output.
+const recordUsage = (kind: SpendKind, model: string, response: GenerateContentResponse): TokenUsage => {
+  const meta = response.usageMetadata;
+  const usage = priceUsage({
+    model,
+    promptTokens: meta?.promptTokenCount || 0,
+    outputTokens: (meta?.candidatesTokenCount || 0) + (meta?.thoughtsTokenCount || 0),
+    imageInputTokens: imageTokenCount(meta?.promptTokensDetails),
+    imageOutputTokens: imageTokenCount(meta?.candidatesTokensDetails),
+  }, loadModelPrices());
+  recordSpend(kind, usage);
+  return usage;
+};
+
+// Both calls are booked separately in the ledger; the document carries the total.
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  model: a.model,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  imageInputTokens: a.imageInputTokens + b.imageInputTokens,
+  imageOutputTokens: a.imageOutputTokens + b.imageOutputTokens,
+  costUsd: a.costUsd + b.costUsd,
+});
+
+const boundingBoxSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ymin: { type: Type.NUMBER },
+    xmin: { type: Type.NUMBER },
+    ymax: { type: Type.NUMBER },
+    xmax: { type: Type.NUMBER },
+    page: { type: Type.INTEGER, description: "Zero-based index of the page the box is on" }
+  }
+};
+
+const VALUE_TYPES: Record<SchemaFieldType, Type> = {
+  string: Type.STRING,
+  date: Type.STRING,
+  number: Type.NUMBER,
+  currency: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const buildResponseSchema = (template: SchemaTemplate) => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(template.fields.map(field => [field.key, {
+    type: Type.OBJECT,
+    properties: {
+      value: { type: VALUE_TYPES[field.type], description: field.description },
+      confidence: { type: Type.NUMBER },
+      boundingBox: boundingBoxSchema
+    },
+    required: ["value", "confidence"]
+  }])),
+  required: template.fields.filter(f => f.builtIn || f.validation?.required).map(f => f.key)
+});
+
+export const extractInvoiceData = async (pages: string[], template: SchemaTemplate = DEFAULT_TEMPLATE, signal?: AbortSignal): Promise<ExtractionResult> => {
   const model = "gemini-3-flash-preview";
-  
-  const response = await ai.models.generateContent({
+  assertWithinBudget();
+
+  const response = await generateContent({
     model,
     contents: {
       parts: [
-        {
-          text: `You are an expert Document AI assistant. Analyze this document image, classify its type, and extract the following fields in strict JSON format.
-          Handle multilingual content (English, Hindi, Gujarati).
-          Return confidence scores (0-1) for each field.
-          For Dealer Signature and Dealer Stamp, check for their presence and provide bounding boxes if present in normalized coordinates [0, 1000].
-          
-          Document Classification Rules:
-          - "Invoice": Must contain terms like "Tax Invoice", "Bill", "Sales Invoice", or clear payment due details.
-          - "Quotation": Must contain terms like "Estimate", "Quotation", "Pro-forma", or "Offer". Usually lacks a bill number or date.
-          - "Other": Use if the document is neither a clear invoice nor a quotation (e.g., delivery notes, purchase orders).
-
-          Fields to extract:
-          1. Document Type: Classify as "Invoice", "Quotation", or "Other".
-          2. Dealer Name (fuzzy match)
-          3. Model Name (exact match)
-          4. Horse Power (numeric value, e.g., "50 HP" -> 50)
-          5. Asset Cost (numeric digits only)
-          6. Dealer Signature (presence + bounding box)
-          7. Dealer Stamp (presence + bounding box)
-          `
-        },
-        {
+        { text: buildExtractionPrompt(template, pages.length) },
+        ...pages.map(page => ({
           inlineData: {
-            mimeType: "image/jpeg",
-            data: imageBase64.split(",")[1] || imageBase64
+            mimeType: getDataUrlMimeType(page),
+            data: stripDataUrl(page)
           }
-        }
+        }))
       ]
     },
     config: {
       responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          documentType: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.STRING, description: "Classified type: Invoice, Quotation, or Other" },
-              confidence: { type: Type.NUMBER }
-            },
-            required: ["value", "confidence"]
-          },
-          dealerName: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.STRING },
-              confidence: { type: Type.NUMBER }
-            }
-          },
-          modelName: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.STRING },
-              confidence: { type: Type.NUMBER }
-            }
-          },
-          horsePower: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.NUMBER },
-              confidence: { type: Type.NUMBER }
-            }
-          },
-          assetCost: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.NUMBER },
-              confidence: { type: Type.NUMBER }
-            }
-          },
-          dealerSignature: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.BOOLEAN },
-              confidence: { type: Type.NUMBER },
-              boundingBox: {
-                type: Type.OBJECT,
-                properties: {
-                  ymin: { type: Type.NUMBER },
-                  xmin: { type: Type.NUMBER },
-                  ymax: { type: Type.NUMBER },
-                  xmax: { type: Type.NUMBER }
-                }
-              }
-            }
-          },
-          dealerStamp: {
-            type: Type.OBJECT,
-            properties: {
-              value: { type: Type.BOOLEAN },
-              confidence: { type: Type.NUMBER },
-              boundingBox: {
-                type: Type.OBJECT,
-                properties: {
-                  ymin: { type: Type.NUMBER },
-                  xmin: { type: Type.NUMBER },
-                  ymax: { type: Type.NUMBER },
-                  xmax: { type: Type.NUMBER }
-                }
-              }
-            }
-          }
-        },
-        required: ["documentType", "dealerName", "modelName", "horsePower", "assetCost", "dealerSignature", "dealerStamp"]
-      }
+      responseSchema: buildResponseSchema(template)
     }
-  });
+  }, { timeoutMs: EXTRACTION_TIMEOUT_MS, signal });
 
-  if (!response.text) throw new Error("Empty response from AI");
-  return JSON.parse(response.text.trim());
+  let usage = recordUsage('extraction', model, response);
+  let text = response.text;
+  for (let repairs = 0; ; repairs++) {
+    const { raw, problems } = checkExtractionResponse(text, template);
+    if (raw && !problems.length) return { data: conformToTemplate(raw, template, pages.length), usage };
+    if (repairs >= MAX_REPAIR_ATTEMPTS) throw new ResponseValidationError(problems);
+    assertWithinBudget();
+    const repaired = await generateContent({
+      model,
+      contents: { parts: [{ text: buildRepairPrompt(template, text || '', problems) }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(template)
+      }
+    }, { timeoutMs: EXTRACTION_TIMEOUT_MS, signal });
+    usage = addUsage(usage, recordUsage('extraction', model, repaired));
+    text = repaired.text;
+  }
 };
 
-export const generateImageFromPrompt = async (prompt: string): Promise<string> => {
+export const generateImageFromPrompt = async (prompt: string, signal?: AbortSignal): Promise<string> => {
   const model = 'gemini-2.5-flash-image';
-  const response = await ai.models.generateContent({
+  assertWithinBudget();
+  const response = await generateContent({
     model,
     contents: { parts: [{ text: prompt }] },
     config: {
@@ -134,7 +222,8 @@ export const generateImageFromPrompt = async (prompt: string): Promise<string> =
         aspectRatio: "1:1"
       }
     }
-  });
+  }, { timeoutMs: GENERATION_TIMEOUT_MS, signal });
+  recordUsage('generation', model, response);
 
   for (const part of response.candidates[0].content.parts) {
     if (part.inlineData) {
@@ -145,18 +234,20 @@ export const generateImageFromPrompt = async (prompt: string): Promise<string> =
 };
 
 export const sendMultimodalChatMessage = async (
-  history: { role: string; parts: any[] }[],
+  history: ChatHistoryItem[],
   newMessage: string,
-  image?: string
+  image?: string,
+  signal?: AbortSignal
 ): Promise<string> => {
   const model = 'gemini-3-pro-preview';
-  
+  assertWithinBudget();
+
   const userParts: any[] = [{ text: newMessage }];
   if (image) {
     userParts.push({
       inlineData: {
-        mimeType: 'image/jpeg',
-        data: image.split(',')[1] || image,
+        mimeType: getDataUrlMimeType(image),
+        data: stripDataUrl(image),
       },
     });
   }
@@ -166,13 +257,22 @@ export const sendMultimodalChatMessage = async (
     { role: 'user', parts: userParts }
   ];
 
-  const response = await ai.models.generateContent({
+  const response = await generateContent({
     model,
     contents,
     config: {
       systemInstruction: 'You are an AI assistant for DocuExtract AI. You help users process documents, explain extraction results, and analyze document images they upload. You have full vision capabilities and can see details in invoices, stamps, and signatures. Be professional and technical.',
     },
-  });
+  }, { timeoutMs: CHAT_TIMEOUT_MS, signal });
+  recordUsage('chat', model, response);
 
   return response.text || "I couldn't process that request.";
 };
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Gemini (Live)',
+  extractInvoiceData,
+  generateImageFromPrompt,
+  sendMultimodalChatMessage,
+};
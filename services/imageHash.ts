@@ -0,0 +1,17 @@
+
+export const stripDataUrl = (dataUrl: string): string => dataUrl.split(",")[1] || dataUrl;
+
+export const getDataUrlMimeType = (dataUrl: string, fallback: string = 'image/jpeg'): string =>
+  dataUrl.match(/^data:([^;,]+)[;,]/)?.[1] || fallback;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 over the decoded image bytes, so the same file always maps to the same key
+// regardless of the data URL prefix it arrived with.
+export const hashImageContent = async (dataUrl: string): Promise<string> => {
+  const binary = atob(stripDataUrl(dataUrl));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
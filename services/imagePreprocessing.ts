@@ -0,0 +1,434 @@
+
+import { PreprocessingSummary } from "../types";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Page corners as fractions of the upright image, clockwise from top-left.
+export type Quad = [Point, Point, Point, Point];
+
+export interface PreprocessOptions {
+  // Manual crop; when absent the page edges are detected if `autoCrop` is on.
+  quad?: Quad;
+  autoCrop?: boolean;
+  enhance?: boolean;
+  maxDimension?: number;
+  targetBytes?: number;
+}
+
+export interface PreprocessResult {
+  image: string;
+  // Crop that was applied, detected or manual; null when the full frame was kept.
+  quad: Quad | null;
+  summary: PreprocessingSummary;
+}
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+// Long enough for small print to stay legible to the model; phone photos are usually 2-3x this.
+const DEFAULT_MAX_DIMENSION = 2000;
+const DEFAULT_TARGET_BYTES = 600 * 1024;
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.55];
+// Cap on the decoded photo the crop samples from. The per-pixel passes (warp, contrast)
+// only ever produce output-sized images, so a 12 MP photo doesn't cost seconds per pass.
+const WORKING_MAX_DIMENSION = 3000;
+const DETECTION_SIZE = 320;
+const SKEW_ANALYSIS_SIZE = 800;
+const MAX_SKEW_DEGREES = 8;
+const SKEW_STEP_DEGREES = 0.25;
+// A detected page smaller than this is more likely a label or shadow than the document.
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.95;
+
+export const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available for image preprocessing.");
+  return [canvas, ctx];
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode the image."));
+    img.src = src;
+  });
+
+// Yields so the preview can repaint between the heavier passes.
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const dataUrlBytes = (dataUrl: string): number => Math.ceil((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Reads the EXIF orientation tag (1-8) from a JPEG data URL; 1 when there is none.
+export const readExifOrientation = (dataUrl: string): number => {
+  if (!dataUrl.startsWith('data:image/jpeg')) return 1;
+  const head = atob(dataUrl.slice(dataUrl.indexOf(',') + 1, dataUrl.indexOf(',') + 1 + 87384));
+  const byte = (i: number) => head.charCodeAt(i) & 0xff;
+  if (byte(0) !== 0xff || byte(1) !== 0xd8) return 1;
+  let offset = 2;
+  while (offset + 4 < head.length) {
+    if (byte(offset) !== 0xff) return 1;
+    const marker = byte(offset + 1);
+    const length = (byte(offset + 2) << 8) | byte(offset + 3);
+    if (marker === 0xe1 && head.slice(offset + 4, offset + 10) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      const little = head.slice(tiff, tiff + 2) === 'II';
+      const u16 = (i: number) => little ? byte(i) | (byte(i + 1) << 8) : (byte(i) << 8) | byte(i + 1);
+      const u32 = (i: number) => little ? u16(i) | (u16(i + 2) << 16) : (u16(i) << 16) | u16(i + 2);
+      const ifd = tiff + u32(tiff + 4);
+      const entries = u16(ifd);
+      for (let e = 0; e < entries; e++) {
+        const entry = ifd + 2 + e * 12;
+        if (u16(entry) === 0x0112) return u16(entry + 8) || 1;
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Current browsers rotate JPEGs by their EXIF tag when decoding; older ones need it done by hand.
+const browserAppliesOrientation = (): boolean =>
+  typeof CSS !== 'undefined' && !!CSS.supports?.('image-orientation', 'from-image');
+
+// `rotated` is false when there was nothing to do or the browser had already done it.
+const drawUpright = (img: HTMLImageElement, orientation: number, maxDimension: number): { canvas: HTMLCanvasElement; rotated: boolean } => {
+  const manual = orientation > 1 && !browserAppliesOrientation();
+  const swap = manual && orientation >= 5;
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  const [canvas, ctx] = createCanvas(swap ? h : w, swap ? w : h);
+  if (manual) {
+    switch (orientation) {
+      case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+      case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+      case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+      case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+      case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+      case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+      case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+    }
+  }
+  ctx.drawImage(img, 0, 0, w, h);
+  return { canvas, rotated: manual };
+};
+
+const fitWithin = (source: HTMLCanvasElement, maxDimension: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  if (scale === 1) return source;
+  const [scaled, ctx] = createCanvas(source.width * scale, source.height * scale);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, scaled.width, scaled.height);
+  return scaled;
+};
+
+export const grayscale = (source: HTMLCanvasElement, size: number): { gray: Uint8ClampedArray; width: number; height: number } => {
+  const scale = Math.min(1, size / Math.max(source.width, source.height));
+  const [canvas, ctx] = createCanvas(source.width * scale, source.height * scale);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  return { gray, width: canvas.width, height: canvas.height };
+};
+
+const otsuThreshold = (gray: Uint8ClampedArray): number => {
+  const histogram = new Array(256).fill(0);
+  for (const v of gray) histogram[v]++;
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+  let sumBack = 0, weightBack = 0, best = 0, threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBack += histogram[t];
+    if (!weightBack || weightBack === total) continue;
+    sumBack += t * histogram[t];
+    const meanBack = sumBack / weightBack;
+    const meanFore = (sum - sumBack) / (total - weightBack);
+    const between = weightBack * (total - weightBack) * (meanBack - meanFore) ** 2;
+    if (between > best) { best = between; threshold = t; }
+  }
+  return threshold;
+};
+
+const quadArea = (q: Quad): number =>
+  Math.abs(q.reduce((acc, p, i) => acc + p.x * q[(i + 1) % 4].y - q[(i + 1) % 4].x * p.y, 0)) / 2;
+
+// The page is taken to be the largest bright region against a darker background.
+const largestBrightRegion = (source: HTMLCanvasElement): { pixels: number[]; width: number; height: number } => {
+  const { gray, width, height } = grayscale(source, DETECTION_SIZE);
+  const threshold = otsuThreshold(gray);
+  const visited = new Uint8Array(gray.length);
+  const stack = new Int32Array(gray.length);
+  let bestPixels: number[] = [];
+  for (let start = 0; start < gray.length; start++) {
+    if (visited[start] || gray[start] <= threshold) continue;
+    const pixels: number[] = [];
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    while (top) {
+      const i = stack[--top];
+      pixels.push(i);
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= gray.length || visited[n] || gray[n] <= threshold) continue;
+        visited[n] = 1;
+        stack[top++] = n;
+      }
+    }
+    if (pixels.length > bestPixels.length) bestPixels = pixels;
+  }
+  return { pixels: bestPixels, width, height };
+};
+
+// Fraction of the frame taken up by the page.
+export const measurePageCoverage = (source: HTMLCanvasElement): number => {
+  const { pixels, width, height } = largestBrightRegion(source);
+  return pixels.length / (width * height);
+};
+
+// Takes the extreme corners of the page region.
+const pageQuad = (bestPixels: number[], width: number, height: number, coverage: number): Quad | null => {
+  if (coverage < MIN_PAGE_AREA || coverage > MAX_PAGE_AREA) return null;
+  let tl = bestPixels[0], tr = tl, br = tl, bl = tl;
+  const sumOf = (i: number) => i % width + Math.floor(i / width);
+  const diffOf = (i: number) => i % width - Math.floor(i / width);
+  for (const i of bestPixels) {
+    if (sumOf(i) < sumOf(tl)) tl = i;
+    if (sumOf(i) > sumOf(br)) br = i;
+    if (diffOf(i) > diffOf(tr)) tr = i;
+    if (diffOf(i) < diffOf(bl)) bl = i;
+  }
+  const toPoint = (i: number): Point => ({ x: (i % width + 0.5) / width, y: (Math.floor(i / width) + 0.5) / height });
+  const quad: Quad = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+  return quadArea(quad) >= MIN_PAGE_AREA ? quad : null;
+};
+
+// Finds the page once for callers that need both its outline and its coverage.
+// The quad is null when the page already fills the frame or nothing page-like stands out.
+export const locatePage = (source: HTMLCanvasElement): { quad: Quad | null; coverage: number } => {
+  const { pixels, width, height } = largestBrightRegion(source);
+  const coverage = pixels.length / (width * height);
+  return { quad: pageQuad(pixels, width, height, coverage), coverage };
+};
+
+export const detectDocumentQuad = (source: HTMLCanvasElement): Quad | null => locatePage(source).quad;
+
+// Solves for the homography taking the output rectangle's corners to `to`.
+const solveHomography = (from: Point[], to: Point[]): number[] => {
+  const a: number[][] = [];
+  from.forEach((p, i) => {
+    const q = to[i];
+    a.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x, q.x]);
+    a.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y, q.y]);
+  });
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  return a.map((row, i) => row[8] / row[i]);
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const warpPerspective = (source: HTMLCanvasElement, quad: Quad, maxDimension: number): HTMLCanvasElement => {
+  const corners = quad.map(p => ({ x: p.x * source.width, y: p.y * source.height }));
+  const [tl, tr, br, bl] = corners;
+  let width = Math.max(distance(tl, tr), distance(bl, br));
+  let height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  width = Math.round(width * scale);
+  height = Math.round(height * scale);
+  const h = solveHomography([{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }], corners);
+  const src = source.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, source.width, source.height);
+  const [canvas, ctx] = createCanvas(width, height);
+  const out = ctx.createImageData(width, height);
+  const sw = source.width, sh = source.height;
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const w = h[6] * u + h[7] * v + 1;
+      const x = Math.min(sw - 1.001, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+      const y = Math.min(sh - 1.001, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+      const x0 = Math.floor(x), y0 = Math.floor(y), fx = x - x0, fy = y - y0;
+      const i00 = (y0 * sw + x0) * 4, i10 = i00 + 4, i01 = i00 + sw * 4, i11 = i01 + 4;
+      const o = (v * width + u) * 4;
+      for (let c = 0; c < 3; c++) {
+        out.data[o + c] = (src.data[i00 + c] * (1 - fx) + src.data[i10 + c] * fx) * (1 - fy) + (src.data[i01 + c] * (1 - fx) + src.data[i11 + c] * fx) * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+// Projection-profile skew estimate: text rows give the sharpest row histogram
+// when projected along their own angle. Returns the angle of the text lines in degrees.
+export const estimateSkew = (source: HTMLCanvasElement): number => {
+  const { gray, width, height } = grayscale(source, SKEW_ANALYSIS_SIZE);
+  const threshold = otsuThreshold(gray);
+  const step = Math.max(1, Math.floor(gray.length / 40000));
+  const xs: number[] = [], ys: number[] = [];
+  for (let i = 0; i < gray.length; i += step) {
+    if (gray[i] < threshold) { xs.push(i % width); ys.push(Math.floor(i / width)); }
+  }
+  if (xs.length < 200) return 0;
+  const span = width + height;
+  let bestAngle = 0, bestScore = -1;
+  for (let deg = -MAX_SKEW_DEGREES; deg <= MAX_SKEW_DEGREES; deg += SKEW_STEP_DEGREES) {
+    const rad = deg * Math.PI / 180;
+    const sin = Math.sin(rad), cos = Math.cos(rad);
+    const bins = new Int32Array(span * 2);
+    for (let k = 0; k < xs.length; k++) bins[Math.round(-xs[k] * sin + ys[k] * cos) + span]++;
+    let score = 0;
+    for (const count of bins) score += count * count;
+    if (score > bestScore) { bestScore = score; bestAngle = deg; }
+  }
+  return bestAngle;
+};
+
+const rotate = (source: HTMLCanvasElement, degrees: number): HTMLCanvasElement => {
+  const rad = degrees * Math.PI / 180;
+  const sin = Math.abs(Math.sin(rad)), cos = Math.abs(Math.cos(rad));
+  const [canvas, ctx] = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// Divides out uneven lighting (shadows, vignetting, colour cast) using a coarse
+// map of the brightest pixels, then stretches the levels to the full range.
+export const normalizeContrast = (source: HTMLCanvasElement): HTMLCanvasElement => {
+  const { width, height } = source;
+  const ctx = source.getContext('2d', { willReadFrequently: true })!;
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  const block = Math.max(8, Math.ceil(Math.max(width, height) / 32));
+  const bx = Math.ceil(width / block), by = Math.ceil(height / block);
+  const [mapCanvas, mapCtx] = createCanvas(bx, by);
+  const map = mapCtx.createImageData(bx, by);
+  for (let j = 0; j < by; j++) {
+    for (let i = 0; i < bx; i++) {
+      let best = 0, bestIndex = 0;
+      for (let y = j * block; y < Math.min(height, (j + 1) * block); y += 2) {
+        for (let x = i * block; x < Math.min(width, (i + 1) * block); x += 2) {
+          const p = (y * width + x) * 4;
+          const lum = data[p] + data[p + 1] + data[p + 2];
+          if (lum > best) { best = lum; bestIndex = p; }
+        }
+      }
+      const m = (j * bx + i) * 4;
+      map.data[m] = data[bestIndex];
+      map.data[m + 1] = data[bestIndex + 1];
+      map.data[m + 2] = data[bestIndex + 2];
+      map.data[m + 3] = 255;
+    }
+  }
+  mapCtx.putImageData(map, 0, 0);
+  const [bgCanvas, bgCtx] = createCanvas(width, height);
+  bgCtx.imageSmoothingQuality = 'high';
+  bgCtx.drawImage(mapCanvas, 0, 0, width, height);
+  const background = bgCtx.getImageData(0, 0, width, height).data;
+  bgCanvas.width = 0;
+
+  const histogram = new Array(256).fill(0);
+  for (let p = 0; p < data.length; p += 4) {
+    for (let c = 0; c < 3; c++) data[p + c] = Math.min(255, data[p + c] * 255 / Math.max(64, background[p + c]));
+    histogram[Math.round((data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000)]++;
+  }
+  const pixels = data.length / 4;
+  let low = 0, high = 255, seen = 0;
+  for (let v = 0; v < 256; v++) { seen += histogram[v]; if (seen >= pixels * 0.01) { low = v; break; } }
+  seen = 0;
+  for (let v = 255; v >= 0; v--) { seen += histogram[v]; if (seen >= pixels * 0.01) { high = v; break; } }
+  if (high - low > 32) {
+    const gain = 255 / (high - low);
+    for (let p = 0; p < data.length; p += 4) {
+      for (let c = 0; c < 3; c++) data[p + c] = (data[p + c] - low) * gain;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return source;
+};
+
+// Scales to fit `maxDimension`, then steps the JPEG quality down until the target size is met.
+const encode = (source: HTMLCanvasElement, maxDimension: number, targetBytes: number): string => {
+  const canvas = fitWithin(source, maxDimension);
+  let encoded = '';
+  for (const quality of JPEG_QUALITIES) {
+    encoded = canvas.toDataURL('image/jpeg', quality);
+    if (dataUrlBytes(encoded) <= targetBytes) break;
+  }
+  return encoded;
+};
+
+export const preprocessImage = async (dataUrl: string, options: PreprocessOptions = {}): Promise<PreprocessResult> => {
+  const { autoCrop = true, enhance = true, maxDimension = DEFAULT_MAX_DIMENSION, targetBytes = DEFAULT_TARGET_BYTES } = options;
+  const steps: string[] = [];
+  const img = await loadImage(dataUrl);
+  const upright = drawUpright(img, readExifOrientation(dataUrl), WORKING_MAX_DIMENSION);
+  let canvas = upright.canvas;
+  if (upright.rotated) steps.push('Orientation corrected');
+  await nextFrame();
+
+  // The warp samples the full working image but writes an output-sized page; without
+  // a crop the photo is scaled down here, before deskew and contrast touch every pixel.
+  const quad = options.quad || (autoCrop ? detectDocumentQuad(canvas) : null);
+  if (quad) {
+    canvas = warpPerspective(canvas, quad, maxDimension);
+    steps.push(options.quad ? 'Cropped manually' : 'Page edges detected and cropped');
+  } else {
+    canvas = fitWithin(canvas, maxDimension);
+  }
+  await nextFrame();
+
+  const skew = estimateSkew(canvas);
+  if (Math.abs(skew) >= SKEW_STEP_DEGREES) {
+    canvas = rotate(canvas, -skew);
+    steps.push(`Deskewed ${skew > 0 ? '+' : ''}${skew.toFixed(2)}°`);
+    await nextFrame();
+  }
+
+  if (enhance) {
+    canvas = normalizeContrast(canvas);
+    steps.push('Lighting and contrast normalized');
+    await nextFrame();
+  }
+
+  const image = encode(canvas, maxDimension, targetBytes);
+  const resized = await loadImage(image);
+  steps.push(`Compressed to ${resized.naturalWidth}×${resized.naturalHeight} JPEG`);
+  return {
+    image,
+    quad,
+    summary: { steps, originalBytes: dataUrlBytes(dataUrl), bytes: dataUrlBytes(image), width: resized.naturalWidth, height: resized.naturalHeight },
+  };
+};
+
+// Multi-page captures store one summary: steps are prefixed by page, sizes summed,
+// dimensions taken from the first page.
+export const combineSummaries = (summaries: PreprocessingSummary[]): PreprocessingSummary => summaries.length === 1 ? summaries[0] : {
+  steps: summaries.flatMap((s, i) => s.steps.map(step => `Page ${i + 1}: ${step}`)),
+  originalBytes: summaries.reduce((sum, s) => sum + s.originalBytes, 0),
+  bytes: summaries.reduce((sum, s) => sum + s.bytes, 0),
+  width: summaries[0].width,
+  height: summaries[0].height,
+};
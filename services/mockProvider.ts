@@ -0,0 +1,116 @@
+/// <reference types="vite/client" />
+import { ChatHistoryItem, ExtractedField, InvoiceData, SchemaTemplate } from "../types";
+import type { ExtractionProvider, ExtractionResult } from "./extractionProvider";
+import { hashImageContent } from "./imageHash";
+import { sleep } from "./requestPacing";
+import { DEFAULT_TEMPLATE, conformToTemplate } from "./schemaTemplates";
+
+// Optional fixtures: drop `fixtures/<sha256-of-image>.json` (an InvoiceData object)
+// into the repo and the offline provider returns it verbatim for that image.
+const fixtureModules = import.meta.glob<InvoiceData>('../fixtures/*.json', { eager: true, import: 'default' });
+
+const fixturesByHash: Record<string, InvoiceData> = Object.fromEntries(
+  Object.entries(fixtureModules).map(([path, data]) => [path.split('/').pop()!.replace(/\.json$/, ''), data])
+);
+
+const SIMULATED_LATENCY_MS = 450;
+
+const field = <T>(value: T, confidence: number, boundingBox?: ExtractedField<T>['boundingBox']): ExtractedField<T> =>
+  boundingBox ? { value, confidence, boundingBox } : { value, confidence };
+
+const BUILTIN_FIXTURES: InvoiceData[] = [
+  {
+    documentType: field('Invoice', 0.98, { ymin: 60, xmin: 60, ymax: 120, xmax: 420 }),
+    dealerName: field('Shree Ganesh Tractors', 0.94, { ymin: 140, xmin: 60, ymax: 190, xmax: 560 }),
+    modelName: field('Mahindra 575 DI XP Plus', 0.97, { ymin: 300, xmin: 60, ymax: 350, xmax: 620 }),
+    horsePower: field(47, 0.95, { ymin: 300, xmin: 640, ymax: 350, xmax: 760 }),
+    assetCost: field(725000, 0.96, { ymin: 560, xmin: 640, ymax: 610, xmax: 940 }),
+    dealerSignature: field(true, 0.91, { ymin: 820, xmin: 640, ymax: 900, xmax: 880 }),
+    dealerStamp: field(true, 0.88, { ymin: 760, xmin: 120, ymax: 920, xmax: 360 }),
+  },
+  {
+    documentType: field('Quotation', 0.95, { ymin: 60, xmin: 60, ymax: 120, xmax: 420 }),
+    dealerName: field('Shree Ganesh Tractors', 0.92, { ymin: 140, xmin: 60, ymax: 190, xmax: 560 }),
+    modelName: field('Mahindra 575 DI XP Plus', 0.96, { ymin: 300, xmin: 60, ymax: 350, xmax: 620 }),
+    horsePower: field(47, 0.93, { ymin: 300, xmin: 640, ymax: 350, xmax: 760 }),
+    assetCost: field(740000, 0.9, { ymin: 560, xmin: 640, ymax: 610, xmax: 940 }),
+    dealerSignature: field(true, 0.86, { ymin: 830, xmin: 620, ymax: 905, xmax: 870 }),
+    dealerStamp: field(false, 0.72),
+  },
+  {
+    documentType: field('Invoice', 0.97, { ymin: 60, xmin: 60, ymax: 120, xmax: 420 }),
+    dealerName: field('Kisan Agro Motors', 0.89, { ymin: 140, xmin: 60, ymax: 190, xmax: 560 }),
+    modelName: field('Swaraj 744 FE', 0.95, { ymin: 300, xmin: 60, ymax: 350, xmax: 620 }),
+    horsePower: field(48, 0.94, { ymin: 300, xmin: 640, ymax: 350, xmax: 760 }),
+    assetCost: field(690000, 0.93, { ymin: 560, xmin: 640, ymax: 610, xmax: 940 }),
+    dealerSignature: field(false, 0.66),
+    dealerStamp: field(true, 0.9, { ymin: 780, xmin: 140, ymax: 930, xmax: 380 }),
+  },
+  {
+    documentType: field('Quotation', 0.93, { ymin: 60, xmin: 60, ymax: 120, xmax: 420 }),
+    dealerName: field('Patel Tractor House', 0.81, { ymin: 140, xmin: 60, ymax: 190, xmax: 560 }),
+    modelName: field('Sonalika DI 745 III', 0.92, { ymin: 300, xmin: 60, ymax: 350, xmax: 620 }),
+    horsePower: field(50, 0.9, { ymin: 300, xmin: 640, ymax: 350, xmax: 760 }),
+    assetCost: field(655000, 0.88, { ymin: 560, xmin: 640, ymax: 610, xmax: 940 }),
+    dealerSignature: field(true, 0.84, { ymin: 810, xmin: 600, ymax: 890, xmax: 860 }),
+    dealerStamp: field(true, 0.83, { ymin: 770, xmin: 110, ymax: 910, xmax: 340 }),
+  },
+];
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Fixtures are keyed by the first page. On multi-page documents the built-in
+// fixtures keep the text fields on the first page and place the signature and
+// stamp on the last page, as real scans usually do.
+// Template fields the fixture doesn't cover come back empty with zero confidence.
+export const extractInvoiceData = async (pages: string[], template: SchemaTemplate = DEFAULT_TEMPLATE, signal?: AbortSignal): Promise<ExtractionResult> => {
+  const hash = await hashImageContent(pages[0]);
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const pinned = fixturesByHash[hash];
+  if (pinned) return { data: conformToTemplate(clone(pinned), template, pages.length) };
+  const data = clone(BUILTIN_FIXTURES[parseInt(hash.slice(0, 8), 16) % BUILTIN_FIXTURES.length]);
+  const lastPage = pages.length - 1;
+  if (data.dealerSignature.boundingBox) data.dealerSignature.boundingBox.page = lastPage;
+  if (data.dealerStamp.boundingBox) data.dealerStamp.boundingBox.page = lastPage;
+  return { data: conformToTemplate(data, template, pages.length) };
+};
+
+// Renders a plain SVG "invoice" so the generator -> processor flow works offline.
+export const generateImageFromPrompt = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  const title = prompt.replace(/[^\x20-\x7E]/g, '').replace(/[<>&"]/g, '').slice(0, 48) || 'Synthetic Document';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="1000" viewBox="0 0 1000 1000">
+  <rect width="1000" height="1000" fill="#ffffff"/>
+  <text x="60" y="110" font-family="monospace" font-size="44" font-weight="bold" fill="#1e293b">TAX INVOICE</text>
+  <text x="60" y="170" font-family="monospace" font-size="22" fill="#475569">${title}</text>
+  <line x1="60" y1="200" x2="940" y2="200" stroke="#cbd5e1" stroke-width="2"/>
+  <text x="60" y="280" font-family="monospace" font-size="26" fill="#334155">Dealer: Shree Ganesh Tractors</text>
+  <text x="60" y="340" font-family="monospace" font-size="26" fill="#334155">Model: Mahindra 575 DI XP Plus (47 HP)</text>
+  <text x="60" y="400" font-family="monospace" font-size="26" fill="#334155">Amount: INR 7,25,000</text>
+  <circle cx="240" cy="840" r="80" fill="none" stroke="#6366f1" stroke-width="6"/>
+  <path d="M660 870 q40 -60 80 0 t80 0" fill="none" stroke="#0f172a" stroke-width="4"/>
+</svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+export const sendMultimodalChatMessage = async (
+  history: ChatHistoryItem[],
+  newMessage: string,
+  image?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS, signal);
+  if (image) {
+    const { data } = await extractInvoiceData([image], DEFAULT_TEMPLATE, signal);
+    return `[Offline mode] This looks like a ${data.documentType.value} from ${data.dealerName.value} for a ${data.modelName.value} (${data.horsePower.value} HP) at ₹${data.assetCost.value.toLocaleString()}.`;
+  }
+  return `[Offline mode] Received "${newMessage}". Responses are canned while the offline provider is active (turn ${history.length / 2 + 1}).`;
+};
+
+export const mockProvider: ExtractionProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  extractInvoiceData,
+  generateImageFromPrompt,
+  sendMultimodalChatMessage,
+};
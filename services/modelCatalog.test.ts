@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { InvoiceData, TractorModel } from '../types';
+import { validateModel } from './modelCatalog';
+
+const model = (id: string, manufacturer: string, name: string, aliases: string[] = []): TractorModel =>
+  ({ id, manufacturer, model: name, aliases, hpMin: 40, hpMax: 50, priceMin: 600000, priceMax: 800000 });
+
+const catalog = [
+  model('swaraj-742', 'Swaraj', '742 FE'),
+  model('swaraj-744', 'Swaraj', '744 FE'),
+  model('mahindra-575', 'Mahindra', '575 DI XP Plus'),
+];
+
+const invoice = (modelName: string, horsePower = 45, assetCost = 700000) =>
+  ({ modelName: { value: modelName, confidence: 0.9 }, horsePower: { value: horsePower, confidence: 0.9 }, assetCost: { value: assetCost, confidence: 0.9 } }) as unknown as InvoiceData;
+
+describe('validateModel', () => {
+  it('matches the model whose number appears on the invoice', () => {
+    expect(validateModel(invoice('Swaraj 744 FE'), catalog).modelId).toBe('swaraj-744');
+    expect(validateModel(invoice('Swaraj 742 FE'), catalog).modelId).toBe('swaraj-742');
+  });
+
+  it('does not match a model with a different number', () => {
+    const result = validateModel(invoice('Swaraj 745 FE'), catalog);
+    expect(result.modelId).toBeNull();
+    expect(result.needsReview).toBe(true);
+  });
+
+  it('tolerates extra numbers and a missing manufacturer', () => {
+    expect(validateModel(invoice('575 DI XP Plus 47 HP'), catalog).modelId).toBe('mahindra-575');
+  });
+
+  it('reads native digits', () => {
+    expect(validateModel(invoice('Swaraj ७४४ FE'), catalog).modelId).toBe('swaraj-744');
+  });
+});
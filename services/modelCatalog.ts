@@ -0,0 +1,115 @@
+
+import { InvoiceData, ModelValidation, TractorModel } from "../types";
+import { parseCsvRecords } from "./csv";
+import { splitAliases } from "./dealerRegistry";
+import { numericTokens, stringSimilarity } from "./stringSimilarity";
+
+const MODELS_STORAGE_KEY = 'docu_models';
+
+export const MODEL_MATCH_THRESHOLD = 0.85;
+
+export const loadModels = (): TractorModel[] => {
+  const saved = localStorage.getItem(MODELS_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse model catalog", e);
+    return [];
+  }
+};
+
+export const saveModels = (models: TractorModel[]) => {
+  localStorage.setItem(MODELS_STORAGE_KEY, JSON.stringify(models));
+};
+
+export const modelDisplayName = (model: TractorModel): string => `${model.manufacturer} ${model.model}`.trim();
+
+const toNumber = (value: string | undefined): number => Number((value || '').replace(/[^\d.]/g, '')) || 0;
+
+// Header row: manufacturer, model, hp_min, hp_max, price_min, price_max and optionally id, aliases.
+// A single `hp` or `price` column is accepted as an exact value.
+export const parseModelCsv = (text: string): TractorModel[] =>
+  parseCsvRecords(text)
+    .map(record => ({
+      id: record.id || crypto.randomUUID(),
+      manufacturer: record.manufacturer || record.make || record.brand || '',
+      model: record.model || record.model_name || '',
+      aliases: splitAliases(record.aliases || ''),
+      hpMin: toNumber(record.hp_min || record.hp),
+      hpMax: toNumber(record.hp_max || record.hp),
+      priceMin: toNumber(record.price_min || record.price),
+      priceMax: toNumber(record.price_max || record.price),
+    }))
+    .filter(model => model.model);
+
+export const mergeModels = (existing: TractorModel[], incoming: TractorModel[]): TractorModel[] => {
+  const result = [...existing];
+  incoming.forEach(model => {
+    const idx = result.findIndex(m => m.id === model.id || modelDisplayName(m).toLowerCase() === modelDisplayName(model).toLowerCase());
+    if (idx === -1) result.push(model);
+    else result[idx] = { ...model, id: result[idx].id, aliases: Array.from(new Set([...result[idx].aliases, ...model.aliases])) };
+  });
+  return result;
+};
+
+// A name only counts when every number in it appears in the raw value: "Swaraj 744 FE"
+// and "Swaraj 742 FE" are different tractors however alike the strings look.
+const scoreName = (rawName: string, name: string): number => {
+  const rawNumbers = new Set(numericTokens(rawName));
+  return numericTokens(name).every(n => rawNumbers.has(n)) ? stringSimilarity(rawName, name) : 0;
+};
+
+// Invoices often omit the manufacturer ("575 DI XP Plus"), so the bare model
+// name and every alias are scored as well as the full display name.
+const scoreModel = (rawName: string, model: TractorModel): number =>
+  Math.max(...[modelDisplayName(model), model.model, ...model.aliases].map(name => scoreName(rawName, name)));
+
+const formatInr = (value: number) => `₹${value.toLocaleString('en-IN')}`;
+
+export const validateModel = (data: InvoiceData, catalog: TractorModel[]): ModelValidation => {
+  const rawValue = data.modelName.value || '';
+  const ranked = catalog
+    .map(model => ({ model, score: scoreModel(rawValue, model) }))
+    .sort((a, b) => b.score - a.score);
+  const best = ranked[0];
+  if (!best || best.score < MODEL_MATCH_THRESHOLD) {
+    return {
+      rawValue,
+      modelId: null,
+      normalizedName: null,
+      score: best?.score || 0,
+      hpCheck: 'unknown',
+      priceCheck: 'unknown',
+      fieldIssues: catalog.length ? { modelName: `"${rawValue || 'empty'}" is not in the model catalog.` } : {},
+      needsReview: catalog.length > 0,
+    };
+  }
+
+  const { model } = best;
+  const fieldIssues: ModelValidation['fieldIssues'] = {};
+  const hp = Number(data.horsePower.value);
+  let hpCheck: ModelValidation['hpCheck'] = 'unknown';
+  if (hp && model.hpMax) {
+    hpCheck = hp >= model.hpMin && hp <= model.hpMax ? 'ok' : 'mismatch';
+    if (hpCheck === 'mismatch') fieldIssues.horsePower = `${hp} HP is outside ${model.hpMin}–${model.hpMax} HP for ${modelDisplayName(model)}.`;
+  }
+
+  const cost = Number(data.assetCost.value);
+  let priceCheck: ModelValidation['priceCheck'] = 'unknown';
+  if (cost && model.priceMax) {
+    priceCheck = cost < model.priceMin ? 'below' : cost > model.priceMax ? 'above' : 'ok';
+    if (priceCheck !== 'ok') fieldIssues.assetCost = `${formatInr(cost)} is ${priceCheck} the ${formatInr(model.priceMin)}–${formatInr(model.priceMax)} band.`;
+  }
+
+  return {
+    rawValue,
+    modelId: model.id,
+    normalizedName: modelDisplayName(model),
+    score: best.score,
+    hpCheck,
+    priceCheck,
+    fieldIssues,
+    needsReview: Object.keys(fieldIssues).length > 0,
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentData, OperatorProfile, StoredDocument } from '../types';
+import { documentEdit } from './correctionAudit';
+import { decisionDenial, editDenial, hasCorrected, maintenanceDenial } from './operatorProfiles';
+
+const maker: OperatorProfile = { id: 'm1', name: 'Meena', role: 'maker' };
+const checker: OperatorProfile = { id: 'c1', name: 'Chetan', role: 'checker' };
+const admin: OperatorProfile = { id: 'a1', name: 'Asha', role: 'admin' };
+
+const field = (value: any, history: { user: string; userId?: string }[] = []) => ({
+  value,
+  confidence: 0.9,
+  history: history.map(h => ({ ...h, oldValue: '', newValue: value, timestamp: '2026-01-01T00:00:00.000Z' })),
+});
+
+const doc = (overrides: Partial<StoredDocument> = {}, data: Record<string, unknown> = { dealerName: field('Shree Tractors') }): StoredDocument => ({
+  id: 'doc-1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  pageCount: 1,
+  data: data as unknown as DocumentData,
+  metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+  ...overrides,
+});
+
+describe('editDenial', () => {
+  it('keeps checkers out of every document', () => {
+    expect(editDenial(checker, doc())).not.toBeNull();
+  });
+
+  it('lets makers and admins edit pending documents', () => {
+    const pending = doc({ review: { status: 'pending', flaggedFields: [], resolvedFields: [], reasons: [] } });
+    expect(editDenial(maker, pending)).toBeNull();
+    expect(editDenial(admin, pending)).toBeNull();
+  });
+
+  it('locks documents a reviewer approved, but not automatic approvals', () => {
+    const reviewed = doc({ review: { status: 'approved', flaggedFields: [], resolvedFields: [], reasons: [] } });
+    const automatic = doc({ review: { status: 'approved', flaggedFields: [], resolvedFields: [], reasons: [], automatic: true } });
+    expect(editDenial(admin, reviewed)).not.toBeNull();
+    expect(editDenial(maker, automatic)).toBeNull();
+  });
+});
+
+describe('maintenanceDenial', () => {
+  it('only allows admins', () => {
+    expect(maintenanceDenial(admin)).toBeNull();
+    expect(maintenanceDenial(maker)).not.toBeNull();
+    expect(maintenanceDenial(checker)).not.toBeNull();
+  });
+});
+
+describe('decisionDenial', () => {
+  it('never lets makers decide', () => {
+    expect(decisionDenial(maker, doc())).not.toBeNull();
+  });
+
+  it('lets a checker decide on documents they did not touch', () => {
+    expect(decisionDenial(checker, doc())).toBeNull();
+  });
+
+  it('blocks whoever corrected a field', () => {
+    const corrected = doc({}, { dealerName: field('Shree Tractors', [{ user: admin.name, userId: admin.id }]) });
+    expect(decisionDenial(admin, corrected)).not.toBeNull();
+    expect(decisionDenial(checker, corrected)).toBeNull();
+  });
+
+  it('blocks whoever made a document edit such as a dealer or link change', () => {
+    const edited = doc({ edits: [documentEdit(admin, 'dealer', 'Dealer set to Shree Tractors')] });
+    expect(hasCorrected(admin, edited)).toBe(true);
+    expect(decisionDenial(admin, edited)).not.toBeNull();
+  });
+
+  it('matches entries from before profiles by name', () => {
+    const legacy = doc({}, { dealerName: field('Shree Tractors', [{ user: checker.name }]) });
+    expect(hasCorrected(checker, legacy)).toBe(true);
+  });
+});
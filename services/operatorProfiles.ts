@@ -0,0 +1,84 @@
+
+import { OperatorProfile, OperatorRole, StoredDocument } from "../types";
+import { auditLog } from "./correctionAudit";
+
+const PROFILES_STORAGE_KEY = 'docu_operator_profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'docu_active_operator';
+// Single operator name used before profiles existed; carried over to the first admin.
+const LEGACY_NAME_STORAGE_KEY = 'docu_operator_name';
+
+export const ROLE_LABELS: Record<OperatorRole, string> = {
+  maker: 'Maker',
+  checker: 'Checker',
+  admin: 'Admin',
+};
+
+export class PermissionDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+const defaultProfiles = (): OperatorProfile[] => [
+  { id: 'admin', name: localStorage.getItem(LEGACY_NAME_STORAGE_KEY) || 'Admin', role: 'admin' },
+];
+
+export const loadOperatorProfiles = (): OperatorProfile[] => {
+  const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+  if (!saved) return defaultProfiles();
+  try {
+    const profiles: OperatorProfile[] = JSON.parse(saved);
+    return profiles.length ? profiles : defaultProfiles();
+  } catch (e) {
+    console.error("Failed to parse operator profiles", e);
+    return defaultProfiles();
+  }
+};
+
+export const saveOperatorProfiles = (profiles: OperatorProfile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveOperatorId = (): string | null => localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+
+export const saveActiveOperatorId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+};
+
+export const findOperator = (profiles: OperatorProfile[], id: string | null): OperatorProfile =>
+  profiles.find(p => p.id === id) || profiles.find(p => p.role === 'admin') || profiles[0];
+
+export const validateProfiles = (profiles: OperatorProfile[]): string[] => {
+  const errors: string[] = [];
+  if (!profiles.some(p => p.role === 'admin')) errors.push('At least one admin is required.');
+  if (profiles.some(p => !p.name.trim())) errors.push('Every operator needs a name.');
+  const names = profiles.map(p => p.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) errors.push('Operator names must be unique.');
+  return errors;
+};
+
+// Entries recorded before profiles existed only carry a name.
+const isAuthor = (operator: OperatorProfile, entry: { user: string; userId?: string }) =>
+  entry.userId ? entry.userId === operator.id : entry.user === operator.name;
+
+export const hasCorrected = (operator: OperatorProfile, doc: StoredDocument): boolean =>
+  auditLog(doc.data).some(entry => isAuthor(operator, entry)) || (doc.edits || []).some(edit => isAuthor(operator, edit));
+
+// Reason the operator may not change `doc`, or null when they may.
+export const editDenial = (operator: OperatorProfile, doc: StoredDocument): string | null => {
+  if (operator.role === 'checker') return 'Checkers review documents but cannot change them.';
+  if (doc.review?.status === 'approved' && !doc.review.automatic) return 'Approved documents are locked.';
+  return null;
+};
+
+// Imports, restores and archive-wide re-scoring touch documents nobody opened.
+export const maintenanceDenial = (operator: OperatorProfile): string | null =>
+  operator.role === 'admin' ? null : 'Only admins can change the whole archive at once.';
+
+// Maker-checker: whoever corrected a document cannot be the one to decide on it.
+export const decisionDenial = (operator: OperatorProfile, doc: StoredDocument): string | null => {
+  if (operator.role === 'maker') return 'Makers cannot approve or reject documents.';
+  if (hasCorrected(operator, doc)) return `${operator.name} corrected this document, so another checker must decide on it.`;
+  return null;
+};
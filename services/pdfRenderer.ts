@@ -0,0 +1,52 @@
+/// <reference types="vite/client" />
+import * as pdfjs from "pdfjs-dist";
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+// Scanned invoices rarely need more than this; it keeps each page near 1-2 MP.
+const DEFAULT_RENDER_SCALE = 1.5;
+const MAX_PAGES = 20;
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// Rasterises every page of a PDF locally and returns one JPEG data URL per page.
+export const renderPdfToImages = async (file: File, scale: number = DEFAULT_RENDER_SCALE): Promise<string[]> => {
+  // Destroying the loading task also destroys the document, whether or not it finished loading.
+  const loadingTask = pdfjs.getDocument({ data: await file.arrayBuffer() });
+  const pages: string[] = [];
+  try {
+    const pdf = await loadingTask.promise;
+    if (pdf.numPages > MAX_PAGES) throw new Error(`PDF has ${pdf.numPages} pages; the limit is ${MAX_PAGES}.`);
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas is not available for PDF rendering.");
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      pages.push(canvas.toDataURL('image/jpeg', 0.9));
+      page.cleanup();
+    }
+  } finally {
+    await loadingTask.destroy();
+  }
+  return pages;
+};
+
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (re) => resolve(re.target?.result as string);
+    reader.onerror = () => reject(reader.error || new Error("Could not read file."));
+    reader.readAsDataURL(file);
+  });
+
+// Turns any supported upload into the ordered list of page images we extract from.
+export const loadDocumentPages = async (file: File): Promise<string[]> =>
+  isPdfFile(file) ? renderPdfToImages(file) : [await readFileAsDataUrl(file)];
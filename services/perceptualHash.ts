@@ -0,0 +1,48 @@
+
+// Difference hash (dHash): the image is shrunk to 9x8 greyscale and each bit records
+// whether a pixel is brighter than its right-hand neighbour. Re-photographing or
+// re-compressing the same page changes few bits, unlike a cryptographic hash.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+export const PERCEPTUAL_HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image for fingerprinting."));
+    img.src = dataUrl;
+  });
+
+export const computePerceptualHash = async (dataUrl: string): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available.");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  let bits = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) bits += luma(x, y) > luma(x + 1, y) ? '1' : '0';
+  }
+  return bits.match(/.{4}/g)!.map(nibble => parseInt(nibble, 2).toString(16)).join('');
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) { distance += diff & 1; diff >>= 1; }
+  }
+  return distance;
+};
+
+export const perceptualSimilarity = (a: string, b: string): number => 1 - hammingDistance(a, b) / PERCEPTUAL_HASH_BITS;
@@ -0,0 +1,124 @@
+
+import { ImageQuality, QualityCheck } from "../types";
+import { createCanvas, grayscale, loadImage, measurePageCoverage } from "./imagePreprocessing";
+
+const ANALYSIS_SIZE = 1000;
+// Printed text at ANALYSIS_SIZE scores in the hundreds; motion blur drops it below this.
+export const MIN_SHARPNESS = 60;
+const CLIPPED_LEVEL = 250;
+const MAX_GLARE = 0.08;
+const MIN_SHORT_SIDE = 700;
+const MIN_COVERAGE = 0.35;
+
+export interface QualityIssue {
+  check: QualityCheck;
+  message: string;
+  suggestion: string;
+}
+
+export class QualityGateError extends Error {
+  issues: QualityIssue[];
+
+  constructor(issues: QualityIssue[]) {
+    super(issues.map(i => i.message).join(' '));
+    this.name = 'QualityGateError';
+    this.issues = issues;
+  }
+}
+
+const TILE_SIZE = 32;
+// A tile whose darkest and lightest pixels are this far apart holds text or marks;
+// blurred text still clears it, plain paper and lighting gradients don't.
+const CONTENT_RANGE = 48;
+
+// Variance of the Laplacian over the tiles that hold content only, so wide margins
+// and blank pages don't drag the score toward zero. Null when nothing is on the page.
+const contentSharpness = (gray: Uint8ClampedArray, width: number, height: number): number | null => {
+  let sum = 0, sumSq = 0, n = 0;
+  for (let ty = 0; ty < height; ty += TILE_SIZE) {
+    for (let tx = 0; tx < width; tx += TILE_SIZE) {
+      const yEnd = Math.min(height, ty + TILE_SIZE);
+      const xEnd = Math.min(width, tx + TILE_SIZE);
+      let min = 255, max = 0;
+      for (let y = ty; y < yEnd; y++) {
+        for (let x = tx; x < xEnd; x++) {
+          const v = gray[y * width + x];
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+      }
+      if (max - min < CONTENT_RANGE) continue;
+      for (let y = Math.max(1, ty); y < Math.min(height - 1, yEnd); y++) {
+        for (let x = Math.max(1, tx); x < Math.min(width - 1, xEnd); x++) {
+          const i = y * width + x;
+          const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+          sum += lap;
+          sumSq += lap * lap;
+          n++;
+        }
+      }
+    }
+  }
+  return n ? Math.round(sumSq / n - (sum / n) ** 2) : null;
+};
+
+// An empty frame has nothing in focus, so it scores zero here.
+export const measureSharpness = (source: HTMLCanvasElement): number => {
+  const { gray, width, height } = grayscale(source, ANALYSIS_SIZE);
+  return contentSharpness(gray, width, height) ?? 0;
+};
+
+export const assessImage = async (dataUrl: string): Promise<Omit<ImageQuality, 'failedChecks'>> => {
+  const img = await loadImage(dataUrl);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const { gray, width, height } = grayscale(canvas, ANALYSIS_SIZE);
+  let clipped = 0;
+  for (const v of gray) if (v >= CLIPPED_LEVEL) clipped++;
+  const quality = {
+    sharpness: contentSharpness(gray, width, height),
+    glare: clipped / gray.length,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    coverage: measurePageCoverage(canvas),
+  };
+  canvas.width = 0;
+  return quality;
+};
+
+// Glare and coverage only mean something for camera photos: a scan or rendered
+// PDF page is white edge to edge and fills its own frame.
+export const qualityIssues = (quality: Omit<ImageQuality, 'failedChecks'>, isPhoto: boolean): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  if (quality.sharpness !== null && quality.sharpness < MIN_SHARPNESS) {
+    issues.push({ check: 'blur', message: 'The image is blurry.', suggestion: 'Hold the camera steady, tap to focus and retake the photo.' });
+  }
+  if (Math.min(quality.width, quality.height) < MIN_SHORT_SIDE) {
+    issues.push({ check: 'resolution', message: `The image is only ${quality.width}×${quality.height} pixels.`, suggestion: `Use a scan or photo at least ${MIN_SHORT_SIDE} pixels on the short side.` });
+  }
+  if (isPhoto && quality.glare > MAX_GLARE) {
+    issues.push({ check: 'glare', message: `${Math.round(quality.glare * 100)}% of the image is washed out by glare.`, suggestion: 'Turn off the flash or tilt the document away from the light.' });
+  }
+  if (isPhoto && quality.coverage < MIN_COVERAGE) {
+    issues.push({ check: 'coverage', message: `The document fills only ${Math.round(quality.coverage * 100)}% of the frame.`, suggestion: 'Move closer so the page fills most of the photo.' });
+  }
+  return issues;
+};
+
+// Scores every page and keeps the worst value of each measure. Blank pages (a
+// terms page, the back of a form) have no sharpness and don't count toward it.
+export const assessPages = async (pages: string[], isPhoto: boolean): Promise<{ quality: ImageQuality; issues: QualityIssue[] }> => {
+  const scores = [];
+  for (const page of pages) scores.push(await assessImage(page));
+  const smallest = scores.reduce((a, b) => Math.min(b.width, b.height) < Math.min(a.width, a.height) ? b : a);
+  const sharpness = scores.map(s => s.sharpness).filter((v): v is number => v !== null);
+  const worst = {
+    sharpness: sharpness.length ? Math.min(...sharpness) : null,
+    glare: Math.max(...scores.map(s => s.glare)),
+    width: smallest.width,
+    height: smallest.height,
+    coverage: Math.min(...scores.map(s => s.coverage)),
+  };
+  const issues = qualityIssues(worst, isPhoto);
+  return { quality: { ...worst, failedChecks: issues.map(i => i.check) }, issues };
+};
@@ -0,0 +1,158 @@
+
+import { DocumentRelation, StoredDocument } from "../types";
+
+export type RelationDirection = 'outgoing' | 'incoming';
+
+// A relation as seen from one document, with the far end resolved against the archive.
+export interface ResolvedRelation {
+  relation: DocumentRelation;
+  direction: RelationDirection;
+  // Document that stores the relation; removing it means editing this record.
+  ownerId: string;
+  localField: string;
+  otherDocId: string;
+  otherField: string;
+  // Null when the linked document no longer exists.
+  otherDoc: StoredDocument | null;
+  otherValue: any;
+  valuesDiffer: boolean;
+}
+
+export interface DanglingRelation {
+  ownerId: string;
+  relation: DocumentRelation;
+}
+
+export interface RelationGraphNode {
+  id: string;
+  doc: StoredDocument;
+  depth: number;
+}
+
+export interface RelationGraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  sourceField: string;
+  targetField: string;
+}
+
+export interface RelationGraph {
+  nodes: RelationGraphNode[];
+  edges: RelationGraphEdge[];
+}
+
+export const documentLabel = (doc: StoredDocument): string => doc.dealerMatch?.canonicalName || doc.data.dealerName.value || 'Untitled Document';
+
+export const fieldValue = (doc: StoredDocument, field: string): any => (doc.data as any)[field]?.value;
+
+const sameValue = (a: any, b: any): boolean =>
+  typeof a === 'number' && typeof b === 'number' ? a === b : String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+
+export const relationsOf = (doc: StoredDocument, archive: StoredDocument[]): ResolvedRelation[] => {
+  const byId = new Map<string, StoredDocument>(archive.map(d => [d.id, d]));
+  const outgoing = (doc.relations || []).map((relation): ResolvedRelation => {
+    const otherDoc = byId.get(relation.targetDocId) || null;
+    const otherValue = otherDoc ? fieldValue(otherDoc, relation.targetField) : undefined;
+    return {
+      relation,
+      direction: 'outgoing',
+      ownerId: doc.id,
+      localField: relation.sourceField,
+      otherDocId: relation.targetDocId,
+      otherField: relation.targetField,
+      otherDoc,
+      otherValue,
+      valuesDiffer: !!otherDoc && !sameValue(fieldValue(doc, relation.sourceField), otherValue),
+    };
+  });
+  const incoming = archive.flatMap(owner => owner.id === doc.id ? [] : (owner.relations || [])
+    .filter(relation => relation.targetDocId === doc.id)
+    .map((relation): ResolvedRelation => {
+      const otherValue = fieldValue(owner, relation.sourceField);
+      return {
+        relation,
+        direction: 'incoming',
+        ownerId: owner.id,
+        localField: relation.targetField,
+        otherDocId: owner.id,
+        otherField: relation.sourceField,
+        otherDoc: owner,
+        otherValue,
+        valuesDiffer: !sameValue(fieldValue(doc, relation.targetField), otherValue),
+      };
+    }));
+  return [...outgoing, ...incoming];
+};
+
+// Ids of every document linked to `doc`, in either direction.
+export const linkedDocIds = (doc: StoredDocument, archive: StoredDocument[]): Set<string> =>
+  new Set(relationsOf(doc, archive).map(r => r.otherDocId));
+
+export const hasRelation = (archive: StoredDocument[], docA: string, fieldA: string, docB: string, fieldB: string): boolean =>
+  archive.some(owner => (owner.relations || []).some(r =>
+    (owner.id === docA && r.sourceField === fieldA && r.targetDocId === docB && r.targetField === fieldB) ||
+    (owner.id === docB && r.sourceField === fieldB && r.targetDocId === docA && r.targetField === fieldA)));
+
+// Number of links touching each document, counting both ends.
+export const relationDegrees = (archive: StoredDocument[]): Map<string, number> => {
+  const degrees = new Map<string, number>();
+  const bump = (id: string) => degrees.set(id, (degrees.get(id) || 0) + 1);
+  for (const owner of archive) {
+    for (const relation of owner.relations || []) {
+      bump(owner.id);
+      bump(relation.targetDocId);
+    }
+  }
+  return degrees;
+};
+
+export const findDanglingRelations = (archive: StoredDocument[]): DanglingRelation[] => {
+  const ids = new Set(archive.map(d => d.id));
+  return archive.flatMap(owner => (owner.relations || []).filter(r => !ids.has(r.targetDocId)).map(relation => ({ ownerId: owner.id, relation })));
+};
+
+// Drops relations pointing at `removedIds`. Untouched records keep their identity
+// so the archive sync only rewrites documents that actually changed.
+export const removeRelationsTo = (archive: StoredDocument[], removedIds: Set<string>): StoredDocument[] =>
+  archive.map(d => d.relations?.some(r => removedIds.has(r.targetDocId))
+    ? { ...d, relations: d.relations.filter(r => !removedIds.has(r.targetDocId)) }
+    : d);
+
+export const removeDanglingRelations = (archive: StoredDocument[]): StoredDocument[] =>
+  removeRelationsTo(archive, new Set(findDanglingRelations(archive).map(d => d.relation.targetDocId)));
+
+// Connected component around `rootId`, walked breadth-first through links in
+// both directions and cut off at `maxDepth` hops.
+export const buildRelationGraph = (rootId: string, archive: StoredDocument[], maxDepth = 3): RelationGraph => {
+  const byId = new Map<string, StoredDocument>(archive.map(d => [d.id, d]));
+  const root = byId.get(rootId);
+  if (!root) return { nodes: [], edges: [] };
+
+  const adjacency = new Map<string, RelationGraphEdge[]>();
+  const addEdge = (id: string, edge: RelationGraphEdge) => adjacency.set(id, [...(adjacency.get(id) || []), edge]);
+  for (const owner of archive) {
+    for (const r of owner.relations || []) {
+      if (!byId.has(r.targetDocId)) continue;
+      const edge = { id: r.id, from: owner.id, to: r.targetDocId, sourceField: r.sourceField, targetField: r.targetField };
+      addEdge(owner.id, edge);
+      addEdge(r.targetDocId, edge);
+    }
+  }
+
+  const nodes: RelationGraphNode[] = [{ id: rootId, doc: root, depth: 0 }];
+  const seen = new Set([rootId]);
+  const edges = new Map<string, RelationGraphEdge>();
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node.depth >= maxDepth) continue;
+    for (const edge of adjacency.get(node.id) || []) {
+      edges.set(edge.id, edge);
+      const next = edge.from === node.id ? edge.to : edge.from;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      nodes.push({ id: next, doc: byId.get(next)!, depth: node.depth + 1 });
+    }
+  }
+  return { nodes, edges: [...edges.values()].filter(e => seen.has(e.from) && seen.has(e.to)) };
+};
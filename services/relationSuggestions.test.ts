@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentData, StoredDocument } from '../types';
+import { suggestCounterparts } from './relationSuggestions';
+
+const doc = (id: string, documentType: string, modelName: string, invoiceDate?: string, timestamp = '2026-03-01T00:00:00.000Z'): StoredDocument => ({
+  id,
+  timestamp,
+  pageCount: 1,
+  data: Object.fromEntries(Object.entries({
+    documentType, dealerName: 'Shree Ganesh Tractors', modelName, horsePower: 48, assetCost: 725000, ...(invoiceDate ? { invoiceDate } : {}),
+  }).map(([key, value]) => [key, { value, confidence: 0.9 }])) as unknown as DocumentData,
+  metrics: { latencyMs: 0, costEstimateUsd: 0, documentAccuracy: 100 },
+});
+
+describe('suggestCounterparts', () => {
+  it('suggests the quotation for the same dealer and model', () => {
+    const invoice = doc('inv', 'Invoice', 'Swaraj 744 FE', '2026-02-20');
+    const quotation = doc('quo', 'Quotation', 'Swaraj 744 FE', '2026-02-10');
+    const [suggestion] = suggestCounterparts(invoice, [invoice, quotation]);
+    expect(suggestion.docId).toBe('quo');
+    expect(suggestion.daysApart).toBe(10);
+  });
+
+  it('does not suggest another model from the same dealer', () => {
+    const invoice = doc('inv', 'Invoice', 'Swaraj 744 FE', '2026-02-20');
+    const others = [doc('a', 'Quotation', 'Swaraj 742 FE', '2026-02-20'), doc('b', 'Quotation', 'Mahindra 575 DI', '2026-02-20')];
+    expect(suggestCounterparts(invoice, [invoice, ...others])).toEqual([]);
+  });
+
+  it('dates documents by their printed date, not when they were processed', () => {
+    const invoice = doc('inv', 'Invoice', 'Swaraj 744 FE', '2026-02-20');
+    const quotation = doc('quo', 'Quotation', 'Swaraj 744 FE', '2025-06-01');
+    const [suggestion] = suggestCounterparts(invoice, [invoice, quotation]);
+    expect(suggestion.daysApart).toBeGreaterThan(90);
+    expect(suggestion.score).toBeCloseTo(0.8);
+  });
+});
@@ -0,0 +1,113 @@
+
+import { StoredDocument } from "../types";
+import { linkedDocIds } from "./relationGraph";
+import { numericTokens, stringSimilarity } from "./stringSimilarity";
+
+export const SUGGESTION_THRESHOLD = 0.7;
+// Below these the dealers or models are treated as different, however well the rest matches.
+const MIN_DEALER_SIMILARITY = 0.75;
+const MIN_MODEL_SIMILARITY = 0.8;
+// Quotations older than this relative to the invoice get no date credit.
+const DATE_WINDOW_DAYS = 90;
+// Templates extract dates as YYYY-MM-DD; `invoiceDate` is the preset's key.
+const DATE_FIELD = 'invoiceDate';
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SUGGESTIONS = 3;
+
+const LINKED_FIELDS: string[] = ['dealerName', 'modelName', 'horsePower', 'assetCost'];
+
+const COUNTERPART_TYPE: Record<string, string> = { Invoice: 'Quotation', Quotation: 'Invoice' };
+
+export interface SuggestedLink {
+  sourceField: string;
+  targetField: string;
+}
+
+export type FieldValue = string | number | boolean | null;
+
+export interface FieldDifference {
+  field: string;
+  sourceValue: FieldValue;
+  targetValue: FieldValue;
+  // Set for numeric fields: target minus source, and that as a fraction of the source.
+  delta?: number;
+  relativeDelta?: number;
+}
+
+export interface RelationSuggestion {
+  docId: string;
+  score: number;
+  dealerSimilarity: number;
+  modelSimilarity: number;
+  // Null when either document has no extracted date.
+  daysApart: number | null;
+  links: SuggestedLink[];
+  differences: FieldDifference[];
+}
+
+const dealerKey = (doc: StoredDocument): string => doc.dealerMatch?.canonicalName || doc.data.dealerName.value || '';
+
+const modelKey = (doc: StoredDocument): string => doc.modelValidation?.normalizedName || doc.data.modelName.value || '';
+
+// Model numbers decide the model ("744 FE" is not "742 FE"), so every number in the
+// shorter name has to appear in the other before the names are compared at all.
+const modelScore = (a: string, b: string): number => {
+  const [x, y] = [numericTokens(a), numericTokens(b)];
+  const [fewer, more] = x.length <= y.length ? [x, y] : [y, x];
+  return fewer.every(n => more.includes(n)) ? stringSimilarity(a, b) : 0;
+};
+
+// The date printed on the document, from `invoiceDate` or else any date-valued field.
+export const documentDate = (doc: StoredDocument): Date | null => {
+  const values = [doc.data[DATE_FIELD]?.value, ...Object.values(doc.data).map(field => field?.value)];
+  const value = values.find(v => typeof v === 'string' && ISO_DATE.test(v));
+  const date = value ? new Date(`${value}T00:00:00`) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+const toFieldValue = (value: unknown): FieldValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+
+export const compareFields = (source: StoredDocument, target: StoredDocument): FieldDifference[] =>
+  LINKED_FIELDS.flatMap((field): FieldDifference[] => {
+    const sourceValue = toFieldValue(source.data[field]?.value);
+    const targetValue = toFieldValue(target.data[field]?.value);
+    if (typeof sourceValue === 'number' && typeof targetValue === 'number') {
+      if (sourceValue === targetValue) return [];
+      const delta = targetValue - sourceValue;
+      return [{ field, sourceValue, targetValue, delta, relativeDelta: sourceValue ? delta / sourceValue : undefined }];
+    }
+    return stringSimilarity(String(sourceValue ?? ''), String(targetValue ?? '')) >= 0.99 ? [] : [{ field, sourceValue, targetValue }];
+  });
+
+export const scoreCounterpart = (doc: StoredDocument, other: StoredDocument): RelationSuggestion => {
+  const dealerSimilarity = stringSimilarity(dealerKey(doc), dealerKey(other));
+  const modelSimilarity = modelScore(modelKey(doc), modelKey(other));
+  const [date, otherDate] = [documentDate(doc), documentDate(other)];
+  const daysApart = date && otherDate ? Math.abs(date.getTime() - otherDate.getTime()) / 86400000 : null;
+  const dateScore = daysApart === null ? 0 : Math.max(0, 1 - daysApart / DATE_WINDOW_DAYS);
+  return {
+    docId: other.id,
+    score: dealerSimilarity * 0.4 + modelSimilarity * 0.4 + dateScore * 0.2,
+    dealerSimilarity,
+    modelSimilarity,
+    daysApart,
+    links: LINKED_FIELDS.map(field => ({ sourceField: field, targetField: field })),
+    differences: compareFields(doc, other),
+  };
+};
+
+// Looks for the opposite document type (quotation for an invoice and vice versa).
+// Documents already linked to `doc` in either direction, dismissed by the operator
+// or confirmed as duplicates are not suggested.
+export const suggestCounterparts = (doc: StoredDocument, archive: StoredDocument[]): RelationSuggestion[] => {
+  const counterpartType = COUNTERPART_TYPE[doc.data.documentType.value];
+  if (!counterpartType) return [];
+  const excluded = new Set([doc.id, ...linkedDocIds(doc, archive), ...(doc.dismissedSuggestions || [])]);
+  return archive
+    .filter(other => !excluded.has(other.id) && other.data.documentType.value === counterpartType && other.duplicateCheck?.decision !== 'confirmed')
+    .map(other => scoreCounterpart(doc, other))
+    .filter(s => s.dealerSimilarity >= MIN_DEALER_SIMILARITY && s.modelSimilarity >= MIN_MODEL_SIMILARITY && s.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+};
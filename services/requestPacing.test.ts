@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, createRateLimiter, sleep } from './requestPacing';
+
+describe('sleep', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('resolves after the delay', async () => {
+    const done = vi.fn();
+    sleep(1000).then(done);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('rejects with the abort reason when cancelled', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(1000, controller.signal);
+    controller.abort(new Error('stopped'));
+    await expect(waiting).rejects.toThrow('stopped');
+  });
+});
+
+describe('createRateLimiter', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('lets a burst through, then releases one request per interval', async () => {
+    const limiter = createRateLimiter(2, 60);
+    const released: number[] = [];
+    for (let i = 0; i < 4; i++) limiter.take().then(() => released.push(i));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(released).toEqual([0, 1, 2]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(released).toEqual([0, 1, 2, 3]);
+  });
+
+  it('refills up to capacity after a quiet spell', async () => {
+    const limiter = createRateLimiter(2, 60);
+    await limiter.take();
+    await limiter.take();
+    await vi.advanceTimersByTimeAsync(10000);
+    const released: number[] = [];
+    for (let i = 0; i < 3; i++) limiter.take().then(() => released.push(i));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual([0, 1]);
+  });
+
+  it('stops waiting when the caller cancels', async () => {
+    const limiter = createRateLimiter(1, 60);
+    await limiter.take();
+    const controller = new AbortController();
+    const waiting = limiter.take(controller.signal);
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles the ceiling with each attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(backoffDelay(1, 1000, 20000)).toBeCloseTo(1998);
+    expect(backoffDelay(3, 1000, 20000)).toBeCloseTo(7992);
+  });
+
+  it('never exceeds the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(backoffDelay(10, 1000, 20000)).toBeLessThan(20000);
+  });
+
+  it('jitters down to zero', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(4, 1000, 20000)).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+
+// Waits that end early, rejecting with the abort reason, when `signal` fires.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RateLimiter {
+  take: (signal?: AbortSignal) => Promise<void>;
+}
+
+// Token bucket: `capacity` requests go straight out, after that one is released
+// every 60 / `perMinute` seconds.
+export const createRateLimiter = (capacity: number, perMinute: number): RateLimiter => {
+  const refillMs = 60000 / perMinute;
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  const refill = () => {
+    const earned = Math.floor((Date.now() - refilledAt) / refillMs);
+    if (earned <= 0) return;
+    tokens = Math.min(capacity, tokens + earned);
+    refilledAt = tokens === capacity ? Date.now() : refilledAt + earned * refillMs;
+  };
+  return {
+    take: async (signal) => {
+      while (true) {
+        signal?.throwIfAborted();
+        refill();
+        if (tokens > 0) {
+          tokens--;
+          return;
+        }
+        await sleep(refilledAt + refillMs - Date.now(), signal);
+      }
+    },
+  };
+};
+
+// Full jitter keeps parallel batch workers from retrying in lockstep.
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number) =>
+  Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaTemplate } from '../types';
+import { checkExtractionResponse, isNotFound, normalizeBox, normalizeConfidence, parseAmount, parseBoolean } from './responseValidation';
+
+describe('parseAmount', () => {
+  it('reads Indian digit grouping and the /- suffix', () => {
+    expect(parseAmount('1,25,000/-')).toBe(125000);
+    expect(parseAmount('Rs. 7,25,000')).toBe(725000);
+  });
+
+  it('applies a magnitude word that follows the number', () => {
+    expect(parseAmount('₹ 6.5 lakh')).toBe(650000);
+    expect(parseAmount('Rs. 1.2 Cr')).toBe(12000000);
+    expect(parseAmount('2 crore')).toBe(20000000);
+    expect(parseAmount('6.5 लाख')).toBe(650000);
+  });
+
+  it('ignores the amount in words printed next to the digits', () => {
+    expect(parseAmount('₹ 5,50,000 (Rupees Five Lakh Fifty Thousand Only)')).toBe(550000);
+    expect(parseAmount('₹7,25,000 (Seven Lakh Twenty Five Thousand)')).toBe(725000);
+  });
+
+  it('does not match magnitude words inside other words', () => {
+    expect(parseAmount('Rs 1,25,000 incl. replacement cover')).toBe(125000);
+    expect(parseAmount('45 crates')).toBe(45);
+  });
+
+  it('reads Devanagari and Gujarati digits', () => {
+    expect(parseAmount('७,२५,०००')).toBe(725000);
+    expect(parseAmount('૬.૫ લાખ')).toBe(650000);
+  });
+
+  it('returns null when there is no number', () => {
+    expect(parseAmount('see attached')).toBeNull();
+    expect(parseAmount({})).toBeNull();
+    expect(parseAmount(Number.NaN)).toBeNull();
+  });
+});
+
+describe('parseBoolean', () => {
+  it('understands yes/no words in English, Hindi and Gujarati', () => {
+    expect(parseBoolean('Yes')).toBe(true);
+    expect(parseBoolean('present')).toBe(true);
+    expect(parseBoolean('नहीं')).toBe(false);
+    expect(parseBoolean('હા')).toBe(true);
+    expect(parseBoolean(0)).toBe(false);
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseBoolean('maybe')).toBeNull();
+  });
+});
+
+describe('isNotFound', () => {
+  it('treats placeholders as missing', () => {
+    expect(isNotFound(null)).toBe(true);
+    expect(isNotFound(' N/A ')).toBe(true);
+    expect(isNotFound('---')).toBe(true);
+    expect(isNotFound(false)).toBe(false);
+    expect(isNotFound(0)).toBe(false);
+  });
+});
+
+describe('normalizeConfidence', () => {
+  it('scales percentages and clamps everything else', () => {
+    expect(normalizeConfidence(95)).toBe(0.95);
+    expect(normalizeConfidence(1.05)).toBe(1);
+    expect(normalizeConfidence(-2)).toBe(0);
+    expect(normalizeConfidence('0.8')).toBe(0.8);
+    expect(normalizeConfidence('high')).toBe(0);
+  });
+});
+
+describe('normalizeBox', () => {
+  it('orders swapped edges, clamps to the grid and drops unknown pages', () => {
+    expect(normalizeBox({ ymin: 900, xmin: 10, ymax: 100, xmax: 1200, page: 3 }, 2)).toEqual({ ymin: 100, xmin: 10, ymax: 900, xmax: 1000 });
+  });
+
+  it('scales boxes given in 0-1 units', () => {
+    expect(normalizeBox({ ymin: 0.1, xmin: 0.1, ymax: 0.2, xmax: 0.3, page: 0 }, 1)).toEqual({ ymin: 100, xmin: 100, ymax: 200, xmax: 300, page: 0 });
+  });
+
+  it('drops degenerate and non-numeric boxes', () => {
+    expect(normalizeBox({ ymin: 10, xmin: 10, ymax: 10, xmax: 50 }, 1)).toBeUndefined();
+    expect(normalizeBox({ ymin: 'top', xmin: 0, ymax: 10, xmax: 10 }, 1)).toBeUndefined();
+  });
+});
+
+describe('checkExtractionResponse', () => {
+  const template = { fields: [
+    { key: 'assetCost', label: 'Asset Cost', type: 'currency', description: '' },
+    { key: 'dealerStamp', label: 'Dealer Stamp', type: 'boolean', description: '' },
+  ] } as SchemaTemplate;
+
+  it('accepts fenced JSON and treats missing fields as fine', () => {
+    const { raw, problems } = checkExtractionResponse('```json\n{"assetCost":{"value":"6.5 lakh","confidence":0.9}}\n```', template);
+    expect(problems).toEqual([]);
+    expect(raw?.assetCost.value).toBe('6.5 lakh');
+  });
+
+  it('lists unreadable values and malformed entries', () => {
+    const { problems } = checkExtractionResponse('{"assetCost":{"value":"see note","confidence":1},"dealerStamp":true}', template);
+    expect(problems).toEqual([
+      '"assetCost" value "see note" is not a number',
+      '"dealerStamp" should be an object with "value" and "confidence"',
+    ]);
+  });
+
+  it('reports invalid JSON', () => {
+    const { raw, problems } = checkExtractionResponse('{"assetCost":', template);
+    expect(raw).toBeNull();
+    expect(problems[0]).toMatch(/not valid JSON/);
+  });
+});
@@ -0,0 +1,127 @@
+
+import { BoundingBox, SchemaField, SchemaTemplate } from "../types";
+
+export class ResponseValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    const shown = problems.slice(0, 3).join('; ');
+    super(`The model's response could not be used: ${shown}${problems.length > 3 ? ` (and ${problems.length - 3} more)` : ''}.`);
+    this.name = 'ResponseValidationError';
+    this.problems = problems;
+  }
+}
+
+// Devanagari (०-९) and Gujarati (૦-૯) digits, as printed on Hindi and Gujarati invoices.
+const NATIVE_DIGITS = /[०-९૦-૯]/g;
+
+export const toAsciiDigits = (text: string): string =>
+  text.replace(NATIVE_DIGITS, ch => {
+    const code = ch.charCodeAt(0);
+    return String(code - (code >= 0x0AE6 ? 0x0AE6 : 0x0966));
+  });
+
+// Only a word right after the number scales it: the amount in words that invoices
+// print alongside the digits ("Rupees Five Lakh Fifty Thousand Only") must not.
+const MAGNITUDES: [RegExp, number][] = [
+  [/^\s*(?:crores?\b|cr\b|करोड़|करोड|કરોડ)/, 1e7],
+  [/^\s*(?:lakhs?\b|lacs?\b|लाख|લાખ)/, 1e5],
+  [/^\s*(?:thousand\b|हज़ार|हजार|હજાર)/, 1e3],
+];
+
+// Reads amounts as they appear on Indian documents: "1,25,000/-", "₹ 6.5 lakh",
+// "Rs. 1.2 Cr", "७,२५,०००". Grouping commas are dropped wherever they fall.
+export const parseAmount = (raw: unknown): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const text = toAsciiDigits(raw).toLowerCase().replace(/\/-/g, '');
+  const match = text.match(/-?\d[\d,]*(?:\.\d+)?/);
+  if (!match) return null;
+  const base = Number(match[0].replace(/,/g, ''));
+  const following = text.slice((match.index ?? 0) + match[0].length);
+  const magnitude = MAGNITUDES.find(([pattern]) => pattern.test(following))?.[1] ?? 1;
+  const value = base * magnitude;
+  return Number.isFinite(value) ? Math.round(value * 100) / 100 : null;
+};
+
+const TRUE_WORDS = ['true', 'yes', 'y', 'present', 'signed', 'stamped', '1', 'हाँ', 'हां', 'હા'];
+const FALSE_WORDS = ['false', 'no', 'n', 'absent', 'missing', 'unsigned', '0', 'नहीं', 'ना', 'ના'];
+
+export const parseBoolean = (raw: unknown): boolean | null => {
+  if (typeof raw === 'boolean') return raw;
+  if (typeof raw === 'number') return raw !== 0;
+  if (typeof raw !== 'string') return null;
+  const word = raw.trim().toLowerCase();
+  if (TRUE_WORDS.includes(word)) return true;
+  if (FALSE_WORDS.includes(word)) return false;
+  return null;
+};
+
+const NOT_FOUND_WORDS = ['', 'n/a', 'na', 'none', 'null', 'nil', 'unknown', 'not found', 'not available', 'not present', '-', '--', '---'];
+
+// What models write instead of leaving a value out.
+export const isNotFound = (raw: unknown): boolean =>
+  raw === null || raw === undefined || (typeof raw === 'string' && NOT_FOUND_WORDS.includes(raw.trim().toLowerCase()));
+
+// Values from 2 to 100 are read as percentages; anything else is clamped into 0-1,
+// so a slight overshoot like 1.05 stays near certain rather than becoming 1%.
+export const normalizeConfidence = (raw: unknown): number => {
+  const num = typeof raw === 'number' ? raw : parseFloat(String(raw));
+  if (!Number.isFinite(num)) return 0;
+  return Math.min(1, Math.max(0, num >= 2 && num <= 100 ? num / 100 : num));
+};
+
+const BOX_KEYS = ['ymin', 'xmin', 'ymax', 'xmax'] as const;
+
+// Boxes are clamped to the 0-1000 grid, with swapped edges put back in order.
+// Boxes given in 0-1 units are scaled up; degenerate boxes are dropped, and so
+// is a page index that doesn't exist.
+export const normalizeBox = (raw: unknown, pageCount: number): BoundingBox | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const source = raw as Record<string, unknown>;
+  let coords = BOX_KEYS.map(key => Number(source[key]));
+  if (coords.some(c => !Number.isFinite(c))) return undefined;
+  if (coords.every(c => c <= 1) && coords.some(c => c > 0)) coords = coords.map(c => c * 1000);
+  const [y1, x1, y2, x2] = coords.map(c => Math.min(1000, Math.max(0, c)));
+  const box: BoundingBox = { ymin: Math.min(y1, y2), xmin: Math.min(x1, x2), ymax: Math.max(y1, y2), xmax: Math.max(x1, x2) };
+  if (box.ymax - box.ymin < 1 || box.xmax - box.xmin < 1) return undefined;
+  const page = Number(source.page);
+  return Number.isInteger(page) && page >= 0 && page < pageCount ? { ...box, page } : box;
+};
+
+const valueProblem = (field: SchemaField, value: unknown): string | null => {
+  if (isNotFound(value)) return null;
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      return parseAmount(value) === null ? `"${field.key}" value ${JSON.stringify(value)} is not a number` : null;
+    case 'boolean':
+      return parseBoolean(value) === null ? `"${field.key}" value ${JSON.stringify(value)} is not true or false` : null;
+    default:
+      return typeof value === 'object' ? `"${field.key}" value should be text, not ${Array.isArray(value) ? 'a list' : 'an object'}` : null;
+  }
+};
+
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Parses the raw response text and lists everything wrong with it. Fields that are
+// simply missing are not problems: they are filled in later as not found.
+export const checkExtractionResponse = (text: string | undefined, template: SchemaTemplate): { raw: Record<string, any> | null; problems: string[] } => {
+  if (!text?.trim()) return { raw: null, problems: ['the response was empty'] };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stripCodeFence(text));
+  } catch (err: any) {
+    return { raw: null, problems: [`the response is not valid JSON (${err.message})`] };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { raw: null, problems: ['the response is not a JSON object keyed by field'] };
+  const record = raw as Record<string, any>;
+  const problems = template.fields.flatMap(field => {
+    const entry = record[field.key];
+    if (entry === undefined || entry === null) return [];
+    if (typeof entry !== 'object' || Array.isArray(entry) || !('value' in entry)) return [`"${field.key}" should be an object with "value" and "confidence"`];
+    const problem = valueProblem(field, entry.value);
+    return problem ? [problem] : [];
+  });
+  return { raw: record, problems };
+};
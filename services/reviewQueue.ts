@@ -0,0 +1,77 @@
+
+import { ReviewState, ReviewStatus, ReviewThresholds, SchemaTemplate, StoredDocument } from "../types";
+
+const THRESHOLDS_STORAGE_KEY = 'docu_review_thresholds';
+
+export const DEFAULT_THRESHOLDS: ReviewThresholds = {
+  defaultThreshold: 0.8,
+  fields: { assetCost: 0.9 },
+};
+
+export const loadReviewThresholds = (): ReviewThresholds => {
+  const saved = localStorage.getItem(THRESHOLDS_STORAGE_KEY);
+  if (!saved) return DEFAULT_THRESHOLDS;
+  try {
+    return { ...DEFAULT_THRESHOLDS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse review thresholds", e);
+    return DEFAULT_THRESHOLDS;
+  }
+};
+
+export const saveReviewThresholds = (thresholds: ReviewThresholds) => {
+  localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+};
+
+export const thresholdFor = (thresholds: ReviewThresholds, field: string): number => thresholds.fields[field] ?? thresholds.defaultThreshold;
+
+// Operator-edited values are already confirmed, whatever confidence they carry.
+export const lowConfidenceFields = (doc: StoredDocument, template: SchemaTemplate, thresholds: ReviewThresholds): string[] =>
+  template.fields
+    .filter(f => {
+      const field = doc.data[f.key];
+      return field && !field.isEdited && field.confidence < thresholdFor(thresholds, f.key);
+    })
+    .map(f => f.key);
+
+// Documents with nothing flagged are approved straight away; everything else
+// waits in the queue until a reviewer decides.
+export const initialReview = (doc: StoredDocument, template: SchemaTemplate, thresholds: ReviewThresholds): ReviewState => {
+  const flaggedFields = lowConfidenceFields(doc, template, thresholds);
+  const failedRules = (doc.validation?.results || []).filter(r => !r.passed && r.severity !== 'info');
+  const reasons = [
+    ...flaggedFields.map(key => `${template.fields.find(f => f.key === key)?.label || key} ${doc.data[key]?.notFound ? 'not found' : `below ${Math.round(thresholdFor(thresholds, key) * 100)}% confidence`}`),
+    ...failedRules.map(r => r.message),
+  ];
+  return reasons.length
+    ? { status: 'pending', flaggedFields, resolvedFields: [], reasons }
+    : { status: 'approved', flaggedFields: [], resolvedFields: [], reasons: [], automatic: true, decidedAt: new Date().toISOString() };
+};
+
+export const resolveReviewField = (review: ReviewState, field: string): ReviewState =>
+  !review.flaggedFields.includes(field) || review.resolvedFields.includes(field)
+    ? review
+    : { ...review, resolvedFields: [...review.resolvedFields, field] };
+
+// Any correction sends the document back for a second person's approval,
+// whatever its confidence or earlier decision.
+export const awaitApproval = (review: ReviewState | undefined, correctedBy: string): ReviewState => {
+  const reason = `Corrected by ${correctedBy}`;
+  const { flaggedFields = [], resolvedFields = [], reasons = [] } = review || {};
+  return { status: 'pending', flaggedFields, resolvedFields, reasons: reasons.includes(reason) ? reasons : [...reasons, reason] };
+};
+
+export const unresolvedFields = (review: ReviewState): string[] => review.flaggedFields.filter(f => !review.resolvedFields.includes(f));
+
+export const decideReview = (review: ReviewState, status: Exclude<ReviewStatus, 'pending'>, decidedBy: string, note?: string): ReviewState => ({
+  ...review,
+  status,
+  automatic: false,
+  decidedAt: new Date().toISOString(),
+  decidedBy,
+  note: note?.trim() || undefined,
+});
+
+// Oldest first, so the queue is worked in arrival order.
+export const pendingReviews = (archive: StoredDocument[]): StoredDocument[] =>
+  archive.filter(d => d.review?.status === 'pending').sort((a, b) => a.timestamp.localeCompare(b.timestamp));
@@ -0,0 +1,97 @@
+
+import { DocumentData, InvoiceData, RuleCondition, RuleResult, ValidationReport, ValidationRule } from "../types";
+
+const RULES_STORAGE_KEY = 'docu_rules';
+
+export const RULE_FIELDS: (keyof InvoiceData)[] = ['documentType', 'dealerName', 'modelName', 'horsePower', 'assetCost', 'dealerSignature', 'dealerStamp'];
+
+export const DEFAULT_RULES: ValidationRule[] = [
+  { id: 'dealer-name-present', name: 'Dealer name present', enabled: true, severity: 'error', assert: { kind: 'present', field: 'dealerName' }, message: 'Dealer name is missing.' },
+  { id: 'model-name-present', name: 'Model name present', enabled: true, severity: 'error', assert: { kind: 'present', field: 'modelName' }, message: 'Model name is missing.' },
+  { id: 'invoice-signature', name: 'Invoice is signed', enabled: true, severity: 'error', documentTypes: ['Invoice'], assert: { kind: 'equals', field: 'dealerSignature', value: true }, message: 'Invoices must carry the dealer signature.' },
+  { id: 'invoice-stamp', name: 'Invoice is stamped', enabled: true, severity: 'error', documentTypes: ['Invoice'], assert: { kind: 'equals', field: 'dealerStamp', value: true }, message: 'Invoices must carry the dealer stamp.' },
+  { id: 'asset-cost-minimum', name: 'Asset cost above minimum', enabled: true, severity: 'warning', assert: { kind: 'range', field: 'assetCost', min: 100000 }, message: 'Asset cost is below ₹1,00,000.' },
+  { id: 'horse-power-range', name: 'Plausible horse power', enabled: true, severity: 'warning', assert: { kind: 'range', field: 'horsePower', min: 10, max: 150 }, message: 'Horse power is outside 10–150 HP.' },
+  { id: 'stamped-needs-signature', name: 'Stamped documents are signed', enabled: false, severity: 'warning', when: { kind: 'equals', field: 'dealerStamp', value: true }, assert: { kind: 'equals', field: 'dealerSignature', value: true }, message: 'A stamp is present without a signature.' },
+  { id: 'asset-cost-confidence', name: 'Asset cost confidence', enabled: true, severity: 'warning', assert: { kind: 'confidence', field: 'assetCost', min: 0.8 }, message: 'Asset cost was read with low confidence.' },
+];
+
+export const loadRules = (): ValidationRule[] => {
+  const saved = localStorage.getItem(RULES_STORAGE_KEY);
+  if (!saved) return DEFAULT_RULES;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse validation rules", e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: ValidationRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+const isPresent = (value: unknown): boolean =>
+  value !== null && value !== undefined && !(typeof value === 'string' && value.trim() === '') && !(typeof value === 'number' && isNaN(value));
+
+export const evaluateCondition = (condition: RuleCondition, data: DocumentData): boolean => {
+  const field = data[condition.field];
+  const value = field?.value;
+  switch (condition.kind) {
+    case 'present':
+      return isPresent(value);
+    case 'equals':
+      return typeof value === 'string' && typeof condition.value === 'string'
+        ? value.trim().toLowerCase() === condition.value.trim().toLowerCase()
+        : value === condition.value;
+    case 'range': {
+      const num = Number(value);
+      if (!isPresent(value) || isNaN(num)) return false;
+      return (condition.min === undefined || num >= condition.min) && (condition.max === undefined || num <= condition.max);
+    }
+    case 'confidence':
+      return (field?.confidence ?? 0) >= condition.min;
+    case 'pattern':
+      try {
+        return isPresent(value) && new RegExp(condition.pattern).test(String(value).trim());
+      } catch (e) {
+        return false;
+      }
+  }
+};
+
+export const describeCondition = (condition: RuleCondition): string => {
+  switch (condition.kind) {
+    case 'present': return `${condition.field} is present`;
+    case 'equals': return `${condition.field} = ${String(condition.value)}`;
+    case 'range': return `${condition.field} in [${condition.min ?? '−∞'}, ${condition.max ?? '∞'}]`;
+    case 'confidence': return `${condition.field} confidence ≥ ${condition.min}`;
+    case 'pattern': return `${condition.field} matches /${condition.pattern}/`;
+  }
+};
+
+const appliesTo = (rule: ValidationRule, data: DocumentData): boolean => {
+  if (!rule.enabled) return false;
+  if (rule.documentTypes?.length && !rule.documentTypes.some(t => t.toLowerCase() === (data.documentType?.value || '').toLowerCase())) return false;
+  return !rule.when || evaluateCondition(rule.when, data);
+};
+
+export const validateDocument = (data: DocumentData, rules: ValidationRule[]): ValidationReport => {
+  const results: RuleResult[] = rules
+    .filter(rule => appliesTo(rule, data))
+    .map(rule => {
+      const passed = evaluateCondition(rule.assert, data);
+      return { ruleId: rule.id, ruleName: rule.name, severity: rule.severity, passed, message: passed ? describeCondition(rule.assert) : rule.message };
+    });
+  return {
+    evaluatedAt: new Date().toISOString(),
+    results,
+    errorCount: results.filter(r => !r.passed && r.severity === 'error').length,
+    warningCount: results.filter(r => !r.passed && r.severity === 'warning').length,
+  };
+};
+
+export type ValidationStatus = 'passed' | 'warnings' | 'errors' | 'unchecked';
+
+export const getValidationStatus = (report?: ValidationReport): ValidationStatus =>
+  !report ? 'unchecked' : report.errorCount > 0 ? 'errors' : report.warningCount > 0 ? 'warnings' : 'passed';
@@ -0,0 +1,228 @@
+
+import { DocumentData, ExtractedField, SchemaField, SchemaTemplate, TemplateRef, ValidationRule } from "../types";
+import { isNotFound, normalizeBox, normalizeConfidence, parseAmount, parseBoolean } from "./responseValidation";
+
+const TEMPLATES_STORAGE_KEY = 'docu_schema_templates';
+const ACTIVE_TEMPLATE_STORAGE_KEY = 'docu_active_template';
+
+export const DEFAULT_TEMPLATE_ID = 'tractor-invoice';
+
+const BUILTIN_FIELDS: SchemaField[] = [
+  { key: 'documentType', label: 'Document Type', type: 'string', description: 'Classify as "Invoice", "Quotation", or "Other".', builtIn: true },
+  { key: 'dealerName', label: 'Dealer Name', type: 'string', description: 'Name of the selling dealer (fuzzy match).', builtIn: true },
+  { key: 'modelName', label: 'Model Name', type: 'string', description: 'Tractor model name, exactly as printed.', builtIn: true },
+  { key: 'horsePower', label: 'Horse Power', type: 'number', unit: 'HP', description: 'Numeric value only, e.g. "50 HP" -> 50.', builtIn: true },
+  { key: 'assetCost', label: 'Asset Cost', type: 'currency', unit: '₹', description: 'Total asset cost, numeric digits only.', builtIn: true },
+  { key: 'dealerSignature', label: 'Dealer Signature', type: 'boolean', locate: true, description: 'Whether the dealer signature is present.', builtIn: true },
+  { key: 'dealerStamp', label: 'Dealer Stamp', type: 'boolean', locate: true, description: 'Whether the dealer stamp is present.', builtIn: true },
+];
+
+export const DEFAULT_TEMPLATE: SchemaTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: 'Tractor Invoice',
+  version: 1,
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  instructions: `Document Classification Rules:
+- "Invoice": Must contain terms like "Tax Invoice", "Bill", "Sales Invoice", or clear payment due details.
+- "Quotation": Must contain terms like "Estimate", "Quotation", "Pro-forma", or "Offer". Usually lacks a bill number or date.
+- "Other": Use if the document is neither a clear invoice nor a quotation (e.g., delivery notes, purchase orders).`,
+  fields: BUILTIN_FIELDS,
+};
+
+// Common additions offered in the template editor.
+export const FIELD_PRESETS: SchemaField[] = [
+  { key: 'invoiceNumber', label: 'Invoice Number', type: 'string', description: 'Invoice or bill number as printed.' },
+  { key: 'invoiceDate', label: 'Invoice Date', type: 'date', description: 'Date of the invoice or quotation.' },
+  { key: 'chassisNumber', label: 'Chassis Number', type: 'string', description: 'Tractor chassis (frame) number.', validation: { pattern: '^[A-Z0-9]{6,20}$' } },
+  { key: 'gstin', label: 'GSTIN', type: 'string', description: "Dealer's 15-character GST identification number.", validation: { pattern: '^\\d{2}[A-Z]{5}\\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$' } },
+];
+
+// Every published version is kept so documents can be shown with the
+// template that actually produced them.
+export const loadTemplates = (): SchemaTemplate[] => {
+  const saved = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+  if (!saved) return [DEFAULT_TEMPLATE];
+  try {
+    const templates: SchemaTemplate[] = JSON.parse(saved);
+    return templates.length ? templates : [DEFAULT_TEMPLATE];
+  } catch (e) {
+    console.error("Failed to parse schema templates", e);
+    return [DEFAULT_TEMPLATE];
+  }
+};
+
+export const saveTemplates = (templates: SchemaTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const loadActiveTemplateId = (): string => localStorage.getItem(ACTIVE_TEMPLATE_STORAGE_KEY) || DEFAULT_TEMPLATE_ID;
+
+export const saveActiveTemplateId = (id: string) => {
+  localStorage.setItem(ACTIVE_TEMPLATE_STORAGE_KEY, id);
+};
+
+export const latestTemplates = (templates: SchemaTemplate[]): SchemaTemplate[] => {
+  const latest = new Map<string, SchemaTemplate>();
+  for (const t of templates) {
+    const current = latest.get(t.id);
+    if (!current || t.version > current.version) latest.set(t.id, t);
+  }
+  return [...latest.values()];
+};
+
+// Exact version when `ref` has one, otherwise the latest version of the id;
+// documents from before templates existed fall back to the default.
+export const findTemplate = (templates: SchemaTemplate[], ref?: Pick<TemplateRef, 'id'> & Partial<TemplateRef>): SchemaTemplate => {
+  const id = ref?.id || DEFAULT_TEMPLATE_ID;
+  const exact = ref?.version !== undefined ? templates.find(t => t.id === id && t.version === ref.version) : undefined;
+  return exact || latestTemplates(templates).find(t => t.id === id) || DEFAULT_TEMPLATE;
+};
+
+export const templateRef = (template: SchemaTemplate): TemplateRef => ({ id: template.id, version: template.version, name: template.name });
+
+export const validateTemplate = (template: SchemaTemplate): string[] => {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('Template name is required.');
+  const keys = new Set<string>();
+  for (const field of template.fields) {
+    if (!/^[a-z][A-Za-z0-9]*$/.test(field.key)) errors.push(`"${field.key || '(empty)'}" is not a valid field key; use camelCase letters and digits.`);
+    if (keys.has(field.key)) errors.push(`Field key "${field.key}" is used twice.`);
+    keys.add(field.key);
+    if (field.validation?.pattern) {
+      try {
+        new RegExp(field.validation.pattern);
+      } catch (e) {
+        errors.push(`${field.label}: invalid pattern.`);
+      }
+    }
+  }
+  for (const builtIn of BUILTIN_FIELDS) {
+    const field = template.fields.find(f => f.key === builtIn.key);
+    if (!field || field.type !== builtIn.type) errors.push(`Built-in field "${builtIn.key}" must be kept as ${builtIn.type}.`);
+  }
+  return errors;
+};
+
+// Stores `draft` as the next version of its template. Drafts identical to the
+// latest version are not republished.
+export const publishTemplate = (templates: SchemaTemplate[], draft: SchemaTemplate): SchemaTemplate[] => {
+  const versions = templates.filter(t => t.id === draft.id);
+  const latest = versions.reduce<SchemaTemplate | null>((a, t) => !a || t.version > a.version ? t : a, null);
+  const same = latest && latest.name === draft.name && latest.instructions === draft.instructions && JSON.stringify(latest.fields) === JSON.stringify(draft.fields);
+  if (same) return templates;
+  return [...templates, { ...draft, version: (latest?.version || 0) + 1, updatedAt: new Date().toISOString() }];
+};
+
+export const newTemplateDraft = (base: SchemaTemplate, name: string): SchemaTemplate => ({
+  ...base,
+  id: crypto.randomUUID(),
+  name,
+  version: 0,
+  fields: base.fields.map(f => ({ ...f })),
+});
+
+const typeHint = (field: SchemaField): string => {
+  switch (field.type) {
+    case 'number': return 'numeric value';
+    case 'currency': return 'amount as a plain number, no currency symbols or separators';
+    case 'date': return 'date as YYYY-MM-DD';
+    case 'boolean': return field.locate ? 'presence' : 'true or false';
+    default: return 'text';
+  }
+};
+
+// Enough of a bad response to show the model what went wrong without resending a runaway one.
+const REPAIR_ECHO_LIMIT = 8000;
+
+// Follow-up sent when a response fails validation: the model gets its own output
+// back with the problems found, and only has to fix the format.
+export const buildRepairPrompt = (template: SchemaTemplate, previous: string, problems: string[]): string => `Your previous response to a document extraction request could not be used:
+${problems.map(p => `- ${p}`).join('\n')}
+
+Previous response:
+${previous.slice(0, REPAIR_ECHO_LIMIT)}
+
+Return the corrected response as a single JSON object keyed by field, each field an object with "value", "confidence" (0-1) and optionally "boundingBox". Keep the values you read; only fix the format. Use null for a value that is not on the document.
+
+Fields:
+${template.fields.map(f => `- "${f.key}": ${typeHint(f)}`).join('\n')}
+`;
+
+export const buildExtractionPrompt = (template: SchemaTemplate, pageCount: number): string => `You are an expert Document AI assistant. Analyze this document image, classify its type, and extract the following fields in strict JSON format.
+Handle multilingual content (English, Hindi, Gujarati).
+Return confidence scores (0-1) for each field.
+For every field, return the bounding box of the region the value was read from in normalized coordinates [0, 1000]; for presence fields, box the mark itself. Omit the box when the value does not appear on the document.
+The document has ${pageCount} page(s), provided in order as images numbered from 0. Extract across all pages (the stamp and signature are often on a later page) and set "page" on every bounding box to the index of the page it is on.
+
+${template.instructions}
+
+Fields to extract:
+${template.fields.map((f, i) => `${i + 1}. ${f.label} ("${f.key}", ${typeHint(f)}): ${f.description}`).join('\n')}
+`;
+
+// Built-in numeric fields default to 0 as they always have; added fields stay
+// null so a "required" rule can tell a missing number from a zero.
+const emptyValue = (field: Pick<SchemaField, 'type' | 'builtIn'>): any => {
+  if (field.type === 'boolean') return false;
+  if (field.type === 'number' || field.type === 'currency') return field.builtIn ? 0 : null;
+  return '';
+};
+
+const coerceValue = (field: Pick<SchemaField, 'type' | 'builtIn'>, value: any): any => {
+  if (value === null || value === undefined) return emptyValue(field);
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      return parseAmount(value) ?? emptyValue(field);
+    case 'boolean':
+      return parseBoolean(value) ?? false;
+    default:
+      return String(value).trim();
+  }
+};
+
+// Turns text typed by an operator into a value of the field's type.
+export const parseFieldInput = (field: Pick<SchemaField, 'type' | 'builtIn'>, raw: string): any => coerceValue(field, raw);
+
+// Shapes a provider response to the template: every declared field is present
+// with a value of the declared type, and undeclared keys are dropped. Confidences
+// and boxes are normalized; fields without a value are marked not found.
+export const conformToTemplate = (raw: Record<string, any>, template: SchemaTemplate, pageCount: number = 1): DocumentData => {
+  const data: Record<string, ExtractedField<any>> = {};
+  for (const field of template.fields) {
+    const source = raw?.[field.key];
+    const extracted = source && typeof source === 'object' && 'value' in source ? source : { value: source, confidence: 0 };
+    const notFound = isNotFound(extracted.value);
+    const boundingBox = notFound ? undefined : normalizeBox(extracted.boundingBox, pageCount);
+    const entry: ExtractedField<any> = {
+      ...extracted,
+      value: notFound ? emptyValue(field) : coerceValue(field, extracted.value),
+      confidence: notFound ? 0 : normalizeConfidence(extracted.confidence),
+    };
+    delete entry.boundingBox;
+    delete entry.notFound;
+    if (boundingBox) entry.boundingBox = boundingBox;
+    if (notFound) entry.notFound = true;
+    data[field.key] = entry;
+  }
+  return data as DocumentData;
+};
+
+// Template-level validation expressed as ordinary rules, so it reports through
+// the same validation panel and archive filters as the configured rules.
+export const templateRules = (template: SchemaTemplate): ValidationRule[] =>
+  template.fields.flatMap((field): ValidationRule[] => {
+    const v = field.validation;
+    if (!v) return [];
+    const rules: ValidationRule[] = [];
+    if (v.required) {
+      rules.push({ id: `template:${field.key}:required`, name: `${field.label} required`, enabled: true, severity: 'error', assert: { kind: 'present', field: field.key }, message: `${field.label} is missing.` });
+    }
+    if (v.pattern) {
+      rules.push({ id: `template:${field.key}:pattern`, name: `${field.label} format`, enabled: true, severity: 'warning', when: { kind: 'present', field: field.key }, assert: { kind: 'pattern', field: field.key, pattern: v.pattern }, message: `${field.label} does not match the expected format.` });
+    }
+    if (v.min !== undefined || v.max !== undefined) {
+      rules.push({ id: `template:${field.key}:range`, name: `${field.label} range`, enabled: true, severity: 'warning', when: { kind: 'present', field: field.key }, assert: { kind: 'range', field: field.key, min: v.min, max: v.max }, message: `${field.label} is outside ${v.min ?? '−∞'}–${v.max ?? '∞'}${field.unit ? ` ${field.unit}` : ''}.` });
+    }
+    return rules;
+  });
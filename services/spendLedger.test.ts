@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpendBudget, TokenUsage } from '../types';
+import { clearSpendLedger, getBudgetStatus, loadSpendLedger, loadSpendTotals, recordSpend } from './spendLedger';
+
+const usage = (costUsd: number): TokenUsage => ({ model: 'gemini-3-flash-preview', promptTokens: 100, outputTokens: 10, imageInputTokens: 0, imageOutputTokens: 0, costUsd });
+
+const budget = (period: SpendBudget['period'], limitUsd: number | null = 1): SpendBudget => ({ limitUsd, warnRatio: 0.8, period });
+
+describe('spend ledger', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+      removeItem: (key: string) => { store.delete(key); },
+    });
+  });
+
+  it('keeps counting spend after old entries are trimmed', () => {
+    const entries = Array.from({ length: 5000 }, (_, i) => ({ id: String(i), timestamp: new Date().toISOString(), kind: 'extraction', usage: usage(0.001) }));
+    localStorage.setItem('docu_spend_ledger', JSON.stringify(entries));
+    for (let i = 0; i < 10; i++) recordSpend('extraction', usage(0.001));
+    expect(loadSpendLedger()).toHaveLength(5000);
+    expect(loadSpendTotals().allTimeUsd).toBeCloseTo(5.01);
+    expect(getBudgetStatus(loadSpendTotals(), budget('all', 5)).state).toBe('exceeded');
+  });
+
+  it('counts only the current local month for a monthly budget', () => {
+    const now = new Date();
+    const thisMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    const totals = { allTimeUsd: 3, byMonthUsd: { '2020-01': 2.2, [thisMonth]: 0.8 } };
+    expect(getBudgetStatus(totals, budget('month')).spentUsd).toBeCloseTo(0.8);
+    expect(getBudgetStatus(totals, budget('month')).state).toBe('warning');
+    expect(getBudgetStatus(totals, budget('all')).state).toBe('exceeded');
+  });
+
+  it('builds totals from a ledger saved before totals existed', () => {
+    localStorage.setItem('docu_spend_ledger', JSON.stringify([{ id: '1', timestamp: new Date().toISOString(), kind: 'chat', usage: usage(0.25) }]));
+    expect(loadSpendTotals().allTimeUsd).toBeCloseTo(0.25);
+  });
+
+  it('resets the totals when the ledger is cleared', () => {
+    recordSpend('chat', usage(0.5));
+    clearSpendLedger();
+    expect(loadSpendTotals().allTimeUsd).toBe(0);
+    expect(loadSpendLedger()).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+
+import { ModelPrice, SpendBudget, SpendEntry, SpendKind, SpendTotals, TokenUsage } from "../types";
+
+const PRICES_STORAGE_KEY = 'docu_model_prices';
+const LEDGER_STORAGE_KEY = 'docu_spend_ledger';
+const TOTALS_STORAGE_KEY = 'docu_spend_totals';
+const BUDGET_STORAGE_KEY = 'docu_budget';
+const MAX_LEDGER_ENTRIES = 5000;
+
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-3-flash-preview', inputPerMillion: 0.5, outputPerMillion: 3, imageOutputPerMillion: 3 },
+  { model: 'gemini-3-pro-preview', inputPerMillion: 2, outputPerMillion: 12, imageOutputPerMillion: 12 },
+  { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 2.5, imageOutputPerMillion: 30 },
+];
+
+export const DEFAULT_BUDGET: SpendBudget = { limitUsd: null, warnRatio: 0.8, period: 'month' };
+
+export class BudgetExceededError extends Error {
+  constructor(message: string = "The spending budget has been exceeded.") {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const formatUsd = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const loadJson = <T>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key}`, e);
+    return fallback;
+  }
+};
+
+export const loadModelPrices = (): ModelPrice[] => loadJson(PRICES_STORAGE_KEY, DEFAULT_PRICES);
+
+export const saveModelPrices = (prices: ModelPrice[]) => {
+  localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+export const loadBudget = (): SpendBudget => ({ ...DEFAULT_BUDGET, ...loadJson<Partial<SpendBudget>>(BUDGET_STORAGE_KEY, {}) });
+
+export const saveBudget = (budget: SpendBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+export const loadSpendLedger = (): SpendEntry[] => loadJson(LEDGER_STORAGE_KEY, []);
+
+// Local calendar month, e.g. "2026-03".
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const addToTotals = (totals: SpendTotals, entry: SpendEntry): SpendTotals => {
+  const month = monthKey(new Date(entry.timestamp));
+  return {
+    allTimeUsd: totals.allTimeUsd + entry.usage.costUsd,
+    byMonthUsd: { ...totals.byMonthUsd, [month]: (totals.byMonthUsd[month] || 0) + entry.usage.costUsd },
+  };
+};
+
+const EMPTY_TOTALS: SpendTotals = { allTimeUsd: 0, byMonthUsd: {} };
+
+// Kept apart from the ledger, which only holds the latest entries, so the budget
+// still counts spend whose entries have been trimmed. Ledgers from before the
+// totals existed are summed once.
+export const loadSpendTotals = (): SpendTotals =>
+  loadJson<SpendTotals | null>(TOTALS_STORAGE_KEY, null) || loadSpendLedger().reduce(addToTotals, EMPTY_TOTALS);
+
+const listeners = new Set<(ledger: SpendEntry[], totals: SpendTotals) => void>();
+
+// The ledger is written by the service layer, outside React; App subscribes to mirror it into state.
+export const subscribeToSpend = (listener: (ledger: SpendEntry[], totals: SpendTotals) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const writeLedger = (ledger: SpendEntry[], totals: SpendTotals) => {
+  const trimmed = ledger.slice(-MAX_LEDGER_ENTRIES);
+  localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(trimmed));
+  localStorage.setItem(TOTALS_STORAGE_KEY, JSON.stringify(totals));
+  listeners.forEach(listener => listener(trimmed, totals));
+};
+
+export const recordSpend = (kind: SpendKind, usage: TokenUsage): SpendEntry => {
+  const entry: SpendEntry = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), kind, usage };
+  writeLedger([...loadSpendLedger(), entry], addToTotals(loadSpendTotals(), entry));
+  return entry;
+};
+
+// Resets the budget too: the totals go with the entries.
+export const clearSpendLedger = () => writeLedger([], EMPTY_TOTALS);
+
+// Models missing from the table are priced at zero rather than guessed.
+export const priceUsage = (usage: Omit<TokenUsage, 'costUsd'>, prices: ModelPrice[]): TokenUsage => {
+  const price = prices.find(p => p.model === usage.model);
+  const textOutput = Math.max(0, usage.outputTokens - usage.imageOutputTokens);
+  const costUsd = price
+    ? (usage.promptTokens * price.inputPerMillion + textOutput * price.outputPerMillion + usage.imageOutputTokens * price.imageOutputPerMillion) / 1_000_000
+    : 0;
+  return { ...usage, costUsd };
+};
+
+export const spendInPeriod = (totals: SpendTotals, budget: SpendBudget): number =>
+  budget.period === 'all' ? totals.allTimeUsd : totals.byMonthUsd[monthKey(new Date())] || 0;
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  state: BudgetState;
+  spentUsd: number;
+  limitUsd: number | null;
+}
+
+export const getBudgetStatus = (totals: SpendTotals, budget: SpendBudget): BudgetStatus => {
+  const spentUsd = spendInPeriod(totals, budget);
+  if (budget.limitUsd === null) return { state: 'ok', spentUsd, limitUsd: null };
+  const state: BudgetState = spentUsd >= budget.limitUsd ? 'exceeded' : spentUsd >= budget.limitUsd * budget.warnRatio ? 'warning' : 'ok';
+  return { state, spentUsd, limitUsd: budget.limitUsd };
+};
+
+// Called before every billable request. A call already in flight when the limit
+// is crossed still completes; only new calls are refused.
+export const assertWithinBudget = () => {
+  const status = getBudgetStatus(loadSpendTotals(), loadBudget());
+  if (status.state === 'exceeded') {
+    throw new BudgetExceededError(`Spending budget of $${status.limitUsd!.toFixed(2)} reached ($${status.spentUsd.toFixed(4)} spent).`);
+  }
+};
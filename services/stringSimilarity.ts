@@ -0,0 +1,78 @@
+
+import { toAsciiDigits } from "./responseValidation";
+
+// Lowercases, strips punctuation and collapses whitespace so OCR noise like
+// "M/s. Shree Ganesh Tractors," compares equal to "shree ganesh tractors".
+export const normalizeText = (value: string): string =>
+  toAsciiDigits(value || '')
+    .toLowerCase()
+    .replace(/\bm\/s\.?/g, ' ')
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Order-insensitive token overlap, so "Tractors Ganesh Shree" still matches.
+export const tokenSetSimilarity = (a: string, b: string): number => {
+  const aTokens = new Set(a.split(' ').filter(Boolean));
+  const bTokens = new Set(b.split(' ').filter(Boolean));
+  if (!aTokens.size || !bTokens.size) return 0;
+  const shared = [...aTokens].filter(t => bTokens.has(t)).length;
+  return (2 * shared) / (aTokens.size + bTokens.size);
+};
+
+// Score in [0, 1]; the best of character-level and token-level similarity.
+export const stringSimilarity = (a: string, b: string): number => {
+  const na = normalizeText(a);
+  const nb = normalizeText(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  return Math.max(jaroWinkler(na, nb), tokenSetSimilarity(na, nb));
+};
+
+// Each word is scored against its closest counterpart and weighted by length, so one
+// differing word ("Krishna" for "Ganesh") costs its full share instead of being
+// diluted by the shared prefix and suffix as it is in a whole-string comparison.
+export const tokenSimilarity = (a: string, b: string): number => {
+  const aTokens = normalizeText(a).split(' ').filter(Boolean);
+  const bTokens = normalizeText(b).split(' ').filter(Boolean);
+  if (!aTokens.length || !bTokens.length) return 0;
+  const weighted = (tokens: string[], others: string[]) =>
+    tokens.reduce((sum, token) => sum + token.length * Math.max(...others.map(other => jaroWinkler(token, other))), 0);
+  const totalLength = [...aTokens, ...bTokens].reduce((sum, token) => sum + token.length, 0);
+  return (weighted(aTokens, bTokens) + weighted(bTokens, aTokens)) / totalLength;
+};
+
+// Digit runs such as the "744" in "Swaraj 744 FE", which tell otherwise similar names apart.
+export const numericTokens = (value: string): string[] => normalizeText(value).match(/\d+/g) || [];
@@ -4,13 +4,21 @@ export interface BoundingBox {
   xmin: number;
   ymax: number;
   xmax: number;
+  page?: number;
 }
 
+// 'edit' and 'revert' are new changes; 'undo' and 'redo' replay an earlier one.
+// Entries without a kind predate undo support and count as edits.
+export type CorrectionKind = 'edit' | 'undo' | 'redo' | 'revert';
+
 export interface CorrectionHistory {
   oldValue: any;
   newValue: any;
   timestamp: string;
   user: string;
+  // Profile id of the operator; absent on entries recorded before profiles existed.
+  userId?: string;
+  kind?: CorrectionKind;
 }
 
 export interface ExtractedField<T> {
@@ -19,17 +27,26 @@ export interface ExtractedField<T> {
   boundingBox?: BoundingBox;
   isEdited?: boolean;
   history?: CorrectionHistory[];
+  // The model's confidence, kept from the first correction so a revert can restore it.
+  modelConfidence?: number;
+  // The model gave no value; `value` holds the field type's empty value.
+  notFound?: boolean;
 }
 
+// Stored once, on the document that created the link; the other end sees it as
+// an incoming relation. Values are resolved from the linked document when shown.
 export interface DocumentRelation {
   id: string;
   sourceField: string;
   targetDocId: string;
   targetField: string;
-  targetValue: any;
-  targetDocName: string;
+  createdAt?: string;
+  // Snapshots written by earlier versions; no longer read.
+  targetValue?: any;
+  targetDocName?: string;
 }
 
+// The built-in fields every template keeps, so `keyof InvoiceData` names exactly these.
 export interface InvoiceData {
   documentType: ExtractedField<string>;
   dealerName: ExtractedField<string>;
@@ -40,19 +57,346 @@ export interface InvoiceData {
   dealerStamp: ExtractedField<boolean>;
 }
 
+// Fields a schema template adds beyond the built-in ones, keyed by field key.
+export type TemplateFields = Record<string, ExtractedField<any>>;
+
+// What an extraction produces: the built-in fields plus those of its template.
+export type DocumentData = InvoiceData & TemplateFields;
+
+export type SchemaFieldType = 'string' | 'number' | 'currency' | 'boolean' | 'date';
+
+export interface SchemaFieldValidation {
+  required?: boolean;
+  pattern?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface SchemaField {
+  key: string;
+  label: string;
+  type: SchemaFieldType;
+  description: string;
+  unit?: string;
+  // Presence mark (signature, stamp) shown as a marker rather than a value card.
+  locate?: boolean;
+  validation?: SchemaFieldValidation;
+  // The seven original fields drive dealer matching, model checks and duplicate
+  // detection, so templates may relabel them but not remove or retype them.
+  builtIn?: boolean;
+}
+
+export interface SchemaTemplate {
+  id: string;
+  name: string;
+  version: number;
+  updatedAt: string;
+  instructions: string;
+  fields: SchemaField[];
+}
+
+export interface TemplateRef {
+  id: string;
+  version: number;
+  name: string;
+}
+
+export interface Dealer {
+  id: string;
+  canonicalName: string;
+  aliases: string[];
+  location?: string;
+}
+
+export interface DealerCandidate {
+  dealerId: string;
+  canonicalName: string;
+  score: number;
+}
+
+export interface DealerMatch {
+  rawValue: string;
+  dealerId: string | null;
+  canonicalName: string | null;
+  score: number;
+  alternatives: DealerCandidate[];
+  needsReview: boolean;
+  isManual?: boolean;
+}
+
+export interface TractorModel {
+  id: string;
+  manufacturer: string;
+  model: string;
+  aliases: string[];
+  hpMin: number;
+  hpMax: number;
+  priceMin: number;
+  priceMax: number;
+}
+
+export interface ModelValidation {
+  rawValue: string;
+  modelId: string | null;
+  normalizedName: string | null;
+  score: number;
+  hpCheck: 'ok' | 'mismatch' | 'unknown';
+  priceCheck: 'ok' | 'below' | 'above' | 'unknown';
+  fieldIssues: Partial<Record<'modelName' | 'horsePower' | 'assetCost', string>>;
+  needsReview: boolean;
+}
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+// `field` is a built-in key or one added by a schema template.
+export type RuleCondition =
+  | { kind: 'present'; field: string }
+  | { kind: 'equals'; field: string; value: string | number | boolean }
+  | { kind: 'range'; field: string; min?: number; max?: number }
+  | { kind: 'confidence'; field: string; min: number }
+  | { kind: 'pattern'; field: string; pattern: string };
+
+export interface ValidationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: RuleSeverity;
+  documentTypes?: string[];
+  when?: RuleCondition;
+  assert: RuleCondition;
+  message: string;
+}
+
+export interface RuleResult {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  passed: boolean;
+  message: string;
+}
+
+export interface ValidationReport {
+  evaluatedAt: string;
+  results: RuleResult[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface GroundTruth {
+  data: DocumentData;
+  labeledAt: string;
+  source: 'correction' | 'import';
+}
+
+export interface FieldMetric {
+  field: string;
+  count: number;
+  exactAccuracy: number;
+  fuzzyAccuracy: number;
+  meanAbsoluteError?: number;
+  meanRelativeError?: number;
+}
+
+// Precision, recall and F1 are null when there was nothing to divide by.
+export interface MarkerMetric {
+  field: 'dealerSignature' | 'dealerStamp';
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  meanIoU: number | null;
+  boxCount: number;
+}
+
+export interface EvaluationRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  providerId: string;
+  sampleCount: number;
+  failedCount: number;
+  overallAccuracy: number;
+  fieldMetrics: FieldMetric[];
+  markerMetrics: MarkerMetric[];
+}
+
+export interface DuplicateCandidate {
+  docId: string;
+  // Null when either document predates image fingerprinting.
+  imageSimilarity: number | null;
+  fieldSimilarity: number;
+  // Key fields (dealer, model, amount) that agree; absent on checks from before it was recorded.
+  matchingFields?: string[];
+  score: number;
+}
+
+export interface DuplicateCheck {
+  candidates: DuplicateCandidate[];
+  // Unset until an operator reviews the candidates.
+  decision?: 'confirmed' | 'not-duplicate';
+  duplicateOfId?: string;
+  decidedAt?: string;
+}
+
 export interface StoredDocument {
   id: string;
   timestamp: string;
-  image: string;
-  data: InvoiceData;
+  pageCount: number;
+  data: DocumentData;
   metrics: ProcessingMetrics;
+  // Template version that produced `data`; absent on documents from before templates.
+  template?: TemplateRef;
   relations?: DocumentRelation[];
+  dealerMatch?: DealerMatch;
+  modelValidation?: ModelValidation;
+  validation?: ValidationReport;
+  groundTruth?: GroundTruth;
+  perceptualHash?: string;
+  duplicateCheck?: DuplicateCheck;
+  // Counterpart documents the operator has rejected as relation suggestions.
+  dismissedSuggestions?: string[];
+  review?: ReviewState;
+  approvals?: ApprovalRecord[];
+  edits?: DocumentEdit[];
+  // Present when the stored pages were cleaned up locally; the originals are kept alongside.
+  preprocessing?: PreprocessingSummary;
+}
+
+export interface PreprocessingSummary {
+  // Human-readable list of what was applied, in order.
+  steps: string[];
+  originalBytes: number;
+  bytes: number;
+  width: number;
+  height: number;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReviewState {
+  status: ReviewStatus;
+  // Fields below their confidence threshold when the document was queued.
+  flaggedFields: string[];
+  // Flagged fields a reviewer has confirmed or corrected.
+  resolvedFields: string[];
+  reasons: string[];
+  // Approved without review because nothing was flagged.
+  automatic?: boolean;
+  decidedAt?: string;
+  decidedBy?: string;
+  note?: string;
+}
+
+export interface ReviewThresholds {
+  defaultThreshold: number;
+  fields: Record<string, number>;
+}
+
+export type OperatorRole = 'maker' | 'checker' | 'admin';
+
+export interface OperatorProfile {
+  id: string;
+  name: string;
+  role: OperatorRole;
+}
+
+export type DocumentEditAction = 'dealer' | 'link' | 'unlink' | 'duplicate' | 'ground-truth' | 'dismiss-suggestion';
+
+// Changes made outside the extracted fields (dealer, links, duplicate decisions),
+// logged like field corrections so maker-checker covers them too.
+export interface DocumentEdit {
+  action: DocumentEditAction;
+  detail: string;
+  userId: string;
+  user: string;
+  timestamp: string;
+}
+
+// One entry per approve/reject decision, kept alongside the field correction histories.
+export interface ApprovalRecord {
+  status: 'approved' | 'rejected';
+  userId: string;
+  user: string;
+  role: OperatorRole;
+  timestamp: string;
+  note?: string;
 }
 
 export interface ProcessingMetrics {
   latencyMs: number;
   costEstimateUsd: number;
   documentAccuracy: number;
+  usage?: TokenUsage;
+  quality?: ImageQuality;
+}
+
+// Local capture-quality scores, worst page first: lowest sharpness, resolution
+// and coverage, highest glare.
+export interface ImageQuality {
+  // Variance of the Laplacian over the parts of a 1000 px greyscale copy that hold
+  // content; low means blurry. Null when every page was blank.
+  sharpness: number | null;
+  // Fraction of pixels clipped to white.
+  glare: number;
+  width: number;
+  height: number;
+  // Fraction of the frame the page fills.
+  coverage: number;
+  // Checks that would have failed; kept when the operator extracts anyway.
+  failedChecks: QualityCheck[];
+}
+
+export type QualityCheck = 'blur' | 'glare' | 'resolution' | 'coverage';
+
+// Image token counts are subsets of the prompt/output totals, split out because
+// image output is priced separately.
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  imageInputTokens: number;
+  imageOutputTokens: number;
+  costUsd: number;
+}
+
+// Prices in USD per million tokens.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  imageOutputPerMillion: number;
+}
+
+export type SpendKind = 'extraction' | 'chat' | 'generation';
+
+export interface SpendEntry {
+  id: string;
+  timestamp: string;
+  kind: SpendKind;
+  usage: TokenUsage;
+}
+
+// Running sums of every booked cost, in USD; `byMonthUsd` is keyed "YYYY-MM" in local time.
+export interface SpendTotals {
+  allTimeUsd: number;
+  byMonthUsd: Record<string, number>;
+}
+
+export interface SpendBudget {
+  limitUsd: number | null;
+  warnRatio: number;
+  period: 'month' | 'all';
+}
+
+export interface ProcessError {
+  type: 'service' | 'quality' | 'format' | 'network' | 'storage' | 'budget' | 'permission' | 'quota' | 'timeout' | 'cancelled';
+  title: string;
+  message: string;
+  suggestion: string;
+}
+
+export interface ChatHistoryItem {
+  role: string;
+  parts: any[];
 }
 
 export enum AppTab {
@@ -60,5 +404,9 @@ export enum AppTab {
   GENERATOR = 'generator',
   HISTORY = 'history',
   INSIGHTS = 'insights',
-  ARCHITECTURE = 'architecture'
+  ARCHITECTURE = 'architecture',
+  BATCH = 'batch',
+  REGISTRY = 'registry',
+  SETTINGS = 'settings',
+  REVIEW = 'review'
 }